@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  transform: {
+    // tsconfig의 isolatedModules 설정으로 파일 단위로 변환 (타입 검사는 tsc로 함)
+    '^.+\\.ts$': 'ts-jest',
+  },
+  setupFiles: ['<rootDir>/test/env.ts'],
+  setupFilesAfterEnv: ['<rootDir>/test/setup.ts'],
+};
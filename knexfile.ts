@@ -0,0 +1,3 @@
+import dbConfig from './src/db/config';
+
+export = dbConfig;
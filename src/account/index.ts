@@ -0,0 +1,376 @@
+import { Knex } from 'knex';
+import dayjs from 'dayjs';
+import knex from '../db';
+import { removeAttachments } from '../attachment';
+import dotenv from 'dotenv';
+dotenv.config();
+
+/*
+    user.id(이메일)를 참조하는 테이블과 컬럼
+*/
+export const USER_REFERENCES: { table: string; column: string }[] = [
+  { table: 'user_profile', column: 'user_id' },
+  { table: 'board_content', column: 'user_id' },
+  { table: 'board_comment', column: 'user_id' },
+  { table: 'board_like', column: 'user_id' },
+  { table: 'board_comment_like', column: 'user_id' },
+  { table: 'job_posting', column: 'user_id' },
+  { table: 'password_reset_token', column: 'user_id' },
+  { table: 'user_two_factor', column: 'user_id' },
+  { table: 'two_factor_recovery_code', column: 'user_id' },
+  { table: 'session', column: 'user_id' },
+  { table: 'user_identity', column: 'user_id' },
+  { table: 'oauth_state', column: 'user_id' },
+];
+
+/*
+    job_posting.applicant(JSON 배열)에 담긴 지원자 아이디를 변경
+    @param {Knex.Transaction} trx => 아이디 변경 transaction
+    @param {string} oldId => 기존 아이디(이메일)
+    @param {string | null} newId => 새 아이디, null이면 지원자 목록에서 제거
+*/
+export const replaceApplicant = async (
+  trx: Knex.Transaction,
+  oldId: string,
+  newId: string | null
+): Promise<void> => {
+  const jobPostings: { id: string; applicant: string }[] = await trx(
+    'job_posting'
+  )
+    .select('id', 'applicant')
+    .where('applicant', 'like', `%${JSON.stringify(oldId)}%`);
+
+  for (const { id, applicant } of jobPostings) {
+    const applicants: string[] = JSON.parse(applicant || '[]');
+
+    if (!applicants.includes(oldId)) {
+      continue;
+    }
+
+    const changedApplicants: string[] = applicants.reduce(
+      (changedApplicants: string[], userId) => {
+        const changedId: string | null = userId === oldId ? newId : userId;
+
+        if (!!changedId && !changedApplicants.includes(changedId)) {
+          changedApplicants.push(changedId);
+        }
+        return changedApplicants;
+      },
+      []
+    );
+
+    await trx('job_posting')
+      .update({ applicant: JSON.stringify(changedApplicants) })
+      .where({ id });
+  }
+};
+
+/*
+    사용자 아이디(이메일)를 변경하고 참조하는 모든 테이블을 함께 변경
+    refresh token과 인증번호는 기존 아이디 기준으로 발급되었으므로 삭제
+    @param {Knex.Transaction} trx => 아이디 변경 transaction
+    @param {string} oldId => 기존 아이디(이메일)
+    @param {string} newId => 새 아이디(이메일)
+*/
+export const changeUserId = async (
+  trx: Knex.Transaction,
+  oldId: string,
+  newId: string
+): Promise<void> => {
+  await trx('user').update({ id: newId }).where({ id: oldId });
+
+  for (const { table, column } of USER_REFERENCES) {
+    await trx(table)
+      .update({ [column]: newId })
+      .where({ [column]: oldId });
+  }
+
+  await replaceApplicant(trx, oldId, newId);
+  await trx('refresh_token').delete().where({ user_id: oldId });
+  await trx('auth').delete().where({ email: oldId });
+};
+
+export const ACCOUNT_DELETION_POLICY = {
+  // 게시글, 댓글, 채용공고는 남기고 작성자만 알 수 없게 변경
+  ANONYMIZE: 'anonymize',
+  // 게시글, 댓글, 채용공고도 함께 삭제
+  DELETE: 'delete',
+} as const;
+
+export type AccountDeletionPolicy =
+  (typeof ACCOUNT_DELETION_POLICY)[keyof typeof ACCOUNT_DELETION_POLICY];
+
+export const accountDeletionPolicy: AccountDeletionPolicy =
+  process.env.ACCOUNT_DELETION_POLICY === ACCOUNT_DELETION_POLICY.DELETE
+    ? ACCOUNT_DELETION_POLICY.DELETE
+    : ACCOUNT_DELETION_POLICY.ANONYMIZE;
+
+// 탈퇴한 사용자가 작성한 글의 user_id (이메일 형식이 아니므로 가입할 수 없음)
+export const DELETED_USER_ID = 'deleted-user';
+
+/*
+    DELETE 정책에서 지울 작성 내용
+    답글, 좋아요가 row를 참조하므로 row는 남기고 제목, 내용 등을 비움
+*/
+const ERASED_CONTENT: { [table: string]: { [column: string]: string | null } } =
+  {
+    board_content: { title: '', content: '' },
+    board_comment: { content: '' },
+    job_posting: {
+      company_name: '',
+      title: '',
+      content: '',
+      image: '',
+      applicant: null,
+      address_information: '',
+    },
+  };
+
+/*
+    사용자를 탈퇴 처리하고 참조하는 모든 테이블을 정책에 따라 삭제 또는 익명화
+    S3 파일은 transaction이 끝난 뒤 삭제해야 하므로 key만 모아서 리턴
+    @param {Knex.Transaction} trx => 탈퇴 transaction
+    @param {string} userId => 탈퇴할 아이디(이메일)
+    @param {AccountDeletionPolicy} policy => 게시글, 댓글, 채용공고 처리 방식
+    @returns Promise<string[]> => 삭제할 S3 파일 key
+*/
+export const deleteUser = async (
+  trx: Knex.Transaction,
+  userId: string,
+  policy: AccountDeletionPolicy = accountDeletionPolicy
+): Promise<string[]> => {
+  const [profile, jobPostings]: [
+    { image: string | null } | undefined,
+    { image: string }[]
+  ] = await Promise.all([
+    trx('user_profile').select('image').where({ user_id: userId }).first(),
+    trx('job_posting').select('image').where({ user_id: userId }),
+  ]);
+  const fileKeys: string[] = !!profile?.image ? [profile.image] : [];
+  const authoredTables: string[] = [
+    'board_content',
+    'board_comment',
+    'job_posting',
+  ];
+
+  if (policy === ACCOUNT_DELETION_POLICY.DELETE) {
+    fileKeys.push(
+      ...(await removeAttachments(
+        trx,
+        trx('board_content').select('id').where({ user_id: userId })
+      ))
+    );
+    await trx('board_comment_history')
+      .delete()
+      .whereIn(
+        'board_comment_id',
+        trx('board_comment').select('id').where({ user_id: userId })
+      );
+  }
+
+  for (const table of authoredTables) {
+    await trx(table)
+      .update({
+        user_id: DELETED_USER_ID,
+        ...(policy === ACCOUNT_DELETION_POLICY.DELETE && {
+          is_deleted: 1,
+          ...ERASED_CONTENT[table],
+        }),
+      })
+      .where({ user_id: userId });
+  }
+
+  if (policy === ACCOUNT_DELETION_POLICY.DELETE) {
+    fileKeys.push(...jobPostings.map(({ image }) => image));
+  }
+
+  for (const { table, column } of USER_REFERENCES) {
+    if (!authoredTables.includes(table)) {
+      await trx(table)
+        .delete()
+        .where({ [column]: userId });
+    }
+  }
+
+  await replaceApplicant(trx, userId, null);
+  await trx('refresh_token').delete().where({ user_id: userId });
+  await trx('auth').delete().where({ email: userId });
+  await trx('user').delete().where({ id: userId });
+
+  return fileKeys;
+};
+
+const parseStoredJson = (value: string | null) => {
+  if (!value) {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+};
+
+/*
+    사용자에 대해 저장된 모든 정보를 모음 (개인정보 내보내기)
+    비밀번호, 2단계 인증 secret, token 같은 인증 정보는 제외
+    @param {string} userId => 사용자 아이디(이메일)
+*/
+export const collectUserData = async (userId: string) => {
+  const [
+    account,
+    profile,
+    posts,
+    attachments,
+    comments,
+    likes,
+    commentLikes,
+    jobPostings,
+    applications,
+    twoFactor,
+    sessions,
+    identities,
+  ] = await Promise.all([
+    knex('user')
+      .select('id', 'nickname', 'role', 'uni_id as uniId', 'name')
+      .where({ id: userId })
+      .first(),
+    knex('user_profile')
+      .select(
+        'is_open_information as isOpenInformation',
+        'image',
+        'positions',
+        'technologies',
+        'introduction',
+        'awards',
+        'links'
+      )
+      .where({ user_id: userId })
+      .first(),
+    knex('board_content')
+      .select(
+        'id',
+        'category_id as categoryId',
+        'title',
+        'content',
+        'uploaded_at as uploadedAt',
+        'view_count as viewCount',
+        'is_deleted as isDeleted'
+      )
+      .where({ user_id: userId })
+      .orderBy('uploaded_at'),
+    knex('board_attachment')
+      .select(
+        'board_attachment.id as id',
+        'board_attachment.board_content_id as boardContentId',
+        'board_attachment.original_name as originalName',
+        'board_attachment.mime_type as mimeType',
+        'board_attachment.size as size',
+        'board_attachment.uploaded_at as uploadedAt'
+      )
+      .innerJoin(
+        'board_content',
+        'board_content.id',
+        'board_attachment.board_content_id'
+      )
+      .where({ 'board_content.user_id': userId })
+      .orderBy('board_attachment.id'),
+    knex('board_comment')
+      .select(
+        'id',
+        'board_content_id as boardContentId',
+        'parent_id as parentId',
+        'content',
+        'uploaded_at as uploadedAt',
+        'updated_at as updatedAt',
+        'is_deleted as isDeleted'
+      )
+      .where({ user_id: userId })
+      .orderBy('uploaded_at'),
+    knex('board_like')
+      .select(
+        'board_content_id as boardContentId',
+        'updated_at as updatedAt',
+        'is_deleted as isDeleted'
+      )
+      .where({ user_id: userId }),
+    knex('board_comment_like')
+      .select(
+        'board_comment_id as boardCommentId',
+        'updated_at as updatedAt',
+        'is_deleted as isDeleted'
+      )
+      .where({ user_id: userId }),
+    knex('job_posting')
+      .select(
+        'id',
+        'company_name as companyName',
+        'title',
+        'content',
+        'deadline',
+        'image',
+        'field',
+        'address_information as addressInformation',
+        'view_count as viewCount',
+        'is_deleted as isDeleted'
+      )
+      .where({ user_id: userId }),
+    knex('job_posting')
+      .select('id', 'company_name as companyName', 'title', 'applicant')
+      .where('applicant', 'like', `%${JSON.stringify(userId)}%`),
+    knex('user_two_factor')
+      .select('is_enabled as isEnabled', 'created_at as createdAt')
+      .where({ user_id: userId })
+      .first(),
+    knex('session')
+      .select(
+        'device',
+        'user_agent as userAgent',
+        'ip',
+        'created_at as createdAt',
+        'last_refreshed_at as lastRefreshedAt'
+      )
+      .where({ user_id: userId })
+      .orderBy('created_at'),
+    knex('user_identity')
+      .select('provider', 'email', 'linked_at as linkedAt')
+      .where({ user_id: userId })
+      .orderBy('linked_at'),
+  ]);
+
+  return {
+    exportedAt: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+    account,
+    profile: !!profile
+      ? {
+          ...profile,
+          positions: parseStoredJson(profile.positions),
+          technologies: parseStoredJson(profile.technologies),
+          awards: parseStoredJson(profile.awards),
+          links: parseStoredJson(profile.links),
+        }
+      : null,
+    posts,
+    attachments,
+    comments,
+    likes,
+    commentLikes,
+    jobPostings: jobPostings.map((jobPosting: any) => {
+      return {
+        ...jobPosting,
+        addressInformation: parseStoredJson(jobPosting.addressInformation),
+      };
+    }),
+    applications: applications
+      .filter(({ applicant }: { applicant: string }) => {
+        return (parseStoredJson(applicant) || []).includes(userId);
+      })
+      .map(({ id, companyName, title }: any) => {
+        return { id, companyName, title };
+      }),
+    twoFactor: { isEnabled: !!twoFactor?.isEnabled },
+    sessions,
+    identities,
+  };
+};
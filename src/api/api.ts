@@ -34,4 +34,7 @@ app.use('/management', apiManagement);
 import apiBanner from './banner/index';
 app.use('/banner', apiBanner);
 
+import apiSearch from './search/index';
+app.use('/search', apiSearch);
+
 export default app;
@@ -1,285 +1,718 @@
-import express, { Request, Response, NextFunction } from 'express';
-import { Knex } from 'knex';
-import crypto from 'crypto';
-import { generatedJwtToken } from '../../token/index';
-import { checkObjectValueEmpty, verifyEmail } from '../../utils';
+import express, { Request, Response } from 'express';
+import knex from '../../db';
+import dialect from '../../db/dialect';
+import {
+  generatedJwtToken,
+  issueRefreshToken,
+  revokeTokenFamily,
+  revokeAllRefreshTokens,
+  verifyAccessToken,
+  verifyRefreshToken,
+  verifyTwoFactorToken,
+  verifyToken,
+  ACCESS_TOKEN_EXPIRES_IN,
+  TWO_FACTOR_TOKEN_EXPIRES_IN,
+} from '../../token/index';
+import { hashPassword, verifyPassword, needsRehash } from '../../password';
+import { assertPasswordPolicy } from '../../password/policy';
+import {
+  getUserRole,
+  isAdminRole,
+  isTwoFactorRequired,
+  Role,
+} from '../../authority';
+import { z } from 'zod';
+import { validate, requiredString, emailString } from '../../validation';
+import { asyncHandler, AppError, ForbiddenError } from '../../error';
+import { translateFor } from '../../i18n';
+import {
+  rateLimit,
+  createLoginLock,
+  ipKey,
+  bodyKey,
+  accountKey,
+} from '../../rate-limit';
 import s3Controller from '../../s3/index';
 import dayjs from 'dayjs';
 import sendMail from '../../mail/index';
+import {
+  issueVerificationCode,
+  verifyVerificationCode,
+  consumeVerificationTicket,
+  VERIFICATION_PURPOSE,
+} from '../../verification';
+import {
+  createOtpauthURI,
+  createPendingTwoFactor,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactor,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  verifyTwoFactor,
+} from '../../two-factor';
+import { createSession, getActiveSessions, revokeSession } from '../../session';
+import {
+  consumeAuthorizationState,
+  createAuthorizationURL,
+  createUserFromIdentity,
+  fetchExternalIdentity,
+  findLinkedUserId,
+  getEnabledProviders,
+  getLinkedIdentities,
+  getProvider,
+  linkIdentity,
+  unlinkIdentity,
+  OAUTH_PURPOSE,
+} from '../../oauth';
 import dotenv from 'dotenv';
 dotenv.config();
 
 const app: express.Application = express();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
+const ONE_MINUTE_TIME = 60 * 1000;
+
+const codeEmailSchema = z.object({ id: emailString });
+
+app.post(
+  '/code/email',
+  rateLimit({
+    name: 'code-email-ip',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 10,
+    key: ipKey,
+  }),
+  validate({ body: codeEmailSchema }),
+  rateLimit({
+    name: 'code-email-account',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 3,
+    key: bodyKey('id'),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id }: z.infer<typeof codeEmailSchema> = req.body;
+
+    const authCode: string = await issueVerificationCode(
+      id,
+      VERIFICATION_PURPOSE.SIGNUP
+    );
 
-      return next();
-    },
-  },
+    await sendMail({
+      toEmail: id,
+      title: translateFor(res, 'MAIL_AUTH_CODE_TITLE'),
+      content: translateFor(res, 'MAIL_AUTH_CODE_CONTENT', { authCode }),
+    });
+
+    res.status(201).json({ isSend: true });
+  })
+);
+
+const verifyEmailSchema = z.object({
+  id: requiredString,
+  code: requiredString,
 });
 
-const createCode = (length: number): string => {
-  let code = '';
-  const character =
-    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+app.post(
+  '/email',
+  rateLimit({
+    name: 'verify-email-ip',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 20,
+    key: ipKey,
+  }),
+  validate({ body: verifyEmailSchema }),
+  rateLimit({
+    name: 'verify-email-account',
+    windowMs: 5 * ONE_MINUTE_TIME,
+    max: 5,
+    key: bodyKey('id'),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, code }: z.infer<typeof verifyEmailSchema> = req.body;
+
+    const verificationTicket: string = await verifyVerificationCode(
+      id,
+      VERIFICATION_PURPOSE.SIGNUP,
+      code
+    );
 
-  for (let i: number = 0; i < length; i++) {
-    code += character.charAt(Math.floor(Math.random() * character.length));
-  }
+    res.status(200).json({ isAuth: true, verificationTicket });
+  })
+);
 
-  return code;
-};
+const loginSchema = z.object({
+  id: requiredString,
+  password: requiredString,
+});
 
-const getCurrentDate = (): string => {
-  return dayjs().format('YYYY-MM-DD HH:mm:ss');
-};
+const loginLock = createLoginLock({
+  name: 'login',
+  maxFailures: 5,
+  windowMs: 15 * ONE_MINUTE_TIME,
+  lockMs: 15 * ONE_MINUTE_TIME,
+});
 
-app.post('/code/email', (req: Request, res: Response) => {
-  const { id }: { id: string } = req.body;
+interface LoginUser {
+  password: string;
+  nickname: string;
+  role: Role;
+  profileImageKey: string | null;
+}
 
-  if (!checkObjectValueEmpty({ id })) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+const getLoginUser = async (id: string): Promise<LoginUser | undefined> => {
+  return knex('user')
+    .select(
+      'user.password as password',
+      'user.nickname as nickname',
+      'user.role as role',
+      'user_profile.image as profileImageKey'
+    )
+    .leftJoin('user_profile', 'user.id', 'user_profile.user_id')
+    .where({ id })
+    .first();
+};
 
-  if (!verifyEmail(id)) {
-    return res.status(403).json({ message: '아이디가 형식에 맞지않습니다.' });
+/*
+    로그인에 성공한 사용자의 세션을 만들어 토큰을 발급하고 응답할 사용자 정보를 만듦
+    @param {Request} req => 세션에 기록할 기기 정보와 IP를 읽을 request
+    @param {string} id => 사용자 아이디(이메일)
+    @param {LoginUser} user => getLoginUser로 조회한 사용자
+*/
+const createLoginData = async (req: Request, id: string, user: LoginUser) => {
+  let profileImage: string | false = false;
+
+  if (!!user.profileImageKey) {
+    profileImage = await s3Controller.getObjectURL(user.profileImageKey);
   }
 
-  const authCode: string = createCode(8);
-  const currentDate: string = getCurrentDate();
-  const mailOptions = {
-    toEmail: id,
-    title: '이메일 인증',
-    content: `<p> 이메일 인증번호는 ${authCode} 입니다. </p>`,
+  const familyId: string = await createSession(id, req);
+  const refreshToken = await issueRefreshToken(id, familyId);
+  const accessToken = generatedJwtToken({
+    email: id,
+    sub: 'access',
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    familyId,
+  });
+
+  return {
+    refreshToken,
+    accessToken,
+    email: id,
+    nickname: user.nickname,
+    isAdmin: isAdminRole(user.role),
+    role: user.role,
+    ...(!!profileImage && { profileImage }),
   };
+};
 
-  knex('auth')
-    .delete()
-    .where({ email: id, is_auth: 0 })
-    .then((ignore) => {
-      return Promise.all([
-        sendMail(mailOptions),
-        knex('auth').insert({
-          email: id,
-          auth_code: authCode,
-          date: currentDate,
-        }),
-      ]);
-    })
-    .then((ignore) => {
-      res.status(201).json({ isSend: true });
-    })
-    .catch((err) => {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+/*
+    로그인 응답 (비밀번호 로그인, 소셜 로그인 공통)
+    2단계 인증이 켜져 있으면 토큰 대신 /login/two-factor에 사용할 임시 토큰을 발급
+    @param {boolean} isNewUser => 소셜 로그인으로 방금 가입한 사용자인지 여부
+*/
+const respondLogin = async (
+  req: Request,
+  res: Response,
+  id: string,
+  user: LoginUser,
+  isNewUser: boolean = false
+) => {
+  if (await isTwoFactorEnabled(id)) {
+    const twoFactorToken = generatedJwtToken({
+      email: id,
+      sub: 'two-factor',
+      expiresIn: TWO_FACTOR_TOKEN_EXPIRES_IN,
     });
-});
 
-const checkValidAuthDate = (authDate: string, currentDate: string): boolean => {
-  return dayjs(authDate).diff(currentDate, 'm') > -5;
+    res.status(200).json({ data: { twoFactorRequired: true, twoFactorToken } });
+    return;
+  }
+
+  res.status(isNewUser ? 201 : 200).json({
+    data: {
+      ...(await createLoginData(req, id, user)),
+      ...((await isTwoFactorRequired(user.role)) && {
+        twoFactorSetupRequired: true,
+      }),
+      ...(isNewUser && { isNewUser }),
+    },
+  });
 };
 
-app.post('/email', (req: Request, res: Response) => {
-  const { id, code }: { id: string; code: string } = req.body;
+app.post(
+  '/login',
+  rateLimit({
+    name: 'login-ip',
+    windowMs: 15 * ONE_MINUTE_TIME,
+    max: 50,
+    key: ipKey,
+  }),
+  validate({ body: loginSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, password }: z.infer<typeof loginSchema> = req.body;
+
+    await loginLock.check(id);
+
+    const user: LoginUser | undefined = await getLoginUser(id);
+
+    if (!user || !(await verifyPassword(password, user.password))) {
+      await loginLock.fail(id);
+      throw new AppError('AUTH_LOGIN_FAILED');
+    }
+
+    await loginLock.succeed(id);
+
+    if (needsRehash(user.password)) {
+      await knex('user')
+        .update({ password: await hashPassword(password) })
+        .where({ id });
+    }
+
+    await respondLogin(req, res, id, user);
+  })
+);
+
+const loginTwoFactorSchema = z
+  .object({
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+  })
+  .refine(({ code, recoveryCode }) => !!code || !!recoveryCode, {
+    path: ['code'],
+    message: 'VALIDATION_REQUIRED',
+  });
+
+app.post(
+  '/login/two-factor',
+  verifyTwoFactorToken,
+  rateLimit({
+    name: 'login-two-factor',
+    windowMs: 15 * ONE_MINUTE_TIME,
+    max: 10,
+    key: accountKey,
+  }),
+  validate({ body: loginTwoFactorSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code, recoveryCode }: z.infer<typeof loginTwoFactorSchema> =
+      req.body;
+    const id: string = res.locals.email;
+
+    const user: LoginUser | undefined = await getLoginUser(id);
+
+    if (!user) {
+      throw new AppError('USER_NOT_FOUND');
+    }
+
+    await verifyTwoFactor({ userId: id, code, recoveryCode });
+
+    res.status(200).json({ data: await createLoginData(req, id, user) });
+  })
+);
+
+app.post(
+  '/logout',
+  verifyRefreshToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const familyId: string = res.locals.familyId;
+
+    if (!!familyId) {
+      await revokeTokenFamily(familyId);
+    }
+
+    res.status(200).json({ isLogout: true });
+  })
+);
+
+app.post(
+  '/logout-all',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
+
+    await revokeAllRefreshTokens(email);
+
+    res.status(200).json({ isLogout: true });
+  })
+);
+
+/*
+    로그인되어 있는 기기(세션) 목록
+    isCurrent는 요청한 access token이 발급된 세션
+*/
+const getSessionList = async (email: string, currentSessionId?: string) => {
+  const sessions = await getActiveSessions(email);
+
+  return sessions.map((session) => {
+    return { ...session, isCurrent: session.id === currentSessionId };
+  });
+};
 
-  if (!checkObjectValueEmpty({ id, code })) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/sessions',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const sessions = await getSessionList(
+      res.locals.email,
+      res.locals.familyId
+    );
 
-  const currentDate: string = getCurrentDate();
-
-  knex('auth')
-    .select('date')
-    .where({ email: id, auth_code: code, is_auth: 0 })
-    .first()
-    .then((authInfo: { date: string }) => {
-      if (!authInfo) {
-        return Promise.reject({
-          code: 409,
-          message: '인증번호가 틀렸습니다.',
-        });
-      }
+    res.status(200).json({ sessions });
+  })
+);
 
-      if (!checkValidAuthDate(authInfo.date, currentDate)) {
-        return Promise.reject({
-          code: 409,
-          message: '인증요청 시간이 만료되었습니다.',
-        });
-      }
+app.delete(
+  '/sessions/:id',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
 
-      return knex('auth')
-        .update({
-          is_auth: 1,
-          date: currentDate,
-        })
-        .where({
-          email: id,
-          auth_code: code,
-        });
-    })
-    .then((ignore) => {
-      res.status(200).json({ isAuth: true });
-    })
-    .catch((err) => {
-      if (isNaN(err.code)) {
-        return res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-      }
-      res.status(err.code).json({ message: err.message });
-    });
+    await revokeSession(email, req.params.id);
+
+    const sessions = await getSessionList(email, res.locals.familyId);
+
+    res.status(200).json({ sessions });
+  })
+);
+
+const twoFactorCodeSchema = z.object({ code: requiredString });
+
+const twoFactorLimit = rateLimit({
+  name: 'two-factor',
+  windowMs: 15 * ONE_MINUTE_TIME,
+  max: 10,
+  key: accountKey,
 });
 
-const encryptString = (str: string = ''): string => {
-  return crypto.createHash('sha256').update(str).digest('base64');
-};
+app.get(
+  '/two-factor',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
 
-app.post('/login', (req: Request, res: Response) => {
-  const { id, password }: { id: string; password: string } = req.body;
+    const [twoFactor, role] = await Promise.all([
+      getTwoFactor(email),
+      getUserRole(email),
+    ]);
 
-  if (!checkObjectValueEmpty({ id, password })) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+    res.status(200).json({
+      isEnabled: !!twoFactor?.isEnabled,
+      isRequired: await isTwoFactorRequired(role),
+    });
+  })
+);
 
-  knex('user')
-    .select(
-      'user.nickname as nickname',
-      'user.is_admin as isAdmin',
-      'user_profile.image as profileImageKey'
-    )
-    .leftJoin('user_profile', 'user.id', 'user_profile.user_id')
-    .where({ id, password: encryptString(password) })
-    .first()
-    .then(
-      async (user?: {
-        nickname: string;
-        isAdmin: string;
-        profileImageKey: string | null;
-      }) => {
-        let profileImage: string | false = false;
-        if (!user) {
-          return Promise.reject({
-            code: 400,
-            message: '아이디 또는 비밀번호를 잘못 입력했습니다.',
-          });
-        }
-
-        if (!!user?.profileImageKey) {
-          profileImage = await s3Controller.getObjectURL(
-            user?.profileImageKey as string
-          );
-        }
-
-        const refreshToken = generatedJwtToken({
-          email: id,
-          sub: 'refresh',
-          expiresIn: '24h',
-        });
-        const accessToken = generatedJwtToken({
-          email: id,
-          sub: 'access',
-          expiresIn: '5m',
-        });
-
-        res.status(200).json({
-          data: {
-            refreshToken,
-            accessToken,
-            email: id,
-            nickname: user.nickname,
-            isAdmin: user.isAdmin,
-            ...(!!profileImage && { profileImage }),
-          },
-        });
+app.post(
+  '/two-factor/setup',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
+
+    if (await isTwoFactorEnabled(email)) {
+      throw new AppError('TWO_FACTOR_ALREADY_ENABLED');
+    }
+
+    const secret: string = await createPendingTwoFactor(email);
+
+    res.status(201).json({
+      secret,
+      otpauthURI: createOtpauthURI(email, secret),
+    });
+  })
+);
+
+app.post(
+  '/two-factor/enable',
+  verifyAccessToken,
+  twoFactorLimit,
+  validate({ body: twoFactorCodeSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code }: z.infer<typeof twoFactorCodeSchema> = req.body;
+    const email: string = res.locals.email;
+
+    const recoveryCodes: string[] = await enableTwoFactor(email, code);
+
+    res.status(200).json({ isEnabled: true, recoveryCodes });
+  })
+);
+
+app.post(
+  '/two-factor/recovery-codes',
+  verifyAccessToken,
+  twoFactorLimit,
+  validate({ body: twoFactorCodeSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code }: z.infer<typeof twoFactorCodeSchema> = req.body;
+    const email: string = res.locals.email;
+
+    await verifyTwoFactor({ userId: email, code });
+
+    const recoveryCodes: string[] = await regenerateRecoveryCodes(email);
+
+    res.status(200).json({ recoveryCodes });
+  })
+);
+
+const disableTwoFactorSchema = z
+  .object({
+    password: requiredString,
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+  })
+  .refine(({ code, recoveryCode }) => !!code || !!recoveryCode, {
+    path: ['code'],
+    message: 'VALIDATION_REQUIRED',
+  });
+
+app.post(
+  '/two-factor/disable',
+  verifyAccessToken,
+  twoFactorLimit,
+  validate({ body: disableTwoFactorSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const {
+      password,
+      code,
+      recoveryCode,
+    }: z.infer<typeof disableTwoFactorSchema> = req.body;
+    const email: string = res.locals.email;
+
+    const user: LoginUser | undefined = await getLoginUser(email);
+
+    if (!user) {
+      throw new AppError('USER_NOT_FOUND');
+    }
+
+    if (await isTwoFactorRequired(user.role)) {
+      throw new ForbiddenError('TWO_FACTOR_REQUIRED');
+    }
+
+    if (!(await verifyPassword(password, user.password))) {
+      throw new AppError('PASSWORD_MISMATCH');
+    }
+
+    await verifyTwoFactor({ userId: email, code, recoveryCode });
+    await disableTwoFactor(email);
+
+    res.status(200).json({ isEnabled: false });
+  })
+);
+
+app.get(
+  '/oauth/providers',
+  asyncHandler(async (req: Request, res: Response) => {
+    res.status(200).json({ providers: getEnabledProviders() });
+  })
+);
+
+app.get(
+  '/oauth/identities',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const identities = await getLinkedIdentities(res.locals.email);
+
+    res.status(200).json({ identities, providers: getEnabledProviders() });
+  })
+);
+
+app.get(
+  '/oauth/:provider/authorize',
+  rateLimit({
+    name: 'oauth-authorize-ip',
+    windowMs: 15 * ONE_MINUTE_TIME,
+    max: 50,
+    key: ipKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const authorizationURL: string = await createAuthorizationURL(
+      req.params.provider,
+      OAUTH_PURPOSE.LOGIN
+    );
+
+    res.status(200).json({ authorizationURL });
+  })
+);
+
+app.post(
+  '/oauth/:provider/link',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const authorizationURL: string = await createAuthorizationURL(
+      req.params.provider,
+      OAUTH_PURPOSE.LINK,
+      res.locals.email
+    );
+
+    res.status(200).json({ authorizationURL });
+  })
+);
+
+const oauthCallbackSchema = z.object({
+  code: requiredString,
+  state: requiredString,
+});
+
+/*
+    provider의 인가 페이지에서 redirect_uri(프론트엔드)로 돌아온 code, state를 받아 처리
+    link로 시작한 요청이면 외부 계정을 연결하고, 아니면 연결된 사용자로 로그인
+    link는 state만으로 다른 사람의 계정에 연결되지 않도록 연결을 시작한 사용자의 access token이 필요
+    연결된 사용자가 없으면 외부 계정의 인증된 이메일로 가입
+    같은 이메일로 가입한 사용자가 이미 있으면 자동으로 연결하지 않음 (로그인 후 연결해야 함)
+*/
+app.post(
+  '/oauth/:provider/callback',
+  rateLimit({
+    name: 'oauth-callback-ip',
+    windowMs: 15 * ONE_MINUTE_TIME,
+    max: 50,
+    key: ipKey,
+  }),
+  validate({ body: oauthCallbackSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { code, state }: z.infer<typeof oauthCallbackSchema> = req.body;
+    const provider: string = getProvider(req.params.provider).name;
+
+    const { purpose, userId, nonce, codeVerifier } =
+      await consumeAuthorizationState(provider, state);
+
+    if (purpose === OAUTH_PURPOSE.LINK) {
+      const { isOk, error } = verifyToken(req, res, 'access');
+
+      if (!isOk) {
+        throw error;
       }
-    )
-    .catch((err) => {
-      console.log(err);
-      if (isNaN(err.code)) {
-        return res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+
+      if (res.locals.email !== userId) {
+        throw new ForbiddenError();
       }
-      res.status(err.code).json({ message: err.message });
+    }
+
+    const identity = await fetchExternalIdentity(provider, code, {
+      nonce,
+      codeVerifier,
     });
-});
+
+    if (purpose === OAUTH_PURPOSE.LINK) {
+      await linkIdentity(res.locals.email, provider, identity);
+
+      const identities = await getLinkedIdentities(res.locals.email);
+      res.status(200).json({ isLinked: true, identities });
+      return;
+    }
+
+    const linkedUserId = await findLinkedUserId(provider, identity.subject);
+
+    if (!!linkedUserId) {
+      const user = await getLoginUser(linkedUserId);
+
+      if (!user) {
+        throw new AppError('USER_NOT_FOUND');
+      }
+
+      await respondLogin(req, res, linkedUserId, user);
+      return;
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new AppError('OAUTH_EMAIL_REQUIRED');
+    }
+
+    const email: string = identity.email.trim().toLowerCase();
+
+    if (!!(await getLoginUser(email))) {
+      throw new AppError('OAUTH_ACCOUNT_EXISTS');
+    }
+
+    const id = await createUserFromIdentity(provider, { ...identity, email });
+    const user = (await getLoginUser(id)) as LoginUser;
+
+    await respondLogin(req, res, id, user, true);
+  })
+);
+
+app.delete(
+  '/oauth/:provider',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
+
+    await unlinkIdentity(email, req.params.provider);
+
+    const identities = await getLinkedIdentities(email);
+    res.status(200).json({ identities });
+  })
+);
 
 const isVaildBirthday = (birthday: string = ''): boolean => {
   return dayjs(birthday, 'YYYYMMDD').format('YYYYMMDD') === birthday;
 };
 
-interface joinBody {
-  id: string;
-  nickname: string;
-  password: string;
-  verifyPassword: string;
-}
-
-app.post('/join', (req: Request, res: Response) => {
-  const { id, nickname, password, verifyPassword }: joinBody = req.body;
+const joinSchema = z
+  .object({
+    id: emailString,
+    nickname: z.string().trim().min(1),
+    password: requiredString,
+    verifyPassword: requiredString,
+    verificationTicket: z.string().optional(),
+  })
+  .refine(({ password, verifyPassword }) => password === verifyPassword, {
+    path: ['verifyPassword'],
+    message: 'VALIDATION_PASSWORD_MISMATCH',
+  });
+
+type JoinBody = z.infer<typeof joinSchema>;
+
+/*
+    아이디 또는 닉네임이 이미 사용 중이면 에러를 던짐
+*/
+const checkDuplicatedUser = async (id: string, nickname: string) => {
+  const user: { id: string; nickname: string } | undefined = await knex('user')
+    .select('id', 'nickname')
+    .where({ id })
+    .orWhere({ nickname })
+    .first();
 
-  if (
-    !checkObjectValueEmpty({
-      id,
-      nickname,
-      password,
-      verifyPassword,
-    })
-  ) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
+  if (user?.id === id) {
+    throw new AppError('USER_ID_DUPLICATED');
   }
 
-  if (password !== verifyPassword) {
-    return res.status(400).json({ message: '비밀번호가 일치하지 않습니다.' });
+  if (user?.nickname === nickname) {
+    throw new AppError('USER_NICKNAME_DUPLICATED');
   }
+};
 
-  knex('user')
-    .select('id', 'nickname')
-    .where({ id })
-    .orWhere({ nickname })
-    .first()
-    .then((user) => {
-      if (!!user) {
-        if (user.id === id) {
-          return Promise.reject({
-            code: 409,
-            message: '이미 존재하는 아이디(이메일) 입니다.',
-          });
-        }
-
-        if (user.nickname === nickname) {
-          return Promise.reject({
-            code: 409,
-            message: '이미 존재하는 닉네임 입니다.',
-          });
-        }
-      }
+app.post(
+  '/join',
+  validate({ body: joinSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, nickname, password, verificationTicket }: JoinBody = req.body;
+
+    assertPasswordPolicy(res, password, { email: id, nickname });
+
+    await checkDuplicatedUser(id, nickname);
 
-      return Promise.resolve(
-        knex('user').insert({
+    const hashedPassword: string = await hashPassword(password);
+
+    try {
+      await knex.transaction(async (trx) => {
+        await consumeVerificationTicket(
+          trx,
           id,
-          nickname,
-          password: encryptString(password),
-        })
-      );
-    })
-    .then((ignore) => {
-      res.status(201).json({ isJoin: true });
-    })
-    .catch((err) => {
-      if (isNaN(err.code)) {
-        return res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+          VERIFICATION_PURPOSE.SIGNUP,
+          verificationTicket
+        );
+        await trx('user').insert({ id, nickname, password: hashedPassword });
+      });
+    } catch (error) {
+      if (dialect.isUniqueViolation(error)) {
+        await checkDuplicatedUser(id, nickname);
+        throw new AppError('USER_ID_DUPLICATED', { cause: error });
       }
-      res.status(err.code).json({ message: err.message });
-    });
-});
+
+      throw error;
+    }
+
+    res.status(201).json({ isJoin: true });
+  })
+);
 
 export default app;
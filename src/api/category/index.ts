@@ -1,27 +1,12 @@
-import express, { Response, Request, NextFunction } from 'express';
-import { Knex } from 'knex';
+import express, { Response, Request } from 'express';
+import knex from '../../db';
 import { verifyAccessToken } from '../../token/index';
+import { requireRole, ADMIN_ROLES } from '../../authority';
+import { z } from 'zod';
+import { validate } from '../../validation';
+import { asyncHandler } from '../../error';
 const app: express.Application = express();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: parseInt(process.env.DB_PORT || '3306'),
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    charset: 'utf8mb4',
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-        return value ? value === '1' : null;
-      }
-      return next();
-    },
-  },
-});
-
 export const REGION_MAP: { [key: string]: string } = {
   '02': '서울',
   '031': '경기',
@@ -47,154 +32,107 @@ interface Category {
   name: string;
 }
 
-app.get('/job', async (req: Request, res: Response) => {
-  try {
+app.get(
+  '/job',
+  asyncHandler(async (req: Request, res: Response) => {
     const jobCategoryList: Category[] = await knex('job_category').select('*');
     res.status(200).json({ jobCategoryList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.get('/region', (req: Request, res: Response) => {
-  try {
-    const regionList = Object.keys(REGION_MAP).reduce(
-      (regionList: { id: string; name: string }[], region) => {
-        regionList.push({ id: region, name: REGION_MAP[region] });
-        return regionList;
-      },
-      []
-    );
-    res.status(200).json({ regionList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
+  const regionList = Object.keys(REGION_MAP).reduce(
+    (regionList: { id: string; name: string }[], region) => {
+      regionList.push({ id: region, name: REGION_MAP[region] });
+      return regionList;
+    },
+    []
+  );
+  res.status(200).json({ regionList });
 });
 
-app.get('/plattform', async (req: Request, res: Response) => {
-  try {
+app.get(
+  '/plattform',
+  asyncHandler(async (req: Request, res: Response) => {
     const plattformList: Category[] = await knex('plattform').select('*');
     res.status(200).json({ plattformList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
-app.get('/technology', async (req: Request, res: Response) => {
-  try {
+app.get(
+  '/technology',
+  asyncHandler(async (req: Request, res: Response) => {
     const technologyList: Category[] = await knex('technology').select('*');
     res.status(200).json({ technologyList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
-app.get('/class', async (req: Request, res: Response) => {
-  try {
+app.get(
+  '/class',
+  asyncHandler(async (req: Request, res: Response) => {
     const classList: Category[] = await knex('class').select('*');
     res.status(200).json({ classList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
-app.get('/community', async (req: Request, res: Response) => {
-  try {
+app.get(
+  '/community',
+  asyncHandler(async (req: Request, res: Response) => {
     const communityList: Category[] = await knex('board_category').select('*');
     res.status(200).json({ communityList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
-
-app.get('/year', async (req: Request, res: Response) => {
-  try {
-    const yearList: { id: string }[] = await knex('year')
-      .select('*')
-      .orderBy('id');
-    const yearListArr = yearList.map(({ id }) => {
-      return id;
-    });
-
-    res.status(200).json({ yearList: yearListArr });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
-app.post('/year', verifyAccessToken, async (req: Request, res: Response) => {
-  const email: string = res.locals.email;
-  const body = req.body;
+const getYearList = async (): Promise<string[]> => {
+  const yearList: { id: string }[] = await knex('year')
+    .select('*')
+    .orderBy('id');
 
-  if (!body?.id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+  return yearList.map(({ id }) => {
+    return id;
+  });
+};
 
-  const id: string = body.id;
+app.get(
+  '/year',
+  asyncHandler(async (req: Request, res: Response) => {
+    const yearList: string[] = await getYearList();
 
-  if (!(1974 <= Number(id) && Number(id) <= 2100)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+    res.status(200).json({ yearList });
+  })
+);
 
-  try {
-    const requester = await knex('user')
-      .select('is_admin as isAdmin')
-      .where({ id: email })
-      .first();
+const yearSchema = z.object({
+  id: z.coerce.number().int().min(1974).max(2100).transform(String),
+});
 
-    if (!requester?.isAdmin) {
-      return res.status(403).json({ message: '수정 권한이 없습니다.' });
-    }
+app.post(
+  '/year',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  validate({ body: yearSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id }: z.infer<typeof yearSchema> = req.body;
 
     await knex('year').insert({ id }).onConflict('id').ignore();
-    const yearList: { id: string }[] = await knex('year')
-      .select('*')
-      .orderBy('id');
-    const yearListArr = yearList.map(({ id }) => {
-      return id;
-    });
-
-    res.status(200).json({ yearList: yearListArr });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+    const yearList: string[] = await getYearList();
+
+    res.status(200).json({ yearList });
+  })
+);
 
 app.delete(
   '/year/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    const email: string = res.locals.email;
-    const id = req.params?.id;
-
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
-    }
-
-    try {
-      const requester = await knex('user')
-        .select('is_admin as isAdmin')
-        .where({ id: email })
-        .first();
-
-      if (!requester?.isAdmin) {
-        return res.status(403).json({ message: '수정 권한이 없습니다.' });
-      }
-
-      await knex('year').where({ id }).delete();
-
-      const yearList: { id: string }[] = await knex('year')
-        .select('*')
-        .orderBy('id');
-      const yearListArr = yearList.map(({ id }) => {
-        return id;
-      });
-
-      res.status(200).json({ yearList: yearListArr });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+
+    await knex('year').where({ id }).delete();
+    const yearList: string[] = await getYearList();
+
+    res.status(200).json({ yearList });
+  })
 );
 
 export default app;
@@ -1,43 +1,80 @@
 import express, { Request, Response, NextFunction } from 'express';
 import dotenv from 'dotenv';
-import { Knex } from 'knex';
+import knex from '../../db';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
 import 'dayjs/locale/ko';
-import { checkRequiredProperties, generatedUniqueID } from '../../utils';
+import { generatedUniqueID } from '../../utils';
 import { verifyAccessToken, getUserEmail } from '../../token/index';
+import { getUserRole, isAdminRole, requireOwnership } from '../../authority';
 import { setViewCount } from '../../view/index';
+import { z } from 'zod';
+import {
+  validate,
+  requiredString,
+  queryArray,
+  idQuerySchema,
+} from '../../validation';
+import { asyncHandler, NotFoundError } from '../../error';
 import s3Controller from '../../s3/index';
+import { renderMarkdown } from '../../markdown';
+import {
+  Attachment,
+  receiveAttachments,
+  addAttachments,
+  checkAttachmentCount,
+  getAttachments,
+  removeAttachments,
+  deleteAttachmentFiles,
+} from '../../attachment';
 dotenv.config();
 dayjs.extend(relativeTime);
 dayjs.locale('ko');
 
 const app: express.Application = express();
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: parseInt(process.env.DB_PORT || '3306'),
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-        return value ? value === '1' : null;
-      }
-      return next();
-    },
-  },
-});
 const PAGE_LIMIT = 20;
+// 좋아요가 BEST_COMMENT_MIN_LIKES개 이상인 댓글 중 많은 순으로 BEST_COMMENT_LIMIT개를 베스트 댓글로 보여줌
+const BEST_COMMENT_MIN_LIKES: number =
+  parseInt(process.env.BEST_COMMENT_MIN_LIKES || '') || 5;
+const BEST_COMMENT_LIMIT = 3;
+
+const requirePostOwnership = requireOwnership({
+  table: 'board_content',
+  hasSoftDelete: true,
+});
+const requireCommentOwnership = requireOwnership({
+  table: 'board_comment',
+  hasSoftDelete: true,
+});
 
-interface BoardContent {
+const boardContentSchema = z.object({
+  categoryId: z.coerce.number().int().positive(),
+  title: z.string().trim().min(1),
+  content: requiredString,
+});
+const boardContentUpdateSchema = boardContentSchema
+  .omit({ categoryId: true })
+  .extend({
+    deletedAttachmentIds: queryArray(z.coerce.number().int()).optional(),
+  });
+const commentSchema = z.object({
+  id: requiredString,
+  content: requiredString,
+  parentId: z.coerce.number().int().positive().optional(),
+});
+const categoryQuerySchema = z.object({
+  categoryId: z.coerce.number().int().positive(),
+});
+const listQuerySchema = categoryQuerySchema.extend({
+  page: z.coerce.number().int().min(1),
+});
+
+type BoardContentBody = z.infer<typeof boardContentSchema>;
+
+interface BoardContent extends Pick<BoardContentBody, 'title' | 'content'> {
   id: string;
   userId: string;
   userNickname: string;
-  title: string;
-  content: string;
   likeCount?: number;
   commentCount?: number;
   fromNowWhileAgoPosted?: string;
@@ -45,126 +82,362 @@ interface BoardContent {
   uploadedAt?: string;
   totalCommentLikes?: number;
   hasAuthority?: boolean;
+  acceptedCommentId?: number | null;
+  attachments?: Attachment[];
 }
 interface Comment {
   id: number;
+  parentId?: number | null;
   userId: string;
   userNickname: string;
   content: string;
   uploadedAt?: string;
+  updatedAt?: string | null;
+  isDeleted?: boolean;
+  likeCount?: number;
+  isLiked?: boolean;
+  acceptedCommentId?: number | null;
   fromNowWhileAgoPosted?: string;
   profileImageURL?: string | null;
 }
 
-app.post('/', verifyAccessToken, async (req: Request, res: Response) => {
-  const body = req.body;
-
-  if (!checkRequiredProperties(['categoryId', 'title', 'content'], body)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  const email: string = res.locals.email;
-  const uniqueID: string = generatedUniqueID();
-
-  try {
-    await knex('board_content').insert({
-      id: uniqueID,
-      user_id: email,
-      category_id: body.categoryId,
-      title: body.title,
-      content: body.content,
-      uploaded_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+app.post(
+  '/',
+  verifyAccessToken,
+  receiveAttachments,
+  validate({ body: boardContentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body: BoardContentBody = req.body;
+    const email: string = res.locals.email;
+    const uniqueID: string = generatedUniqueID();
+
+    await knex.transaction(async (trx) => {
+      await trx('board_content').insert({
+        id: uniqueID,
+        user_id: email,
+        category_id: body.categoryId,
+        title: body.title,
+        content: body.content,
+        uploaded_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+      });
+      await addAttachments(trx, uniqueID, req.files as Express.Multer.File[]);
     });
 
     res.status(201).json({ isPosted: true });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
+  })
+);
 
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+/*
+    댓글 목록을 정리할 때 관리자인지 댓글마다 조회하지 않도록 요청한 사용자의 역할을 한 번만 조회
+    @param {string} email => 요청한 사용자 아이디(이메일), 로그인하지 않았으면 undefined
+*/
+const getIsAdmin = async (email?: string): Promise<boolean> => {
+  if (email === undefined) {
+    return false;
   }
-});
 
-const formatComments = (comments: Comment[], email: string) => {
-  return comments.map(async (comment: Comment) => {
-    const newComments = {
-      id: comment.id,
-      userId: comment.userId,
-      userNickname: comment.userNickname,
-      content: comment.content,
-      fromNowWhileAgoPosted: dayjs(`${comment.uploadedAt}`).fromNow(),
-      ...(!!comment.profileImageURL && {
-        profileImageURL: (
-          (await s3Controller.getObjectURL(comment.profileImageURL)) as string
-        ).split('?')[0],
-      }),
-    };
-    let hasAuthority: boolean = false;
+  return isAdminRole(await getUserRole(email));
+};
 
-    if (email !== undefined) {
-      const { is_admin: isAdmin } = await knex('user')
-        .select('is_admin')
-        .where({ id: email })
-        .first();
+/*
+    @param {Comment} comment => getComments로 조회한 댓글
+    @param {string} email => 요청한 사용자 아이디(이메일)
+    @param {boolean} isAdmin => getIsAdmin으로 조회한 요청한 사용자의 관리자 여부
+*/
+const formatComment = async (
+  comment: Comment,
+  email: string,
+  isAdmin: boolean
+) => {
+  const newComments = {
+    id: comment.id,
+    userId: comment.userId,
+    userNickname: comment.userNickname,
+    content: comment.content,
+    fromNowWhileAgoPosted: dayjs(`${comment.uploadedAt}`).fromNow(),
+    likeCount: comment.likeCount || 0,
+    ...(!!comment.isLiked && { isLiked: true }),
+    ...(!!comment.updatedAt && { isEdited: true }),
+    ...(comment.id === comment.acceptedCommentId && { isAccepted: true }),
+    ...(!!comment.profileImageURL && {
+      profileImageURL: (
+        (await s3Controller.getObjectURL(comment.profileImageURL)) as string
+      ).split('?')[0],
+    }),
+  };
+  let hasAuthority: boolean = false;
 
-      hasAuthority = email === comment.userId || isAdmin;
-    }
+  if (email !== undefined) {
+    hasAuthority = email === comment.userId || isAdmin;
+  }
+
+  return { ...newComments, ...(hasAuthority && { hasAuthority }) };
+};
+
+/*
+    댓글을 답글과 묶어서 최신순으로 정리 (답글은 작성순)
+    삭제된 댓글에 남아있는 답글이 있으면 내용 없이 isDeleted만 담아서 자리를 유지
+    @param {Comment[]} comments => getComments로 조회한 게시글의 모든 댓글 (삭제된 댓글 포함)
+    @param {string} email => 요청한 사용자 아이디(이메일)
+    @param {boolean} isAdmin => getIsAdmin으로 조회한 요청한 사용자의 관리자 여부
+*/
+const formatComments = async (
+  comments: Comment[],
+  email: string,
+  isAdmin: boolean
+) => {
+  const replyMap = new Map<number, Comment[]>();
+
+  comments
+    .filter((comment) => !!comment.parentId && !comment.isDeleted)
+    .reverse()
+    .forEach((reply) => {
+      const parentId = reply.parentId as number;
+      replyMap.set(parentId, [...(replyMap.get(parentId) || []), reply]);
+    });
 
-    return { ...newComments, ...(hasAuthority && { hasAuthority }) };
+  const threads: Comment[] = comments.filter((comment) => {
+    return (
+      !comment.parentId && (!comment.isDeleted || replyMap.has(comment.id))
+    );
   });
+
+  return Promise.all(
+    threads.map(async (comment) => {
+      const replies = await Promise.all(
+        (replyMap.get(comment.id) || []).map((reply) =>
+          formatComment(reply, email, isAdmin)
+        )
+      );
+      const parent = comment.isDeleted
+        ? { id: comment.id, isDeleted: true }
+        : await formatComment(comment, email, isAdmin);
+
+      return { ...parent, replyCount: replies.length, replies };
+    })
+  );
 };
 
-const getComments = (id: string): Promise<Comment[]> => {
-  return knex('board_comment')
+/*
+    게시글의 모든 댓글을 삭제된 댓글까지 조회 (formatComments에서 정리)
+    @param {string} id => 게시글 id
+    @param {string} email => 좋아요 여부를 확인할 사용자 아이디(이메일)
+*/
+const getComments = async (
+  id: string,
+  email: string = ''
+): Promise<Comment[]> => {
+  const comments: Comment[] = await knex('board_comment')
     .select(
       'board_comment.id as id',
+      'board_comment.parent_id as parentId',
       'board_comment.user_id as userId',
       'user.nickname as userNickname',
       'board_comment.content as content',
       'board_comment.uploaded_at as uploadedAt',
-      'user_profile.image as profileImageURL'
+      'board_comment.updated_at as updatedAt',
+      'board_comment.is_deleted as isDeleted',
+      'board_content.accepted_comment_id as acceptedCommentId',
+      'user_profile.image as profileImageURL',
+      knex('board_comment_like')
+        .count('*')
+        .where(
+          'board_comment_like.board_comment_id',
+          knex.ref('board_comment.id')
+        )
+        .andWhere({ 'board_comment_like.is_deleted': 0 })
+        .as('likeCount'),
+      knex('board_comment_like')
+        .count('*')
+        .where(
+          'board_comment_like.board_comment_id',
+          knex.ref('board_comment.id')
+        )
+        .andWhere({
+          'board_comment_like.user_id': email,
+          'board_comment_like.is_deleted': 0,
+        })
+        .as('isLiked')
+    )
+    .innerJoin(
+      'board_content',
+      'board_content.id',
+      'board_comment.board_content_id'
     )
     .leftJoin('user', 'user.id', 'board_comment.user_id')
     .leftJoin('user_profile', 'user_profile.user_id', 'board_comment.user_id')
-    .where({
-      'board_comment.board_content_id': id,
-      'board_comment.is_deleted': false,
+    .where({ 'board_comment.board_content_id': id })
+    .orderBy('board_comment.uploaded_at', 'desc')
+    .orderBy('board_comment.id', 'desc');
+
+  return comments.map((comment) => {
+    return {
+      ...comment,
+      isDeleted: !!comment.isDeleted,
+      isLiked: !!comment.isLiked,
+      likeCount: Number(comment.likeCount),
+    };
+  });
+};
+
+/*
+    좋아요가 BEST_COMMENT_MIN_LIKES개 이상인 댓글을 좋아요 순으로 골라 베스트 댓글로 정리
+    @param {Comment[]} comments => getComments로 조회한 게시글의 모든 댓글
+    @param {string} email => 요청한 사용자 아이디(이메일)
+    @param {boolean} isAdmin => getIsAdmin으로 조회한 요청한 사용자의 관리자 여부
+*/
+const formatBestComments = (
+  comments: Comment[],
+  email: string,
+  isAdmin: boolean
+) => {
+  const bestComments: Comment[] = comments
+    .filter((comment) => {
+      return (
+        !comment.isDeleted &&
+        (comment.likeCount as number) >= BEST_COMMENT_MIN_LIKES
+      );
+    })
+    .sort((a: Comment, b: Comment) => {
+      return (
+        (b.likeCount as number) - (a.likeCount as number) ||
+        dayjs(a.uploadedAt).valueOf() - dayjs(b.uploadedAt).valueOf()
+      );
     })
-    .orderBy('board_comment.uploaded_at', 'desc');
+    .slice(0, BEST_COMMENT_LIMIT);
+
+  return Promise.all(
+    bestComments.map((comment) => formatComment(comment, email, isAdmin))
+  );
 };
 
-app.post('/comment', verifyAccessToken, async (req: Request, res: Response) => {
-  const body = req.body;
+/*
+    답글을 달 댓글의 스레드(최상위 댓글) id를 찾음
+    답글에 답글을 달면 같은 스레드에 남도록 최상위 댓글에 연결
+    @param {string} boardContentId => 게시글 id
+    @param {number} parentId => 답글을 달려는 댓글 id
+*/
+const getThreadId = async (
+  boardContentId: string,
+  parentId: number
+): Promise<number> => {
+  const parent: { id: number; parentId: number | null } | undefined =
+    await knex('board_comment')
+      .select('id', 'parent_id as parentId')
+      .where({
+        id: parentId,
+        board_content_id: boardContentId,
+        is_deleted: false,
+      })
+      .first();
 
-  if (!checkRequiredProperties(['id', 'content'], body)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
+  if (!parent) {
+    throw new NotFoundError('COMMENT_PARENT_NOT_FOUND');
   }
 
-  const email: string = res.locals.email;
+  return parent.parentId ?? parent.id;
+};
+
+app.post(
+  '/comment',
+  verifyAccessToken,
+  validate({ body: commentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body: z.infer<typeof commentSchema> = req.body;
+    const email: string = res.locals.email;
+
+    const parentId: number | null = !!body.parentId
+      ? await getThreadId(body.id, body.parentId)
+      : null;
 
-  try {
     await knex('board_comment').insert({
       board_content_id: body.id,
+      parent_id: parentId,
       user_id: email,
       content: body.content,
       uploaded_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
     });
 
-    const originalComments: Comment[] = await getComments(body.id);
-    const comments: Comment[] = await Promise.all(
-      formatComments(originalComments, email)
+    const originalComments: Comment[] = await getComments(body.id, email);
+    const comments = await formatComments(
+      originalComments,
+      email,
+      await getIsAdmin(email)
     );
 
     res.status(201).json({ comments });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
+  })
+);
+
+const commentUpdateSchema = commentSchema.pick({ content: true });
+
+/*
+    댓글 수정 시 이전 내용을 board_comment_history에 남김
+*/
+app.patch(
+  '/comment/:id',
+  verifyAccessToken,
+  requireCommentOwnership,
+  validate({ body: commentUpdateSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+    const email: string = res.locals.email;
+    const { content }: z.infer<typeof commentUpdateSchema> = req.body;
+
+    const comment: { boardContentId: string; content: string } = await knex(
+      'board_comment'
+    )
+      .select('board_content_id as boardContentId', 'content')
+      .where({ id })
+      .first();
+
+    if (comment.content !== content) {
+      const editedAt: string = dayjs().format('YYYY-MM-DD HH:mm:ss');
+
+      await knex.transaction(async (trx) => {
+        await trx('board_comment_history').insert({
+          board_comment_id: id,
+          content: comment.content,
+          edited_at: editedAt,
+        });
+        await trx('board_comment')
+          .update({ content, updated_at: editedAt })
+          .where({ id });
+      });
     }
 
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+    const originalComments: Comment[] = await getComments(
+      comment.boardContentId,
+      email
+    );
+    const comments = await formatComments(
+      originalComments,
+      email,
+      await getIsAdmin(email)
+    );
+
+    res.status(200).json({ comments });
+  })
+);
+
+app.get(
+  '/comment/:id/history',
+  verifyAccessToken,
+  requireCommentOwnership,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+
+    const history: { content: string; editedAt: string }[] = await knex(
+      'board_comment_history'
+    )
+      .select('content', 'edited_at as editedAt')
+      .where({ board_comment_id: id })
+      .orderBy('edited_at', 'desc')
+      .orderBy('id', 'desc');
+
+    res.status(200).json({ history });
+  })
+);
 
 const checkLiked = (id: string, email: string): Promise<boolean> => {
   const isLiked: Promise<boolean> = (async () => {
@@ -183,151 +456,208 @@ const checkLiked = (id: string, email: string): Promise<boolean> => {
   return isLiked;
 };
 
-app.patch('/:id', verifyAccessToken, async (req: Request, res: Response) => {
-  const id: string = req.params.id;
-  const body = req.body;
+app.patch(
+  '/:id',
+  verifyAccessToken,
+  requirePostOwnership,
+  receiveAttachments,
+  validate({ body: boardContentUpdateSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+    const body: z.infer<typeof boardContentUpdateSchema> = req.body;
+    const files = (req.files || []) as Express.Multer.File[];
+    const deletedAttachmentIds: number[] = body.deletedAttachmentIds || [];
+
+    const fileKeys: string[] = await knex.transaction(async (trx) => {
+      await trx('board_content')
+        .update({ title: body.title, content: body.content })
+        .where({ id });
+      await checkAttachmentCount(trx, id, files.length, deletedAttachmentIds);
+
+      const fileKeys: string[] = !!deletedAttachmentIds.length
+        ? await removeAttachments(trx, [id], deletedAttachmentIds)
+        : [];
+      await addAttachments(trx, id, files);
+
+      return fileKeys;
+    });
 
-  if (!id || !checkRequiredProperties(['title', 'content'], body)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+    await deleteAttachmentFiles(fileKeys);
 
-  const email: string = res.locals.email;
+    res.status(200).json({ isUpdated: true });
+  })
+);
 
-  try {
-    const hasAuthority = await knex('board_content')
-      .select('user_id')
-      .where({ user_id: email })
-      .first();
+app.patch(
+  '/like/:id',
+  verifyAccessToken,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+    const email: string = res.locals.email;
 
-    const { is_admin: isAdmin } = await knex('user')
-      .select('is_admin')
-      .where({ id: email })
-      .first();
+    const isLiked: boolean = await checkLiked(id, email);
 
-    if (!hasAuthority && !isAdmin) {
-      return res.status(400).json({ message: '수정 할 권한이 없습니다.' });
-    }
+    await knex('board_like')
+      .insert({
+        board_content_id: id,
+        user_id: email,
+        updated_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+        is_deleted: isLiked,
+      })
+      .onConflict(['board_content_id', 'user_id'])
+      .merge();
 
-    await knex('board_content')
-      .update({ title: body.title, content: body.content })
-      .where({ id });
+    const { likeCount }: { likeCount: number } = (await knex('board_like')
+      .count('board_content_id as likeCount')
+      .where({ board_content_id: id, is_deleted: 0 })
+      .first()) as { likeCount: number };
 
-    res.status(200).json({ isUpdated: true });
-  } catch (error: any) {
-    console.log(error);
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+    res.status(200).json({ isLiked: !isLiked, likeCount });
+  })
+);
 
 app.patch(
-  '/like/:id',
+  '/comment/like/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = req.params.id;
     const email: string = res.locals.email;
 
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요입니다.' });
+    const [comment, liked]: [
+      { id: number } | undefined,
+      { isDeleted: boolean } | undefined
+    ] = await Promise.all([
+      knex('board_comment').select('id').where({ id, is_deleted: 0 }).first(),
+      knex('board_comment_like')
+        .select('is_deleted as isDeleted')
+        .where({ board_comment_id: id, user_id: email })
+        .first(),
+    ]);
+
+    if (!comment) {
+      throw new NotFoundError();
     }
 
-    try {
-      const isLiked: boolean = await checkLiked(id, email);
+    const isLiked: boolean = !!liked && !liked.isDeleted;
 
-      await knex('board_like')
-        .insert({
-          board_content_id: id,
-          user_id: email,
-          updated_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
-          is_deleted: isLiked,
-        })
-        .onConflict()
-        .merge();
-
-      const { likeCount }: { likeCount: number } = (await knex('board_like')
-        .count('board_content_id as likeCount')
-        .where({ board_content_id: id, is_deleted: 0 })
-        .first()) as { likeCount: number };
-
-      res.status(200).json({ isLiked: !isLiked, likeCount });
-    } catch (error: any) {
-      if (!isNaN(error.code) && !!error.message) {
-        return res.status(error.code).json({ message: error.message });
-      }
+    await knex('board_comment_like')
+      .insert({
+        board_comment_id: id,
+        user_id: email,
+        updated_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+        is_deleted: isLiked,
+      })
+      .onConflict(['board_comment_id', 'user_id'])
+      .merge();
 
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    const { likeCount }: { likeCount: number } = (await knex(
+      'board_comment_like'
+    )
+      .count('board_comment_id as likeCount')
+      .where({ board_comment_id: id, is_deleted: 0 })
+      .first()) as { likeCount: number };
+
+    res.status(200).json({ isLiked: !isLiked, likeCount });
+  })
 );
 
-app.delete('/:id', verifyAccessToken, async (req: Request, res: Response) => {
-  const id: string = req.params.id;
-  const email: string = res.locals.email;
+const acceptedCommentSchema = z.object({
+  commentId: z.coerce.number().int().positive(),
+});
 
-  try {
-    const hasAuthority = await knex('board_comment')
-      .select('user_id')
-      .where({ user_id: email })
-      .first();
+/*
+    글쓴이나 관리자가 댓글 하나를 채택 (다시 채택하면 교체)
+*/
+app.put(
+  '/:id/accepted-comment',
+  verifyAccessToken,
+  requirePostOwnership,
+  validate({ body: acceptedCommentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+    const { commentId }: z.infer<typeof acceptedCommentSchema> = req.body;
 
-    const { is_admin: isAdmin } = await knex('user')
-      .select('is_admin')
-      .where({ id: email })
+    const comment: { id: number } | undefined = await knex('board_comment')
+      .select('id')
+      .where({ id: commentId, board_content_id: id, is_deleted: 0 })
       .first();
 
-    if (!hasAuthority && !isAdmin) {
-      return res.status(400).json({ message: '삭제 할 권한이 없습니다.' });
+    if (!comment) {
+      throw new NotFoundError();
     }
 
-    await knex('board_content').update({ is_deleted: 1 }).where({ id });
+    await knex('board_content')
+      .update({ accepted_comment_id: commentId })
+      .where({ id });
+
+    res.status(200).json({ acceptedCommentId: commentId });
+  })
+);
+
+app.delete(
+  '/:id/accepted-comment',
+  verifyAccessToken,
+  requirePostOwnership,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+
+    await knex('board_content')
+      .update({ accepted_comment_id: null })
+      .where({ id });
+
+    res.status(200).json({ acceptedCommentId: null });
+  })
+);
+
+app.delete(
+  '/:id',
+  verifyAccessToken,
+  requirePostOwnership,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
+
+    const fileKeys: string[] = await knex.transaction(async (trx) => {
+      await trx('board_content').update({ is_deleted: 1 }).where({ id });
+
+      return removeAttachments(trx, [id]);
+    });
+
+    await deleteAttachmentFiles(fileKeys);
 
     res.status(200).json({ isDeleted: true });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.delete(
   '/comment/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  requireCommentOwnership,
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = req.params.id;
     const email: string = res.locals.email;
 
-    try {
-      const hasAuthority = await knex('board_comment')
-        .select('user_id')
-        .where({ user_id: email })
-        .first();
-
-      const { is_admin: isAdmin } = await knex('user')
-        .select('is_admin')
-        .where({ id: email })
-        .first();
+    await knex('board_comment').update({ is_deleted: true }).where({ id });
 
-      if (!hasAuthority && !isAdmin) {
-        return res.status(400).json({ message: '삭제 할 권한이 없습니다.' });
-      }
-
-      await knex('board_comment').update({ is_deleted: true }).where({ id });
+    const { boardContentId } = await knex('board_comment')
+      .select('board_content_id as boardContentId')
+      .where({ id })
+      .first();
+    const originalComments: Comment[] = await getComments(
+      boardContentId,
+      email
+    );
+    const comments = await formatComments(
+      originalComments,
+      email,
+      await getIsAdmin(email)
+    );
+    const { commentCount } = (await knex('board_comment')
+      .count('board_content_id as commentCount')
+      .where({ board_content_id: boardContentId, is_deleted: 0 })
+      .first()) as { commentCount: number };
 
-      const { boardContentId } = await knex('board_comment')
-        .select('board_content_id as boardContentId')
-        .where({ id })
-        .first();
-      const originalComments: Comment[] = await getComments(boardContentId);
-      const comments: Comment[] = await Promise.all(
-        formatComments(originalComments, email)
-      );
-      const { commentCount } = (await knex('board_comment')
-        .count('board_content_id as commentCount')
-        .where({ board_content_id: boardContentId, is_deleted: 0 })
-        .first()) as { commentCount: number };
-
-      res.status(201).json({ comments, commentCount });
-    } catch (error: any) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(201).json({ comments, commentCount });
+  })
 );
 
 const formatBoardContent = async (
@@ -352,6 +682,9 @@ const formatBoardContent = async (
     commentCount: comment.count,
     fromNowWhileAgoPosted: dayjs(uploadedAt).fromNow(),
     ...data,
+    ...(data.content !== undefined && {
+      contentHTML: renderMarkdown(data.content),
+    }),
     ...(isLiked && { isLiked }),
     ...(!!profileImageURL && {
       profileImageURL: (
@@ -367,59 +700,48 @@ app.get(
     setViewCount(req, res, next, 'board_content');
   },
   getUserEmail,
-  async (req: Request, res: Response) => {
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = req.query.id as string;
     const email: string = res.locals.email;
 
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
+    const originalBoardContent: BoardContent | undefined = await knex(
+      'board_content'
+    )
+      .select(
+        'board_content.id as id',
+        'board_content.category_id as categoryId',
+        'board_content.user_id as userId',
+        'user.nickname as userNickname',
+        'board_content.title as title',
+        'board_content.content as content',
+        'board_content.uploaded_at as uploadedAt',
+        'board_content.accepted_comment_id as acceptedCommentId',
+        'user_profile.image as profileImageURL'
+      )
+      .leftJoin('user', 'user.id', 'board_content.user_id')
+      .leftJoin('user_profile', 'user_profile.user_id', 'board_content.user_id')
+      .where({
+        'board_content.id': id,
+        'board_content.is_deleted': false,
+      })
+      .first();
+
+    if (!originalBoardContent) {
+      throw new NotFoundError();
     }
 
-    try {
-      const originalBoardContent: BoardContent = await knex('board_content')
-        .select(
-          'board_content.id as id',
-          'board_content.category_id as categoryId',
-          'board_content.user_id as userId',
-          'user.nickname as userNickname',
-          'board_content.title as title',
-          'board_content.content as content',
-          'board_content.uploaded_at as uploadedAt',
-          'user_profile.image as profileImageURL'
-        )
-        .leftJoin('user', 'user.id', 'board_content.user_id')
-        .leftJoin(
-          'user_profile',
-          'user_profile.user_id',
-          'board_content.user_id'
-        )
-        .where({
-          'board_content.id': id,
-          'board_content.is_deleted': false,
-        })
-        .first();
-
-      if (email !== undefined) {
-        const { is_admin: isAdmin } = await knex('user')
-          .select('is_admin')
-          .where({ id: email })
-          .first();
-        originalBoardContent.hasAuthority =
-          email === originalBoardContent.userId || isAdmin;
-      }
+    if (email !== undefined) {
+      originalBoardContent.hasAuthority =
+        email === originalBoardContent.userId || (await getIsAdmin(email));
+    }
 
-      const content = await formatBoardContent(email, originalBoardContent);
+    originalBoardContent.attachments = await getAttachments(id);
 
-      res.status(200).json({ content });
-    } catch (error: any) {
-      console.log(error);
-      if (!isNaN(error.code) && !!error.message) {
-        return res.status(error.code).json({ message: error.message });
-      }
+    const content = await formatBoardContent(email, originalBoardContent);
 
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ content });
+  })
 );
 
 const getBoardContents = (
@@ -447,34 +769,29 @@ const getBoardContents = (
     .offset(offset);
 };
 
-app.get('/list', getUserEmail, async (req: Request, res: Response) => {
-  const query = req.query;
-  const email: string = res.locals.email;
-
-  if (!checkRequiredProperties(['categoryId', 'page'], query)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  if (Number(query.page as string) < 1) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/list',
+  getUserEmail,
+  validate({ query: listQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const email: string = res.locals.email;
 
-  try {
     const currentPageContentList: BoardContent[] = await getBoardContents(
       query.categoryId,
-      (Number(query.page as string) - 1) * PAGE_LIMIT
+      (query.page - 1) * PAGE_LIMIT
     );
     const nextPageNumber: number = await (async (): Promise<number> => {
       const nextPageContentList: BoardContent[] = await getBoardContents(
         query.categoryId,
-        Number(query.page as string) * PAGE_LIMIT
+        query.page * PAGE_LIMIT
       );
 
       if (!nextPageContentList.length) {
         return -1;
       }
 
-      return Number(query.page as string) + 1;
+      return query.page + 1;
     })();
 
     const contentList: BoardContent[] = await Promise.all(
@@ -484,14 +801,8 @@ app.get('/list', getUserEmail, async (req: Request, res: Response) => {
     );
 
     res.status(200).json({ contentList, page: nextPageNumber });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 const bestBoardContents = (contentList: BoardContent[]): BoardContent[] => {
   const bestPickList: BoardContent[] = contentList
@@ -514,14 +825,14 @@ const bestBoardContents = (contentList: BoardContent[]): BoardContent[] => {
   return bestPickList;
 };
 
-app.get('/best-pick', async (req: Request, res: Response) => {
-  const categoryId: string = req.query.categoryId as string;
-
-  if (!categoryId) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/best-pick',
+  validate({ query: categoryQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { categoryId } = req.query as unknown as z.infer<
+      typeof categoryQuerySchema
+    >;
 
-  try {
     const yesterday: string = dayjs().add(-1, 'day').format('YYYY-MM-DD');
     const boardContents: BoardContent[] = await knex('board_content')
       .select(
@@ -549,37 +860,38 @@ app.get('/best-pick', async (req: Request, res: Response) => {
     const bestPickList: BoardContent[] = bestBoardContents(contentList);
 
     res.status(200).json({ content: bestPickList });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
-
-app.get('/comments', getUserEmail, async (req: Request, res: Response) => {
-  const id: string = req.query.id as string;
-  const email: string = res.locals.email;
+  })
+);
 
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/comments',
+  getUserEmail,
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
+    const email: string = res.locals.email;
 
-  try {
-    const originalComments: Comment[] = await getComments(id);
-    const comments: Comment[] = await Promise.all(
-      formatComments(originalComments, email)
+    const [originalComments, isAdmin]: [Comment[], boolean] = await Promise.all(
+      [getComments(id, email), getIsAdmin(email)]
+    );
+    const acceptedComment: Comment | undefined = originalComments.find(
+      (comment) =>
+        comment.id === comment.acceptedCommentId && !comment.isDeleted
     );
 
-    res.status(200).json({ comments });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+    const [comments, bestComments] = await Promise.all([
+      formatComments(originalComments, email, isAdmin),
+      formatBestComments(originalComments, email, isAdmin),
+    ]);
+
+    res.status(200).json({
+      comments,
+      bestComments,
+      acceptedComment: !!acceptedComment
+        ? await formatComment(acceptedComment, email, isAdmin)
+        : null,
+    });
+  })
+);
 
 export default app;
@@ -1,50 +1,86 @@
 import express, { Request, Response, NextFunction } from 'express';
 import multer, { memoryStorage } from 'multer';
 import dotenv from 'dotenv';
-import { Knex } from 'knex';
+import knex from '../../db';
+import dialect from '../../db/dialect';
 import sharp from 'sharp';
 import dayjs from 'dayjs';
 import sendMail from '../../mail/index';
 import { v4 as uuidv4 } from 'uuid';
-import {
-  checkRequiredProperties,
-  verifyEmail,
-  generatedUniqueID,
-} from '../../utils';
+import { verifyEmail, generatedUniqueID } from '../../utils';
 import { verifyAccessToken, getUserEmail } from '../../token/index';
 import { REGION_MAP } from '../category/index';
 import s3Controller from '../../s3';
 import { setViewCount } from '../../view/index';
 import common from '../../common';
+import {
+  getUserRole,
+  isAdminRole,
+  requireOwnership,
+  requireRole,
+  ROLE,
+  ADMIN_ROLES,
+} from '../../authority';
+import { z } from 'zod';
+import {
+  validate,
+  requiredString,
+  jsonString,
+  queryArray,
+  idQuerySchema,
+} from '../../validation';
+import {
+  asyncHandler,
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../error';
+import { translateAll } from '../../i18n';
+import { renderMarkdown } from '../../markdown';
 dotenv.config();
 
 const app: express.Application = express();
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: parseInt(process.env.DB_PORT || '3306'),
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-        return value ? value === '1' : null;
-      }
-      return next();
-    },
-  },
+
+const requireJobPostingOwnership = requireOwnership({
+  table: 'job_posting',
+  hasSoftDelete: true,
+  messageKey: 'EMPLOYMENT_UPDATE_FORBIDDEN',
 });
 
-type QueryElement = string | string[] | undefined;
+const ONE_DAY_TIME = 24 * 60 * 60 * 10 * 100;
+
+const addressSchema = z.object({ address: requiredString }).passthrough();
+const employmentSchema = z.object({
+  companyName: requiredString,
+  title: requiredString,
+  content: requiredString,
+  address: jsonString(addressSchema).transform((address) =>
+    JSON.stringify(address)
+  ),
+  deadline: z.string().regex(/^\d{8}$/),
+  positionId: z.coerce.number().int().positive(),
+});
+const employmentPostSchema = employmentSchema.extend({
+  deadline: employmentSchema.shape.deadline.refine(
+    (deadline) =>
+      dayjs(deadline, 'YYYYMMDD').diff(dayjs().format('YYYYMMDD')) >=
+      ONE_DAY_TIME,
+    'VALIDATION_DEADLINE_TOO_EARLY'
+  ),
+});
+const applicantSchema = z.object({ id: requiredString });
+const listQuerySchema = z.object({
+  position: queryArray(z.coerce.number().int()).optional(),
+  region: queryArray(z.string()).optional(),
+});
 
-interface Employment extends EmploymentOptions {
+type EmploymentBody = z.infer<typeof employmentSchema>;
+
+interface Employment
+  extends EmploymentOptions,
+    Pick<EmploymentBody, 'companyName' | 'title' | 'content'> {
   id: string;
   userId: string;
-  companyName: string;
-  title: string;
-  content: string;
   image: string;
 }
 
@@ -60,14 +96,27 @@ interface EmploymentOptions {
   deadline?: string;
   viewCount?: string;
   positionName?: string;
+  contentHTML?: string;
 }
 
-const isJsonString = (str: string) => {
+/*
+    채용공고 이미지를 리사이즈 후 S3에 업로드
+    @param {Buffer} image => 업로드할 이미지
+    @returns Promise<string> => 업로드된 S3 key
+*/
+const uploadEmploymentImage = async (image?: Buffer): Promise<string> => {
   try {
-    const json = JSON.parse(str);
-    return typeof json === 'object';
+    const resizedImageBuffer = await sharp(image)
+      .resize({ fit: 'fill', width: 1080, height: 790 })
+      .toBuffer();
+    const data = await s3Controller.uploadFile(
+      resizedImageBuffer,
+      `employment/${uuidv4()}.jpg`
+    );
+
+    return data.Key;
   } catch (error) {
-    return false;
+    throw new AppError('IMAGE_UPLOAD_FAILED', { cause: error });
   }
 };
 
@@ -75,159 +124,130 @@ const splitJsonAddress = (address: string): string[] => {
   return JSON.parse(address)?.address.split(' ') || ['주소', '없음'];
 };
 
-const queryStringToStringArray = (
-  queryString: QueryElement
-): string[] | null => {
-  if (!queryString) {
-    return null;
-  }
-  if (typeof queryString === 'string') {
-    return [queryString];
-  }
-
-  return queryString;
-};
-
 app.get(
   '/',
   (req: Request, res: Response, next: NextFunction) => {
     setViewCount(req, res, next, 'job_posting');
   },
   getUserEmail,
-  async (req: Request, res: Response) => {
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const email: string = res.locals.email || '';
-    const id = req.query?.id;
-
-    if (typeof id !== 'string') {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
+    const id: string = req.query.id as string;
+
+    const [rawEmploymentInfo, role] = await Promise.all([
+      knex('job_posting')
+        .select(
+          'job_posting.id as id',
+          'user_id as userId',
+          'company_name as companyName',
+          'title',
+          'content',
+          'deadline',
+          'image',
+          'job_posting.field as positionId',
+          'job_category.name as positionName',
+          'applicant',
+          'address_information as addressInformation'
+        )
+        .innerJoin('job_category', 'job_category.id', 'field')
+        .where({ 'job_posting.id': id, is_deleted: false })
+        .first(),
+      !!email ? getUserRole(email) : undefined,
+    ]);
+
+    if (!rawEmploymentInfo) {
+      throw new NotFoundError();
     }
 
-    try {
-      const promiseAllArr = [
-        knex('job_posting')
-          .select(
-            'job_posting.id as id',
-            'user_id as userId',
-            'company_name as companyName',
-            'title',
-            'content',
-            'deadline',
-            'image',
-            'job_posting.field as positionId',
-            'job_category.name as positionName',
-            'applicant',
-            'address_information as addressInformation'
-          )
-          .innerJoin('job_category', 'job_category.id', 'field')
-          .where({ 'job_posting.id': id, is_deleted: false })
-          .first(),
-      ];
-      if (!!email) {
-        promiseAllArr.push(
-          knex('user')
-            .select('is_admin as isAdmin')
-            .where({ id: email })
-            .first()
-        );
-      }
-      const [rawEmploymentInfo, user] = await Promise.all(promiseAllArr);
+    const {
+      userId,
+      image,
+      companyName,
+      title,
+      content,
+      applicant,
+      addressInformation,
+      deadline,
+      positionId,
+      positionName,
+    }: Employment = { ...rawEmploymentInfo };
+    const isAdmin: boolean = isAdminRole(role);
+
+    const employmentInfo: Employment = {
+      ...((email === userId || !!isAdmin) && { hasAuthority: true }),
+      id,
+      userId,
+      image,
+      companyName,
+      addressInformation,
+      title,
+      content,
+      contentHTML: renderMarkdown(content),
+      positionId,
+      positionName,
+    };
 
-      if (!rawEmploymentInfo) {
-        return res.status(404).json({ message: '리소스를 찾을 수 없습니다.' });
-      }
+    const imageURL = await s3Controller.getObjectURL(image);
+    employmentInfo.image = imageURL || image;
 
-      const {
-        userId,
-        image,
-        companyName,
-        title,
-        content,
-        applicant,
-        addressInformation,
-        deadline,
-        positionId,
-        positionName,
-      }: Employment = { ...rawEmploymentInfo };
-      const { isAdmin }: { isAdmin: boolean } = user || { isAdmin: false };
-
-      const employmentInfo: Employment = {
-        ...((email === userId || !!isAdmin) && { hasAuthority: true }),
-        id,
-        userId,
-        image,
-        companyName,
-        addressInformation,
-        title,
-        content,
-        positionId,
-        positionName,
-      };
+    if (
+      !!applicant &&
+      (JSON.parse(applicant) as Array<string>).find(
+        (applicant) => applicant === email
+      )
+    ) {
+      employmentInfo.isApplied = true;
+    }
 
-      try {
-        const imageURL = await s3Controller.getObjectURL(image);
-        employmentInfo.image = imageURL || image;
-      } catch (error) {
-        res.status(500).json({ message: 'S3 연결 실패' });
-      }
+    const [province, city]: string[] = splitJsonAddress(
+      addressInformation as string
+    );
+    employmentInfo.region = `${province} ${city}`;
+    employmentInfo.deadline = dayjs(deadline).format('YYYY.MM.DD');
 
-      if (
-        !!applicant &&
-        (JSON.parse(applicant) as Array<string>).find(
-          (applicant) => applicant === email
-        )
-      ) {
-        employmentInfo.isApplied = true;
-      }
+    res.status(200).json(employmentInfo);
+  })
+);
 
-      const [province, city]: string[] = splitJsonAddress(
-        addressInformation as string
+app.get(
+  '/list',
+  validate({ query: listQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { position, region } = req.query as unknown as z.infer<
+      typeof listQuerySchema
+    >;
+    const EmploymentListQuery = knex('job_posting')
+      .select(
+        'job_posting.id',
+        'company_name as companyName',
+        'title',
+        'image',
+        'address_information as addressInformation',
+        'job_category.name as position',
+        'view_count as viewCount'
+      )
+      .innerJoin('job_category', 'job_posting.field', 'job_category.id')
+      .where('deadline', '>=', `${dayjs().format('YYYYMMDD')}`)
+      .andWhere({ is_deleted: false });
+    dialect.orderByRandom(EmploymentListQuery);
+
+    const regionFilterPatterns = region
+      ?.filter((regionId) => !!REGION_MAP[regionId])
+      .map((regionId) => `${REGION_MAP[regionId]}%`);
+
+    if (!!regionFilterPatterns?.length) {
+      dialect.whereJsonValueLike(
+        EmploymentListQuery,
+        'address_information',
+        '$.address',
+        regionFilterPatterns
       );
-      employmentInfo.region = `${province} ${city}`;
-      employmentInfo.deadline = dayjs(deadline).format('YYYY.MM.DD');
-
-      res.status(200).json(employmentInfo);
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
     }
-  }
-);
-
-app.get('/list', async (req: Request, res: Response) => {
-  const { position, region } = req.query;
-  const EmploymentListQuery = knex('job_posting')
-    .select(
-      'job_posting.id',
-      'company_name as companyName',
-      'title',
-      'image',
-      'address_information as addressInformation',
-      'job_category.name as position',
-      'view_count as viewCount'
-    )
-    .innerJoin('job_category', 'job_posting.field', 'job_category.id')
-    .where('deadline', '>=', `${dayjs().format('YYYYMMDD')}`)
-    .andWhere({ is_deleted: false })
-    .orderByRaw('RAND()');
-
-  const regionFilterArray = queryStringToStringArray(region as QueryElement);
-  const positionFilterArray = queryStringToStringArray(
-    position as QueryElement
-  );
-  const regionFilterQuery = regionFilterArray
-    ?.map(
-      (regionId) =>
-        `address_information like '{%"address"%:%"${REGION_MAP[regionId]}%'`
-    )
-    .join(' or ');
-
-  if (!!regionFilterQuery) {
-    EmploymentListQuery.whereRaw(regionFilterQuery);
-  }
-  if (!!positionFilterArray && positionFilterArray.length) {
-    EmploymentListQuery.whereIn('job_posting.field', positionFilterArray);
-  }
+    if (!!position?.length) {
+      EmploymentListQuery.whereIn('job_posting.field', position);
+    }
 
-  try {
     const rawEmploymentList: Employment[] = await EmploymentListQuery;
     const jobPostingList = await Promise.all(
       rawEmploymentList.map(
@@ -257,104 +277,78 @@ app.get('/list', async (req: Request, res: Response) => {
     );
 
     res.status(200).json({ jobPostingList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.get(
   '/applicant/list',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const email: string = res.locals.email;
-    const id = req?.query?.id;
+    const id: string = req.query.id as string;
 
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
+    const jobPosting: { userId: string; applicant: string } = await knex(
+      'job_posting'
+    )
+      .select('user_id as userId', 'applicant')
+      .where({ 'job_posting.id': id })
+      .first();
+
+    if (!jobPosting) {
+      throw new NotFoundError();
     }
-    try {
-      const jobPosting: { userId: string; applicant: string } = await knex(
-        'job_posting'
+
+    const applicantList: string[] = JSON.parse(jobPosting?.applicant || '[]');
+    const applicantInformation: {
+      applicantCount: number;
+      applicantList?: { id: string; profileImage?: string }[];
+    } = {
+      applicantCount: applicantList.length,
+    };
+
+    if (jobPosting.userId === email) {
+      const applicantsProfiles: { id: string; image?: string }[] = await knex(
+        'user_profile'
       )
-        .select('user_id as userId', 'applicant')
-        .where({ 'job_posting.id': id })
-        .first();
+        .select('user_id as id', 'image')
+        .whereIn('user_id', applicantList);
+      applicantInformation.applicantList = await Promise.all(
+        applicantsProfiles.map(async (profile) => {
+          const applicantsProfiles: { id: string; profileImage?: string } = {
+            id: profile.id,
+          };
 
-      if (!jobPosting) {
-        return res.status(404).json({ message: '리소스를 찾을 수 없습니다.' });
-      }
+          if (!!profile.image) {
+            const profileImage = await s3Controller.getObjectURL(profile.image);
 
-      const applicantList: string[] = JSON.parse(jobPosting?.applicant || '[]');
-      const applicantInformation: {
-        applicantCount: number;
-        applicantList?: { id: string; profileImage?: string }[];
-      } = {
-        applicantCount: applicantList.length,
-      };
-
-      if (jobPosting.userId === email) {
-        const applicantsProfiles: { id: string; image?: string }[] = await knex(
-          'user_profile'
-        )
-          .select('user_id as id', 'image')
-          .whereIn('user_id', applicantList);
-        applicantInformation.applicantList = await Promise.all(
-          applicantsProfiles.map(async (profile) => {
-            const applicantsProfiles: { id: string; profileImage?: string } = {
-              id: profile.id,
-            };
-
-            if (!!profile.image) {
-              const profileImage = await s3Controller.getObjectURL(
-                profile.image
-              );
-
-              if (!!profileImage) {
-                applicantsProfiles.profileImage = profileImage;
-              }
+            if (!!profileImage) {
+              applicantsProfiles.profileImage = profileImage;
             }
+          }
 
-            return applicantsProfiles;
-          })
-        );
-      }
-
-      res.status(200).json(applicantInformation);
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+          return applicantsProfiles;
+        })
+      );
     }
-  }
+
+    res.status(200).json(applicantInformation);
+  })
 );
 
+/*
+    채용공고 등록 (기업 회원, 관리자만 가능)
+*/
 app.post(
   '/',
   multer({ storage: memoryStorage() }).single('image'),
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  requireRole(ROLE.COMPANY, ...ADMIN_ROLES),
+  validate({ body: employmentPostSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const email: string = res.locals.email;
-    const body: Employment = JSON.parse(JSON.stringify(req.body));
-    const { companyName, title, content, address, deadline, positionId } = body;
-    const ONE_DAY_TIME = 24 * 60 * 60 * 10 * 100;
-
-    if (
-      !checkRequiredProperties(
-        [
-          'companyName',
-          'title',
-          'content',
-          'address',
-          'deadline',
-          'positionId',
-        ],
-        body
-      ) ||
-      !isJsonString(address as string) ||
-      !Number(deadline) ||
-      dayjs(deadline, 'YYYYMMDD').diff(dayjs().format('YYYYMMDD')) <
-        ONE_DAY_TIME
-    ) {
-      return res.status(400).json({ code: 400, message: '잘못된 요청입니다.' });
-    }
+    const { companyName, title, content, address, deadline, positionId } =
+      req.body as EmploymentBody;
 
     const employmentInsertBody = {
       title,
@@ -367,119 +361,81 @@ app.post(
       address_information: address,
       field: positionId,
     };
-    try {
-      const resizedImageBuffer = await sharp(req.file?.buffer)
-        .resize({ fit: 'fill', width: 1080, height: 790 })
-        .toBuffer();
-      const data = await s3Controller.uploadFile(
-        resizedImageBuffer,
-        `employment/${uuidv4()}.jpg`
-      );
-      employmentInsertBody.image = data.Key;
-    } catch (error) {
-      return res
-        .status(500)
-        .json({ message: '이미지 업로드에 실패하였습니다.' });
-    }
+    employmentInsertBody.image = await uploadEmploymentImage(req.file?.buffer);
 
-    try {
-      await knex('job_posting').insert(employmentInsertBody);
+    await knex('job_posting').insert(employmentInsertBody);
 
-      res.status(201).json({ isPosted: true });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(201).json({ isPosted: true });
+  })
 );
 
 app.post(
   '/applicant',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    if (
-      !checkRequiredProperties(['id'], req.body) &&
-      typeof req.body.id !== 'string'
-    ) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
+  validate({ body: applicantSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const email: string = res.locals.email;
+    const { id }: z.infer<typeof applicantSchema> = req.body;
+    const [user, jobPosting, isExistsProfile]: [
+      { id: string; name: string },
+      { userId: string; applicant: string } | undefined,
+      boolean
+    ] = await Promise.all([
+      knex('user').select('id', 'name').where({ id: email }).first(),
+      knex('job_posting')
+        .select('user_id as userId', 'applicant')
+        .where({ id, is_deleted: false })
+        .first(),
+      common.isExistsProfile(email),
+    ]);
+
+    if (!jobPosting) {
+      throw new NotFoundError();
     }
 
-    const email: string = res.locals.email;
-    const id: string = req.body.id;
-    try {
-      const [user, jobPosting, isExistsProfile]: [
-        { id: string; name: string },
-        { userId: string; applicant: string },
-        boolean
-      ] = await Promise.all([
-        knex('user').select('id', 'name').where({ id: email }).first(),
-        knex('job_posting')
-          .select('user_id as userId', 'applicant')
-          .where({ id })
-          .first(),
-        common.isExistsProfile(email),
-      ]);
+    if (!isExistsProfile || jobPosting.userId === email) {
+      throw new ForbiddenError('EMPLOYMENT_APPLY_FORBIDDEN');
+    }
 
-      if (!isExistsProfile || jobPosting.userId === email) {
-        return res.status(403).json({ message: '지원 하실 수 없습니다.' });
-      }
+    const applicants: string[] = JSON.parse(jobPosting?.applicant || '[]');
 
-      const applicants: string[] = JSON.parse(jobPosting?.applicant || '[]');
-
-      if (!applicants.find((userId: string) => userId === user.id)) {
-        applicants.push(user.id);
-        const applicantPromiseAll: Array<any> = [
-          knex('job_posting')
-            .where({ id })
-            .update('applicant', `${JSON.stringify(applicants)}`),
-        ];
-
-        if (verifyEmail(jobPosting.userId)) {
-          applicantPromiseAll.push(
-            sendMail({
-              toEmail: jobPosting.userId,
-              title: 'Boogie On & On 채용공고 지원 메일',
-              content: `귀하의 회사에 ${user.name}(${user.id})님이 지원하였습니다.`,
-            })
-          );
-        }
+    if (!applicants.find((userId: string) => userId === user.id)) {
+      applicants.push(user.id);
+      const applicantPromiseAll: Array<any> = [
+        knex('job_posting')
+          .where({ id })
+          .update('applicant', `${JSON.stringify(applicants)}`),
+      ];
 
-        await Promise.all(applicantPromiseAll);
+      if (verifyEmail(jobPosting.userId)) {
+        applicantPromiseAll.push(
+          sendMail({
+            toEmail: jobPosting.userId,
+            title: translateAll('MAIL_EMPLOYMENT_APPLICANT_TITLE').join(' / '),
+            content: translateAll('MAIL_EMPLOYMENT_APPLICANT_CONTENT', {
+              name: user.name,
+              id: user.id,
+            }).join(''),
+          })
+        );
       }
 
-      res.status(201).json({ isApplied: true });
-    } catch (error: any) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+      await Promise.all(applicantPromiseAll);
     }
-  }
+
+    res.status(201).json({ isApplied: true });
+  })
 );
 
 app.patch(
   '/:id',
   verifyAccessToken,
+  requireJobPostingOwnership,
   multer({ storage: memoryStorage() }).single('image'),
-  async (req: Request, res: Response) => {
-    const email: string = res.locals.email;
+  validate({ body: employmentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const id = req.params.id;
-    const body = JSON.parse(JSON.stringify(req.body));
     const image: Buffer | undefined = req.file?.buffer;
-
-    if (
-      !id ||
-      !checkRequiredProperties(
-        [
-          'title',
-          'content',
-          'companyName',
-          'address',
-          'deadline',
-          'positionId',
-        ],
-        body
-      )
-    ) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
-    }
-
     const {
       title,
       content,
@@ -487,24 +443,7 @@ app.patch(
       address,
       deadline,
       positionId,
-    }: Employment = body;
-
-    try {
-      const [requesterInfo, author]: [{ isAdmin: boolean }, { id: string }] =
-        await Promise.all([
-          knex('user')
-            .select('is_admin as isAdmin')
-            .where({ id: email })
-            .first(),
-          knex('job_posting').select('user_id as id').where({ id }).first(),
-        ]);
-
-      if (!requesterInfo.isAdmin && author.id !== email) {
-        return res.status(403).json({ message: '수정 권한이 없습니다.' });
-      }
-    } catch (error) {
-      throw error;
-    }
+    }: EmploymentBody = req.body;
 
     const updateBody: {
       title: string;
@@ -537,86 +476,57 @@ app.patch(
         updateBody.image = null;
       } catch (error) {}
 
-      try {
-        const resizedImageBuffer = await sharp(image)
-          .resize({ fit: 'fill', width: 1080, height: 790 })
-          .toBuffer();
-        const data = await s3Controller.uploadFile(
-          resizedImageBuffer,
-          `employment/${uuidv4()}.jpg`
-        );
-        updateBody.image = data.Key;
-      } catch (error) {
-        return res
-          .status(500)
-          .json({ message: '이미지 업로드에 실패하였습니다.' });
-      }
+      updateBody.image = await uploadEmploymentImage(image);
     }
 
-    try {
-      await knex('job_posting').update(updateBody).where({ id });
-      res.status(200).json({ isUpdated: true });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    await knex('job_posting').update(updateBody).where({ id });
+    res.status(200).json({ isUpdated: true });
+  })
 );
 
-app.delete('/:id', verifyAccessToken, async (req: Request, res: Response) => {
-  const email: string = res.locals.email;
-  const id = req.params.id;
-
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  try {
-    const [requester, author]: [{ isAdmin: boolean }, { userId: string }] =
-      await Promise.all([
-        knex('user').select('is_admin as isAdmin').where({ id: email }).first(),
-        knex('job_posting').select('user_id as userId').where({ id }).first(),
-      ]);
-
-    if (!requester.isAdmin && author.userId !== email) {
-      return res.status(403).json({ message: '수정 권한이 없습니다.' });
-    }
+app.delete(
+  '/:id',
+  verifyAccessToken,
+  requireJobPostingOwnership,
+  asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
 
     await knex('job_posting').update({ is_deleted: true }).where({ id });
 
     res.status(200).json({ isDeleted: true });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.delete(
   '/applicant/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response) => {
     const email: string = res.locals.email;
     const id = req.params.id;
 
-    try {
-      const { applicants }: { applicants: string } = await knex('job_posting')
-        .select('applicant as applicants')
-        .where({ id })
-        .first();
+    const jobPosting: { applicants: string | null } | undefined = await knex(
+      'job_posting'
+    )
+      .select('applicant as applicants')
+      .where({ id })
+      .first();
 
-      const deletedRequesterArr: string[] = JSON.parse(applicants)?.filter(
-        (applicant: string) => applicant !== email
-      );
+    if (!jobPosting) {
+      throw new NotFoundError();
+    }
 
-      const applicant = !!deletedRequesterArr?.length
-        ? JSON.stringify(deletedRequesterArr)
-        : null;
+    const deletedRequesterArr: string[] = JSON.parse(
+      jobPosting.applicants || '[]'
+    ).filter((applicant: string) => applicant !== email);
 
-      await knex('job_posting').update({ applicant }).where({ id });
+    const applicant = !!deletedRequesterArr.length
+      ? JSON.stringify(deletedRequesterArr)
+      : null;
 
-      res.status(200).json({ isDeleted: true });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    await knex('job_posting').update({ applicant }).where({ id });
+
+    res.status(200).json({ isDeleted: true });
+  })
 );
 
 export default app;
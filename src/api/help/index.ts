@@ -1,75 +1,180 @@
-import express, { Request, Response, NextFunction } from 'express';
-import { Knex } from 'knex';
+import express, { Request, Response } from 'express';
 import crypto from 'crypto';
-import { verifyEmail, checkObjectValueEmpty } from '../../utils';
+import dayjs from 'dayjs';
+import knex from '../../db';
+import { z } from 'zod';
+import { validate, requiredString, emailString } from '../../validation';
+import { hashPassword, verifyPassword } from '../../password';
+import { assertPasswordPolicy } from '../../password/policy';
+import { revokeAllRefreshTokens } from '../../token';
+import { rateLimit, ipKey, bodyKey } from '../../rate-limit';
+import { translateFor } from '../../i18n';
+import { asyncHandler, AppError } from '../../error';
+import sendMail from '../../mail/index';
 import dotenv from 'dotenv';
 dotenv.config();
 
 const app: express.Application = express();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
-
-      return next();
-    },
-  },
-});
+const ONE_MINUTE_TIME = 60 * 1000;
+const PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES = 30;
 
-const encryptString = (str: string = ''): string => {
-  return crypto.createHash('sha256').update(str).digest('base64');
+const hashResetToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
 };
 
-app.post('/password', async (req: Request, res: Response) => {
-  const { id, password, verifyPassword } = req.body;
+/*
+    비밀번호 재설정 링크 생성
+    PASSWORD_RESET_URL(프론트엔드의 재설정 페이지)에 token을 query string으로 붙임
+    @param {string} token => 메일로 보낼 재설정 token
+*/
+const createResetLink = (token: string): string => {
+  const resetURL = new URL(
+    process.env.PASSWORD_RESET_URL || 'http://localhost:3000/password/reset'
+  );
 
-  if (!checkObjectValueEmpty({ id, password, verifyPassword })) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+  resetURL.searchParams.set('token', token);
+  return resetURL.toString();
+};
 
-  if (!verifyEmail(id)) {
-    return res.status(400).json({ message: '아이디가 형식에 맞지않습니다.' });
-  }
+const resetRequestSchema = z.object({ id: emailString });
 
-  if (password !== verifyPassword) {
-    return res.status(400).json({ message: '입력하신 비밀번호와 다릅니다.' });
-  }
+app.post(
+  '/password/reset-request',
+  rateLimit({
+    name: 'password-reset-ip',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 10,
+    key: ipKey,
+  }),
+  validate({ body: resetRequestSchema }),
+  rateLimit({
+    name: 'password-reset-account',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 3,
+    key: bodyKey('id'),
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id }: z.infer<typeof resetRequestSchema> = req.body;
 
-  try {
-    const checkRegisteredUser = await knex('user')
-      .select('id', 'password')
+    const user: { id: string } | undefined = await knex('user')
+      .select('id')
       .where({ id })
       .first();
 
-    if (!checkRegisteredUser) {
-      return res
-        .status(403)
-        .json({ message: '등록되어 있지 않은 ID(이메일)입니다.' });
+    // 가입 여부를 알 수 없도록 회원이 아니어도 같은 응답을 보냄
+    if (!!user) {
+      const token: string = crypto.randomBytes(32).toString('base64url');
+      const createdAt = dayjs();
+
+      await knex('password_reset_token')
+        .delete()
+        .where({ user_id: user.id, is_used: 0 });
+      await knex('password_reset_token').insert({
+        token_hash: hashResetToken(token),
+        user_id: user.id,
+        created_at: createdAt.format('YYYY-MM-DD HH:mm:ss'),
+        expires_at: createdAt
+          .add(PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES, 'm')
+          .format('YYYY-MM-DD HH:mm:ss'),
+      });
+
+      // 메일 발송 시간으로 가입 여부가 드러나지 않도록 기다리지 않음
+      sendMail({
+        toEmail: user.id,
+        title: translateFor(res, 'MAIL_PASSWORD_RESET_TITLE'),
+        content: translateFor(res, 'MAIL_PASSWORD_RESET_CONTENT', {
+          link: createResetLink(token),
+          minutes: PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES,
+        }),
+      }).catch((error) => {
+        console.error(`[${res.locals.requestId}] password reset mail`, error);
+      });
+    }
+
+    res.status(202).json({ isSend: true });
+  })
+);
+
+const passwordSchema = z
+  .object({
+    token: requiredString,
+    password: requiredString,
+    verifyPassword: requiredString,
+  })
+  .refine(({ password, verifyPassword }) => password === verifyPassword, {
+    path: ['verifyPassword'],
+    message: 'VALIDATION_PASSWORD_DIFFERENT',
+  });
+
+app.post(
+  '/password',
+  rateLimit({
+    name: 'password-reset-submit-ip',
+    windowMs: 10 * ONE_MINUTE_TIME,
+    max: 20,
+    key: ipKey,
+  }),
+  validate({ body: passwordSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { token, password }: z.infer<typeof passwordSchema> = req.body;
+    const tokenHash: string = hashResetToken(token);
+
+    const resetToken:
+      | {
+          userId: string;
+          expiresAt: string;
+          password: string;
+          nickname: string;
+        }
+      | undefined = await knex('password_reset_token')
+      .select(
+        'password_reset_token.user_id as userId',
+        'password_reset_token.expires_at as expiresAt',
+        'user.password as password',
+        'user.nickname as nickname'
+      )
+      .innerJoin('user', 'password_reset_token.user_id', 'user.id')
+      .where({ token_hash: tokenHash, is_used: 0 })
+      .first();
+
+    if (!resetToken) {
+      throw new AppError('PASSWORD_RESET_TOKEN_INVALID');
     }
 
-    if (checkRegisteredUser.password == encryptString(password)) {
-      return res.status(409).json({ message: '기존 비밀번호와 동일합니다.' });
+    if (!dayjs().isBefore(dayjs(resetToken.expiresAt))) {
+      throw new AppError('PASSWORD_RESET_TOKEN_EXPIRED');
+    }
+
+    assertPasswordPolicy(res, password, {
+      email: resetToken.userId,
+      nickname: resetToken.nickname,
+    });
+
+    if (await verifyPassword(password, resetToken.password)) {
+      throw new AppError('PASSWORD_NOT_CHANGED');
     }
 
-    await knex('user')
-      .update({ password: encryptString(password) })
-      .where({ id });
+    const hashedPassword: string = await hashPassword(password);
+
+    await knex.transaction(async (trx) => {
+      const usedCount: number = await trx('password_reset_token')
+        .update({ is_used: 1 })
+        .where({ token_hash: tokenHash, is_used: 0 });
+
+      if (!usedCount) {
+        throw new AppError('PASSWORD_RESET_TOKEN_INVALID');
+      }
+
+      await trx('user')
+        .update({ password: hashedPassword, has_password: 1 })
+        .where({ id: resetToken.userId });
+    });
+
+    await revokeAllRefreshTokens(resetToken.userId);
 
     res.status(200).json({ isSucceeded: true });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 export default app;
@@ -1,50 +1,43 @@
-import express, { Request, Response, NextFunction } from 'express';
-import { Knex } from 'knex';
-import crypto from 'crypto';
-import { checkObjectValueEmpty } from '../../utils';
+import express, { Request, Response } from 'express';
+import knex from '../../db';
 import multer from 'multer';
 import dotenv from 'dotenv';
 import s3Controller from '../../s3/index';
-import { checkRequiredProperties, generatedUniqueID } from '../../utils';
+import { generatedUniqueID } from '../../utils';
+import { z } from 'zod';
+import { validate, requiredString } from '../../validation';
 import { verifyAccessToken } from '../../token/index';
+import { hashPassword } from '../../password';
+import { assertPasswordPolicy } from '../../password/policy';
+import {
+  requireRole,
+  isAdminRole,
+  ROLE,
+  ADMIN_ROLES,
+  Role,
+} from '../../authority';
+import {
+  asyncHandler,
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../error';
+import {
+  isAdminTwoFactorRequired,
+  setAdminTwoFactorRequired,
+} from '../../two-factor';
 dotenv.config();
-const SUPERVISOR_ID = process.env.SUPERVISOR_ID || '';
 
 const app: express.Application = express();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
-
-      return next();
-    },
-  },
-});
-
 const getAdminList = async () => {
   const adminList: { id: string; nickname: string }[] | [] = await knex('user')
     .select('id', 'nickname')
-    .where({ is_admin: true })
-    .andWhereNot({ id: SUPERVISOR_ID });
+    .where({ role: ROLE.ADMIN });
 
   return adminList;
 };
 
-const encryptString = (str: string = ''): string => {
-  return crypto.createHash('sha256').update(str).digest('base64');
-};
-
 const s3UploadFromBinary = async (files: {
   [fieldname: string]: Express.Multer.File[];
 }): Promise<AWS.S3.ManagedUpload.SendData[]> => {
@@ -91,130 +84,90 @@ app.post(
     { name: 'bannerImage4', maxCount: 1 },
   ]),
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
     const files: {
       [fieldname: string]: Express.Multer.File[];
     } = req.files as {
       [fieldname: string]: Express.Multer.File[];
     };
-    const requesterId = res.locals.email;
-
-    try {
-      const requester = await knex('user')
-        .select('is_admin as isAdmin')
-        .where({ id: requesterId })
-        .first();
 
-      if (!requester?.isAdmin) {
-        return res.status(403).json({ message: '관리자 계정이 아닙니다.' });
-      }
+    const oleBannerInfo = await knex('banner').select('key', 'name');
 
-      const oleBannerInfo = await knex('banner').select('key', 'name');
-
-      if (Object.values(files).length + oleBannerInfo.length > 5) {
-        return res
-          .status(400)
-          .json({ message: '등록할려는 베너가 5개 이상입니다.' });
-      }
+    if (Object.values(files).length + oleBannerInfo.length > 5) {
+      throw new AppError('BANNER_LIMIT_EXCEEDED');
+    }
 
-      const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
-        await s3UploadFromBinary(files);
+    const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
+      await s3UploadFromBinary(files);
 
-      const newBannerInfo = await knex('banner').select('key', 'name');
-      const bannerList = await Promise.all(formatBannerInfo(newBannerInfo));
+    const newBannerInfo = await knex('banner').select('key', 'name');
+    const bannerList = await Promise.all(formatBannerInfo(newBannerInfo));
 
-      res.status(200).json({ bannerList });
-    } catch (error: any) {
-      console.log(error);
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ bannerList });
+  })
 );
 
-app.post('/admin', verifyAccessToken, async (req: Request, res: Response) => {
-  const email: string = res.locals.email;
-  const id: string = req.body.id;
-  const password: string = req.body.password;
+const adminSchema = z.object({
+  id: requiredString,
+  password: requiredString,
+});
 
-  if (
-    !checkObjectValueEmpty({
-      id,
-      password,
-    })
-  ) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  try {
-    const { is_admin: isAdmin } = await knex('user')
-      .select('nickname', 'is_admin')
-      .where({ id: email })
-      .first();
+app.post(
+  '/admin',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  validate({ body: adminSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, password }: z.infer<typeof adminSchema> = req.body;
 
-    if (!isAdmin) {
-      return res.status(403).json({ message: '관리자 계정이 아닙니다.' });
-    }
+    assertPasswordPolicy(res, password, { email: id });
 
     const admins = await knex('user')
-      .select('is_admin')
-      .where({ is_admin: true });
+      .select('role')
+      .whereIn('role', ADMIN_ROLES);
     const adminLength = admins.length;
 
     await knex('user').insert({
       id,
       nickname: `admin${adminLength}`,
-      password: encryptString(password),
-      is_admin: 1,
+      password: await hashPassword(password),
+      role: ROLE.ADMIN,
     });
 
     res.status(201).json({ isJoin: true });
-  } catch (error: any) {
-    if (isNaN(error.code)) {
-      return res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-    res.status(error.code).json({ message: error.message });
-  }
-});
-
-app.get('/banner', verifyAccessToken, async (req: Request, res: Response) => {
-  const requesterId: string = res.locals.email;
-
-  try {
-    const requester = await knex('user')
-      .select('is_admin as isAdmin')
-      .where({ id: requesterId })
-      .first();
-
-    if (!requester?.isAdmin) {
-      return res.status(403).json({ message: '조회 권한 없습니다.' });
-    }
+  })
+);
 
+app.get(
+  '/banner',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
     const bannerInfo = await knex('banner').select('key', 'name');
     const bannerList = await Promise.all(formatBannerInfo(bannerInfo));
 
     res.status(200).json({ bannerList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
-
-app.get('/student', verifyAccessToken, async (req: Request, res: Response) => {
-  const requesterId: string = res.locals.email;
-  const query = req.query;
-
-  if (!(query?.uniId || query?.name)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+  })
+);
 
-  try {
-    const requester = await knex('user')
-      .select('is_admin as isAdmin')
-      .where({ id: requesterId })
-      .first();
+const studentQuerySchema = z
+  .object({
+    uniId: z.string().optional(),
+    name: z.string().optional(),
+  })
+  .refine(({ uniId, name }) => !!uniId || !!name, {
+    path: ['uniId'],
+    message: 'VALIDATION_STUDENT_SEARCH_REQUIRED',
+  });
 
-    if (!requester?.isAdmin) {
-      return res.status(403).json({ message: '조회 권한 없습니다.' });
-    }
+app.get(
+  '/student',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  validate({ query: studentQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = req.query as z.infer<typeof studentQuerySchema>;
 
     const studentListQueryBuilder = knex('user').select(
       'id',
@@ -234,125 +187,145 @@ app.get('/student', verifyAccessToken, async (req: Request, res: Response) => {
       name: string;
     }[] = await studentListQueryBuilder.whereNotNull('uni_id');
     res.status(200).json({ studentList });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
+  })
+);
+
+const studentSchema = z.object({
+  id: requiredString,
+  uniId: requiredString,
+  name: requiredString,
 });
 
 app.patch(
   '/student',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    const requesterId: string = res.locals.email;
-    const body = req.body;
+  requireRole(...ADMIN_ROLES),
+  validate({ body: studentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { name, id, uniId }: z.infer<typeof studentSchema> = req.body;
 
-    if (!checkRequiredProperties(['id', 'uniId', 'name'], body)) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
-    }
+    await knex('user').update({ uni_id: uniId, name }).where({ id });
 
-    const { name, id, uniId } = body;
+    const studentList = await knex('user')
+      .select('id', 'uni_id as uniId', 'name')
+      .where({ id });
 
-    try {
-      const requester = await knex('user')
-        .select('is_admin as isAdmin')
-        .where({ id: requesterId })
-        .first();
+    res.status(200).json({ studentList });
+  })
+);
 
-      if (!requester?.isAdmin) {
-        return res.status(403).json({ message: '조회 권한 없습니다.' });
-      }
+const userRoleSchema = z.object({
+  id: requiredString,
+  role: z.enum([ROLE.MEMBER, ROLE.STUDENT, ROLE.COMPANY]),
+});
 
-      await knex('user').update({ uni_id: uniId, name }).where({ id });
+/*
+    회원의 역할(일반, 학생, 기업)을 변경
+    관리자 역할은 /admin으로만 추가, 삭제하므로 관리자 계정의 역할은 변경할 수 없음
+*/
+app.patch(
+  '/user/role',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  validate({ body: userRoleSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, role }: z.infer<typeof userRoleSchema> = req.body;
+
+    const user: { role: Role } | undefined = await knex('user')
+      .select('role')
+      .where({ id })
+      .first();
 
-      const studentList = await knex('user')
-        .select('id', 'uni_id as uniId', 'name')
-        .where({ id });
+    if (!user) {
+      throw new NotFoundError('USER_NOT_FOUND');
+    }
 
-      res.status(200).json({ studentList });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
+    if (isAdminRole(user.role)) {
+      throw new ForbiddenError();
     }
-  }
+
+    await knex('user').update({ role }).where({ id });
+
+    res.status(200).json({ id, role });
+  })
 );
 
 app.get(
   '/admin/list',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    const requesterId = res.locals.email;
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
+    const adminList = await getAdminList();
 
-    try {
-      const requester = await knex('user')
-        .select('is_admin as isAdmin')
-        .where({ id: requesterId })
-        .first();
-
-      if (!requester?.isAdmin) {
-        return res.status(403).json({ message: '조회 권한 없습니다.' });
-      }
-
-      const adminList = await getAdminList();
-
-      res.status(200).json({ adminList });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ adminList });
+  })
 );
 
 app.delete(
   '/banner/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    const requesterId = res.locals.email;
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
     const id = req.params.id;
 
-    try {
-      const requester = await knex('user')
-        .select('is_admin as isAdmin')
-        .where({ id: requesterId })
-        .first();
+    await Promise.all([
+      s3Controller.deleteObject(`banner/${id}`),
+      knex('banner').where({ key: id }).delete(),
+    ]);
 
-      if (!requester?.isAdmin) {
-        return res.status(403).json({ message: '관리자 계정이 아닙니다.' });
-      }
-
-      await Promise.all([
-        s3Controller.deleteObject(`banner/${id}`),
-        knex('banner').where({ key: id }).delete(),
-      ]);
-
-      const bannerInfo = await knex('banner').select('key', 'name');
-      const bannerList = await Promise.all(formatBannerInfo(bannerInfo));
+    const bannerInfo = await knex('banner').select('key', 'name');
+    const bannerList = await Promise.all(formatBannerInfo(bannerInfo));
 
-      res.status(200).json({ bannerList });
-    } catch (error: any) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ bannerList });
+  })
 );
 
 app.delete(
   '/admin/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
-    const requesterId = res.locals.email;
+  requireRole(ROLE.SUPERVISOR),
+  asyncHandler(async (req: Request, res: Response) => {
     const willDeleteAdmin = req.params?.id;
 
-    try {
-      if (requesterId !== SUPERVISOR_ID) {
-        return res.status(403).json({ message: '삭제 권한 없습니다.' });
-      }
+    await knex('user')
+      .where({ id: willDeleteAdmin, role: ROLE.ADMIN })
+      .delete();
 
-      await knex('user').where({ id: willDeleteAdmin }).delete();
+    const adminList = await getAdminList();
 
-      const adminList = await getAdminList();
+    res.status(200).json({ adminList });
+  })
+);
 
-      res.status(200).json({ adminList });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+app.get(
+  '/two-factor',
+  verifyAccessToken,
+  requireRole(ROLE.SUPERVISOR),
+  asyncHandler(async (req: Request, res: Response) => {
+    const isRequired: boolean = await isAdminTwoFactorRequired();
+
+    res.status(200).json({ isRequired });
+  })
+);
+
+const twoFactorSettingSchema = z.object({ isRequired: z.boolean() });
+
+/*
+    모든 관리자(admin) 계정에 2단계 인증을 필수로 할지 설정
+    필수로 설정하면 2단계 인증을 등록하지 않은 관리자는 관리자 기능을 사용할 수 없음
+*/
+app.put(
+  '/two-factor',
+  verifyAccessToken,
+  requireRole(ROLE.SUPERVISOR),
+  validate({ body: twoFactorSettingSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { isRequired }: z.infer<typeof twoFactorSettingSchema> = req.body;
+
+    await setAdminTwoFactorRequired(isRequired);
+
+    res.status(200).json({ isRequired });
+  })
 );
 
 export default app;
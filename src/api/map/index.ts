@@ -1,6 +1,9 @@
 import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
 import axios from 'axios';
+import { z } from 'zod';
+import { validate, requiredString } from '../../validation';
+import { asyncHandler } from '../../error';
 dotenv.config();
 const app: express.Application = express();
 
@@ -10,12 +13,13 @@ interface AddressInfo {
   y: string;
 }
 
-app.get('/search', async (req: Request, res: Response) => {
-  if (typeof req.query.address !== 'string' || !req.query.address) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-  try {
-    const address: string = decodeURIComponent(req.query.address);
+const searchQuerySchema = z.object({ address: requiredString });
+
+app.get(
+  '/search',
+  validate({ query: searchQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const address: string = decodeURIComponent(req.query.address as string);
     const { data } = await axios({
       url: 'https://dapi.kakao.com/v2/local/search/keyword.json',
       method: 'get',
@@ -40,9 +44,7 @@ app.get('/search', async (req: Request, res: Response) => {
       []
     );
     res.status(200).json({ searchResultList });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 export default app;
@@ -1,40 +1,91 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
-import { verifyAccessToken, getUserEmail } from '../../token';
+import {
+  verifyAccessToken,
+  getUserEmail,
+  generatedJwtToken,
+  issueRefreshToken,
+  revokeAllRefreshTokens,
+  ACCESS_TOKEN_EXPIRES_IN,
+} from '../../token';
 import multer, { memoryStorage } from 'multer';
-import { Knex } from 'knex';
+import knex from '../../db';
+import dialect from '../../db/dialect';
 import s3Controller from '../../s3/index';
 import common from '../../common';
-import { checkRequiredProperties } from '../../utils';
+import { isAdminRole, ROLE } from '../../authority';
+import { z, ZodTypeAny } from 'zod';
+import {
+  validate,
+  requiredString,
+  jsonString,
+  idQuerySchema,
+  emailString,
+} from '../../validation';
+import { hashPassword, verifyPassword } from '../../password';
+import { assertPasswordPolicy } from '../../password/policy';
+import {
+  issueVerificationCode,
+  verifyVerificationCode,
+  consumeVerificationTicket,
+  VERIFICATION_PURPOSE,
+} from '../../verification';
+import { changeUserId, collectUserData, deleteUser } from '../../account';
+import { translateFor } from '../../i18n';
+import sendMail from '../../mail/index';
+import {
+  asyncHandler,
+  AppError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../error';
+import { rateLimit, ipKey, accountKey } from '../../rate-limit';
+import { isTwoFactorEnabled, verifyTwoFactor } from '../../two-factor';
+import { createSession } from '../../session';
 import sharp from 'sharp';
+import dayjs from 'dayjs';
 dotenv.config();
 
 const app: express.Application = express();
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: parseInt(process.env.DB_PORT || '3306'),
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-        return value ? value === '1' : null;
-      }
-      return next();
-    },
-  },
+
+/*
+    비어있는 값은 undefined로 취급하는 JSON 문자열 schema
+    @param {ZodTypeAny} schema => 파싱된 값을 검사할 schema
+*/
+const optionalJsonString = <T extends ZodTypeAny>(schema: T) => {
+  return z.preprocess(
+    (value) => (value === '' ? undefined : value),
+    jsonString(schema).optional()
+  );
+};
+
+const nicknameString = z
+  .string()
+  .trim()
+  .min(2, 'VALIDATION_NICKNAME_INVALID')
+  .max(10, 'VALIDATION_NICKNAME_INVALID');
+const studentSchema = z.object({
+  uniId: requiredString,
+  name: requiredString,
 });
+const profileUpdateSchema = z.object({
+  positions: optionalJsonString(z.array(z.number().int())),
+  technologies: optionalJsonString(z.array(z.number().int())),
+  introduction: z.string().optional(),
+  awards: optionalJsonString(
+    z.array(z.object({ name: requiredString, awardedAt: requiredString }))
+  ),
+  links: optionalJsonString(z.array(z.string())),
+  image: z.string().optional(),
+});
+
+type ProfileUpdateBody = z.infer<typeof profileUpdateSchema>;
 
-interface ProfileOptions {
+interface ProfileOptions
+  extends Pick<ProfileUpdateBody, 'introduction' | 'awards' | 'links'> {
   image?: string;
   positions?: { id: number; name: string }[];
   technologies?: number[];
-  introduction?: string;
-  awards?: { name: string; awardedAt: string }[];
-  links?: string[];
   profileScore?: number;
 }
 
@@ -45,22 +96,18 @@ interface Profile extends ProfileOptions {
   isOpen: boolean;
 }
 
-app.post('/', verifyAccessToken, async (req: Request, res: Response) => {
-  const body: { uniId: string; name: string } = req.body;
-
-  if (!checkRequiredProperties(['uniId', 'name'], body)) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  const email = res.locals.email;
+app.post(
+  '/',
+  verifyAccessToken,
+  validate({ body: studentSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body: z.infer<typeof studentSchema> = req.body;
+    const email = res.locals.email;
 
-  try {
     const isExistsProfile = await common.isExistsProfile(email);
 
     if (isExistsProfile) {
-      return res
-        .status(400)
-        .json({ message: '이미 프로필이 생성되어 있습니다.' });
+      throw new AppError('PROFILE_ALREADY_EXISTS');
     }
 
     const checkExistStudent = await knex('user')
@@ -69,9 +116,7 @@ app.post('/', verifyAccessToken, async (req: Request, res: Response) => {
       .first();
 
     if (!!checkExistStudent) {
-      return res
-        .status(400)
-        .json({ message: '이미 등록되어 있는 학생입니다.' });
+      throw new AppError('STUDENT_ALREADY_REGISTERED');
     }
 
     await Promise.all([
@@ -82,10 +127,8 @@ app.post('/', verifyAccessToken, async (req: Request, res: Response) => {
     ]);
 
     res.status(200).json({ isPost: true });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 const getProfileInfo = async (id: string, requester: string = id) => {
   const isMe = id === requester;
@@ -119,12 +162,13 @@ const getProfileInfo = async (id: string, requester: string = id) => {
 
     if (!profile) {
       const userInfo = await knex('user')
-        .select('id', 'nickname', 'is_admin as isAdmin')
+        .select('id', 'nickname', 'role')
         .where({ id })
         .first();
 
-      if (!!userInfo?.isAdmin) {
-        return { hasNotProfile: true, ...userInfo };
+      if (isAdminRole(userInfo?.role)) {
+        const { role, ...adminInfo } = userInfo;
+        return { hasNotProfile: true, ...adminInfo, isAdmin: true };
       }
 
       if (!!userInfo) {
@@ -195,7 +239,7 @@ const getProfileInfo = async (id: string, requester: string = id) => {
     };
     return profileInfo;
   } catch (error) {
-    throw new Error('프로필 가져오기 실패');
+    throw new AppError('INTERNAL_SERVER_ERROR', { cause: error });
   }
 };
 
@@ -261,36 +305,32 @@ app.put(
   '/',
   verifyAccessToken,
   multer({ storage: memoryStorage() }).single('image'),
-  async (req: Request, res: Response) => {
+  validate({ body: profileUpdateSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = res.locals.email;
-    const body: { [keys: string]: string } = JSON.parse(
-      JSON.stringify(req.body)
-    );
+    const body: ProfileUpdateBody = req.body;
     const { positions, technologies, introduction, awards, links } = body;
     const image: Buffer | string | null =
-      req.file?.buffer || req.body?.image || null;
+      req.file?.buffer || body.image || null;
+
+    awards?.sort((a, b) => {
+      return a.awardedAt.localeCompare(b.awardedAt);
+    });
 
     const profileUpdateBody = Object.entries({
       positions,
       technologies,
-      introduction,
       awards,
       links,
-    }).reduce((profileUpdateBody, [key, value]) => {
-      profileUpdateBody[key] = value || null;
-      return profileUpdateBody;
-    }, {} as { [keys: string]: string | null });
-
-    if (!!awards) {
-      const parsedAwards: { name: string; awardedAt: string }[] =
-        JSON.parse(awards);
-
-      parsedAwards.sort((a, b) => {
-        return a.awardedAt.localeCompare(b.awardedAt);
-      });
-
-      profileUpdateBody.awards = JSON.stringify(parsedAwards);
-    }
+    }).reduce(
+      (profileUpdateBody, [key, value]) => {
+        profileUpdateBody[key] = !!value ? JSON.stringify(value) : null;
+        return profileUpdateBody;
+      },
+      { introduction: introduction || null } as {
+        [keys: string]: string | null;
+      }
+    );
 
     if (typeof image !== 'string') {
       try {
@@ -317,111 +357,468 @@ app.put(
           );
           profileUpdateBody.image = data.Key;
         } catch (error) {
-          return res
-            .status(500)
-            .json({ message: '이미지 업로드에 실패하였습니다.' });
+          throw new AppError('IMAGE_UPLOAD_FAILED', { cause: error });
         }
       }
     }
 
-    try {
-      await knex('user_profile')
-        .where({ user_id: id })
-        .update(profileUpdateBody);
+    await knex('user_profile').where({ user_id: id }).update(profileUpdateBody);
 
-      const profileInfo = await getProfileInfo(id);
+    const profileInfo = await getProfileInfo(id);
 
-      res.status(200).json({ profileInfo });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청 실패' });
-    }
-  }
+    res.status(200).json({ profileInfo });
+  })
 );
 
-app.patch('/open', verifyAccessToken, async (req: Request, res: Response) => {
-  const id: string = res.locals.email;
-  const willOpenInformation: boolean = req.body?.willOpenInformation;
+const openSchema = z.object({ willOpenInformation: z.boolean() });
 
-  if (!willOpenInformation) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.patch(
+  '/open',
+  verifyAccessToken,
+  validate({ body: openSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+    const { willOpenInformation }: z.infer<typeof openSchema> = req.body;
 
-  try {
     await knex('user_profile')
       .update({ is_open_information: willOpenInformation })
       .where({ user_id: id });
     res.status(200).json({ isOpen: willOpenInformation });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청 실패' });
-  }
-});
+  })
+);
+
+const newNicknameSchema = z.object({ newNickname: nicknameString });
 
 app.patch(
   '/nickname',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  validate({ body: newNicknameSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+    const { newNickname }: z.infer<typeof newNicknameSchema> = req.body;
+
+    await knex('user').update({ nickname: newNickname }).where({ id: id });
+    res.status(200).json({ isChanged: true });
+  })
+);
+
+const nicknameSchema = z.object({ nickname: nicknameString });
+
+app.post(
+  '/nickname/exists',
+  rateLimit({
+    name: 'nickname-exists-ip',
+    windowMs: 60 * 1000,
+    max: 30,
+    key: ipKey,
+  }),
+  validate({ body: nicknameSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { nickname }: z.infer<typeof nicknameSchema> = req.body;
+
+    const isExists: { nickname: string } | undefined = await knex('user')
+      .select('nickname')
+      .where({ nickname })
+      .first();
+
+    res.status(200).json({ isExists: !!isExists });
+  })
+);
+
+const passwordSchema = z
+  .object({
+    // 비밀번호가 없는 계정은 생략
+    currentPassword: z.string().optional(),
+    password: requiredString,
+    verifyPassword: requiredString,
+    code: z.string().trim().optional(),
+    recoveryCode: z.string().trim().optional(),
+    // 비밀번호가 없는 계정은 /reauthentication/code로 받은 인증번호
+    reauthenticationCode: z.string().trim().optional(),
+  })
+  .refine(({ password, verifyPassword }) => password === verifyPassword, {
+    path: ['verifyPassword'],
+    message: 'VALIDATION_PASSWORD_MISMATCH',
+  });
+
+app.patch(
+  '/password',
+  verifyAccessToken,
+  validate({ body: passwordSchema }),
+  rateLimit({
+    name: 'change-password-account',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    key: accountKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = res.locals.email;
-    const newNickname: string = req.body?.newNickname?.trim();
+    const {
+      currentPassword,
+      password,
+      code,
+      recoveryCode,
+      reauthenticationCode,
+    }: z.infer<typeof passwordSchema> = req.body;
+
+    const user:
+      | { password: string; nickname: string; hasPassword: boolean }
+      | undefined = await knex('user')
+      .select('password', 'nickname', 'has_password as hasPassword')
+      .where({ id })
+      .first();
 
-    if (!newNickname) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
+    if (!user) {
+      throw new NotFoundError('USER_NOT_FOUND');
     }
-    if (!(1 < newNickname.length && newNickname.length <= 10)) {
-      return res
-        .status(400)
-        .json({ message: '사용 할 수 없는 닉네임 입니다.' });
+
+    // 비밀번호가 없는 계정은 처음 비밀번호를 설정하므로 이메일 인증번호와 2단계 인증으로 확인
+    if (!user.hasPassword) {
+      await reauthenticate(id, { code, recoveryCode, reauthenticationCode });
+    } else if (!(await verifyPassword(currentPassword || '', user.password))) {
+      throw new AppError('PASSWORD_MISMATCH');
+    } else if (await verifyPassword(password, user.password)) {
+      throw new AppError('PASSWORD_NOT_CHANGED');
     }
 
-    try {
-      await knex('user').update({ nickname: newNickname }).where({ id: id });
-      res.status(200).json({ isChanged: true });
-    } catch (error) {
-      res.status(500).json({ message: '서버요청 실패' });
+    assertPasswordPolicy(res, password, {
+      email: id,
+      nickname: user.nickname,
+    });
+
+    await knex('user')
+      .update({ password: await hashPassword(password), has_password: 1 })
+      .where({ id });
+    await revokeAllRefreshTokens(id);
+
+    res.status(200).json({ isChanged: true });
+  })
+);
+
+const emailCodeSchema = z.object({ newEmail: emailString });
+
+app.post(
+  '/email/code',
+  verifyAccessToken,
+  rateLimit({
+    name: 'change-email-code-account',
+    windowMs: 10 * 60 * 1000,
+    max: 3,
+    key: accountKey,
+  }),
+  validate({ body: emailCodeSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { newEmail }: z.infer<typeof emailCodeSchema> = req.body;
+
+    const isExistsUser: { id: string } | undefined = await knex('user')
+      .select('id')
+      .where({ id: newEmail })
+      .first();
+
+    if (!!isExistsUser) {
+      throw new AppError('USER_ID_DUPLICATED');
     }
-  }
+
+    const authCode: string = await issueVerificationCode(
+      newEmail,
+      VERIFICATION_PURPOSE.EMAIL_CHANGE
+    );
+
+    await sendMail({
+      toEmail: newEmail,
+      title: translateFor(res, 'MAIL_AUTH_CODE_TITLE'),
+      content: translateFor(res, 'MAIL_AUTH_CODE_CONTENT', { authCode }),
+    });
+
+    res.status(201).json({ isSend: true });
+  })
 );
 
-app.post('/nickname/exists', async (req: Request, res: Response) => {
-  const nickname: string = req.body?.nickname?.trim();
+/*
+    비밀번호가 없는 계정이 reauthenticate에서 사용할 본인 확인 인증번호를 현재 이메일로 발송
+*/
+app.post(
+  '/reauthentication/code',
+  verifyAccessToken,
+  rateLimit({
+    name: 'reauthentication-code-account',
+    windowMs: 10 * 60 * 1000,
+    max: 3,
+    key: accountKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+
+    const authCode: string = await issueVerificationCode(
+      id,
+      VERIFICATION_PURPOSE.REAUTHENTICATION
+    );
 
-  if (!nickname) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
+    await sendMail({
+      toEmail: id,
+      title: translateFor(res, 'MAIL_AUTH_CODE_TITLE'),
+      content: translateFor(res, 'MAIL_AUTH_CODE_CONTENT', { authCode }),
+    });
+
+    res.status(201).json({ isSend: true });
+  })
+);
+
+/*
+    이메일 변경, 탈퇴처럼 계정을 넘겨주거나 잃을 수 있는 요청 전에 본인 확인
+    현재 비밀번호를 확인하고 2단계 인증이 켜져 있으면 인증 코드(또는 복구 코드)도 확인
+    소셜 로그인으로 가입해 비밀번호가 없는 계정(has_password = 0)은 access token만으로 통과하지 않도록
+    비밀번호 대신 /reauthentication/code로 받은 인증번호를 확인 (한 번만 사용 가능)
+    @param {string} id => 사용자 아이디(이메일)
+    @param {string} password => 현재 비밀번호
+    @param {string} code => 2단계 인증 코드
+    @param {string} recoveryCode => 2단계 인증 복구 코드
+    @param {string} reauthenticationCode => 비밀번호가 없는 계정이 이메일로 받은 인증번호
+*/
+const reauthenticate = async (
+  id: string,
+  {
+    password,
+    code,
+    recoveryCode,
+    reauthenticationCode,
+  }: {
+    password?: string;
+    code?: string;
+    recoveryCode?: string;
+    reauthenticationCode?: string;
   }
-  if (!(1 < nickname.length && nickname.length <= 10)) {
-    return res.status(400).json({ message: '사용 할 수 없는 닉네임 입니다.' });
+): Promise<void> => {
+  const user: { password: string; hasPassword: boolean } | undefined =
+    await knex('user')
+      .select('password', 'has_password as hasPassword')
+      .where({ id })
+      .first();
+
+  if (!user) {
+    throw new NotFoundError('USER_NOT_FOUND');
   }
 
-  try {
-    const isExists: { nickname: string } | undefined = await knex('user')
-      .select('nickname')
-      .where({ nickname })
-      .first();
+  if (
+    !!user.hasPassword &&
+    !(await verifyPassword(password || '', user.password))
+  ) {
+    throw new AppError('PASSWORD_MISMATCH');
+  }
 
-    res.status(200).json({ isExists: !!isExists });
-  } catch (error) {
-    res.status(500).json({ message: '서버요청 실패' });
+  if (await isTwoFactorEnabled(id)) {
+    await verifyTwoFactor({ userId: id, code, recoveryCode });
   }
-});
 
-app.get('/', getUserEmail, async (req: Request, res: Response) => {
-  const requester: string = res.locals.email || '';
-  const id = req.query?.id;
+  if (!user.hasPassword) {
+    if (!reauthenticationCode) {
+      throw new AppError('REAUTHENTICATION_REQUIRED', {
+        details: { prerequisite: 'reauthenticationCode' },
+      });
+    }
+
+    const ticket: string = await verifyVerificationCode(
+      id,
+      VERIFICATION_PURPOSE.REAUTHENTICATION,
+      reauthenticationCode
+    );
 
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
+    await knex.transaction((trx) => {
+      return consumeVerificationTicket(
+        trx,
+        id,
+        VERIFICATION_PURPOSE.REAUTHENTICATION,
+        ticket
+      );
+    });
   }
+};
 
-  try {
-    const profileInfo = await getProfileInfo(id as string, requester);
+const emailSchema = z.object({
+  newEmail: emailString,
+  code: requiredString,
+  // 비밀번호가 없는 계정은 생략
+  currentPassword: z.string().optional(),
+  twoFactorCode: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional(),
+  // 비밀번호가 없는 계정은 /reauthentication/code로 받은 인증번호
+  reauthenticationCode: z.string().trim().optional(),
+});
+
+app.patch(
+  '/email',
+  verifyAccessToken,
+  validate({ body: emailSchema }),
+  rateLimit({
+    name: 'change-email-account',
+    windowMs: 5 * 60 * 1000,
+    max: 5,
+    key: accountKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+    const {
+      newEmail,
+      code,
+      currentPassword,
+      twoFactorCode,
+      recoveryCode,
+      reauthenticationCode,
+    }: z.infer<typeof emailSchema> = req.body;
+
+    await reauthenticate(id, {
+      password: currentPassword,
+      code: twoFactorCode,
+      recoveryCode,
+      reauthenticationCode,
+    });
+
+    const verificationTicket: string = await verifyVerificationCode(
+      newEmail,
+      VERIFICATION_PURPOSE.EMAIL_CHANGE,
+      code
+    );
+
+    try {
+      await knex.transaction(async (trx) => {
+        await consumeVerificationTicket(
+          trx,
+          newEmail,
+          VERIFICATION_PURPOSE.EMAIL_CHANGE,
+          verificationTicket
+        );
+        await changeUserId(trx, id, newEmail);
+      });
+    } catch (error) {
+      if (dialect.isUniqueViolation(error)) {
+        throw new AppError('USER_ID_DUPLICATED', { cause: error });
+      }
+
+      throw error;
+    }
+
+    const familyId: string = await createSession(newEmail, req);
+    const refreshToken: string = await issueRefreshToken(newEmail, familyId);
+    const accessToken = generatedJwtToken({
+      email: newEmail,
+      sub: 'access',
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+      familyId,
+    });
+
+    res.status(200).json({
+      data: { accessToken, refreshToken, email: newEmail },
+    });
+  })
+);
+
+app.get(
+  '/export',
+  verifyAccessToken,
+  rateLimit({
+    name: 'profile-export-account',
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    key: accountKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+
+    const userData = await collectUserData(id);
+
+    if (!userData.account) {
+      throw new NotFoundError('USER_NOT_FOUND');
+    }
+
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="boogie-export-${dayjs().format('YYYYMMDD')}.json"`
+    );
+    res.status(200).json(userData);
+  })
+);
+
+const deleteAccountSchema = z.object({
+  // 비밀번호가 없는 계정은 생략
+  password: z.string().optional(),
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional(),
+  // 비밀번호가 없는 계정은 /reauthentication/code로 받은 인증번호
+  reauthenticationCode: z.string().trim().optional(),
+});
+
+app.delete(
+  '/',
+  verifyAccessToken,
+  validate({ body: deleteAccountSchema }),
+  rateLimit({
+    name: 'delete-account',
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    key: accountKey,
+  }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = res.locals.email;
+    const {
+      password,
+      code,
+      recoveryCode,
+      reauthenticationCode,
+    }: z.infer<typeof deleteAccountSchema> = req.body;
+
+    const user: { role: string } | undefined = await knex('user')
+      .select('role')
+      .where({ id })
+      .first();
+
+    if (!user) {
+      throw new NotFoundError('USER_NOT_FOUND');
+    }
+
+    // supervisor가 없으면 관리자를 관리할 수 없으므로 탈퇴할 수 없음
+    if (user.role === ROLE.SUPERVISOR) {
+      throw new ForbiddenError('ACCOUNT_DELETION_FORBIDDEN');
+    }
+
+    await reauthenticate(id, {
+      password,
+      code,
+      recoveryCode,
+      reauthenticationCode,
+    });
+
+    const fileKeys: string[] = await knex.transaction((trx) => {
+      return deleteUser(trx, id);
+    });
+
+    await Promise.all(
+      fileKeys.map((fileKey) => {
+        return s3Controller.deleteObject(fileKey).catch((error) => {
+          console.error(`[${res.locals.requestId}] delete account file`, error);
+        });
+      })
+    );
+
+    res.status(200).json({ isDeleted: true });
+  })
+);
+
+app.get(
+  '/',
+  getUserEmail,
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requester: string = res.locals.email || '';
+    const id: string = req.query.id as string;
+
+    const profileInfo = await getProfileInfo(id, requester);
 
     if (!profileInfo) {
-      return res.status(404).json({ message: '리소스를 찾을 수 없습니다.' });
+      throw new NotFoundError('PROFILE_NOT_FOUND');
     }
 
     res.status(200).json({ profileInfo });
-  } catch (error) {
-    res.status(500).json({ message: '서버 요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 export default app;
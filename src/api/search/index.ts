@@ -0,0 +1,80 @@
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { validate } from '../../validation';
+import { asyncHandler } from '../../error';
+import { rateLimit, ipKey } from '../../rate-limit';
+import {
+  SEARCH_PAGE_LIMIT,
+  SEARCH_TYPE,
+  SearchType,
+  SearchResultMap,
+  splitKeyword,
+  searchPosts,
+  searchJobPostings,
+  searchSenierProjects,
+} from '../../search';
+
+const app: express.Application = express();
+
+const ONE_MINUTE_TIME = 60 * 1000;
+// MySQL ngram parser의 기본 token 크기가 2라 한 글자 검색어는 일치하지 않음
+const KEYWORD_MIN_LENGTH = 2;
+
+const searchQuerySchema = z.object({
+  keyword: z.string().trim().min(KEYWORD_MIN_LENGTH).max(100),
+  type: z.nativeEnum(SEARCH_TYPE).optional(),
+  page: z.coerce.number().int().positive().default(1),
+});
+
+const SEARCHERS: {
+  [type in SearchType]: (
+    terms: string[],
+    offset: number
+  ) => Promise<SearchResultMap[type][]>;
+} = {
+  [SEARCH_TYPE.POST]: searchPosts,
+  [SEARCH_TYPE.JOB_POSTING]: searchJobPostings,
+  [SEARCH_TYPE.SENIER_PROJECT]: searchSenierProjects,
+};
+
+/*
+    커뮤니티 게시글, 채용공고, 졸업작품을 한 번에 검색
+    type을 주면 해당 종류만 검색하고 page로 다음 결과를 조회
+    결과는 score(관련도) 순이며 snippet은 검색어를 <mark>로 감싼 HTML
+*/
+app.get(
+  '/',
+  rateLimit({
+    name: 'search-ip',
+    windowMs: ONE_MINUTE_TIME,
+    max: 30,
+    key: ipKey,
+  }),
+  validate({ query: searchQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { keyword, type, page } = req.query as unknown as z.infer<
+      typeof searchQuerySchema
+    >;
+    const terms: string[] = splitKeyword(keyword);
+    const offset: number = (page - 1) * SEARCH_PAGE_LIMIT;
+    const types: SearchType[] = !!type ? [type] : Object.values(SEARCH_TYPE);
+
+    const results = await Promise.all(
+      types.map(async (searchType: SearchType) => {
+        const list = await SEARCHERS[searchType](terms, offset);
+
+        return [
+          searchType,
+          {
+            list,
+            page: list.length < SEARCH_PAGE_LIMIT ? -1 : page + 1,
+          },
+        ];
+      })
+    );
+
+    res.status(200).json({ keyword, ...Object.fromEntries(results) });
+  })
+);
+
+export default app;
@@ -1,41 +1,69 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { Knex } from 'knex';
+import knex from '../../db';
+import dialect from '../../db/dialect';
 import multer from 'multer';
 import dotenv from 'dotenv';
 import sharp from 'sharp';
 import s3Controller from '../../s3/index';
-import { checkRequiredProperties, generatedUniqueID } from '../../utils';
+import { generatedUniqueID } from '../../utils';
 import { setViewCount } from '../../view/index';
 import { verifyAccessToken } from '../../token/index';
+import { requireRole, ADMIN_ROLES } from '../../authority';
+import { z } from 'zod';
+import {
+  validate,
+  requiredString,
+  jsonString,
+  queryArray,
+  idQuerySchema,
+} from '../../validation';
+import { asyncHandler, AppError, NotFoundError } from '../../error';
+import { renderMarkdown } from '../../markdown';
 import { checkPrimeSync } from 'crypto';
 dotenv.config();
 
 const app: express.Application = express();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
-
-      return next();
-    },
-  },
+const teamMemberSchema = z.object({
+  name: requiredString,
+  uniId: requiredString,
+  introduction: requiredString,
+  image: z.string().optional(),
+});
+const senierProjectSchema = z.object({
+  groupName: requiredString,
+  classId: z.coerce.number().int().positive(),
+  year: requiredString,
+  teamMember: jsonString(
+    z.array(teamMemberSchema).min(1, 'VALIDATION_TEAM_MEMBER_REQUIRED')
+  ),
+  link: jsonString(z.array(requiredString).min(1, 'VALIDATION_LINK_REQUIRED')),
+  plattform: jsonString(
+    z.array(z.number().int()).min(1, 'VALIDATION_PLATTFORM_REQUIRED')
+  ),
+  technology: jsonString(
+    z.array(z.number().int()).min(1, 'VALIDATION_TECHNOLOGY_REQUIRED')
+  ),
+});
+const senierProjectUpdateSchema = senierProjectSchema.extend({
+  id: requiredString,
+  projectDesign: z.string().optional(),
+});
+const listQuerySchema = z.object({
+  year: requiredString,
+  name: z.string().optional(),
+  classId: z.string().optional(),
+  plattform: queryArray(z.coerce.number().int()).optional(),
+  technology: queryArray(z.coerce.number().int()).optional(),
 });
 
+type SenierProjectBody = z.infer<typeof senierProjectSchema>;
+
 interface SenierProjectTeamMember {
   name: string;
   uniId?: string;
   introduction: string;
+  introductionHTML?: string;
   image?: string;
   id?: string;
 }
@@ -51,8 +79,9 @@ interface SenierProject {
   viewCount?: number;
   [propsName: string]: any;
 }
-interface PostSenierProject extends SenierProject {
-  teamMember: SenierProjectTeamMember[];
+interface PostSenierProject extends SenierProjectBody {
+  id?: string;
+  projectDesign?: string;
 }
 interface S3_FILE {
   fieldname: string;
@@ -62,29 +91,6 @@ interface S3_FILE {
   buffer: Buffer;
 }
 
-const jsonToObjectParse = (
-  keys: string[],
-  body: {
-    [key: string]: string;
-  }
-): SenierProject => {
-  const cloneBody: { [key: string]: string } = Object.assign(body);
-
-  keys.forEach((key: string) => {
-    cloneBody[key] = JSON.parse(cloneBody[key]);
-  });
-
-  return JSON.parse(JSON.stringify(cloneBody));
-};
-
-const checkTeamMembersRequireProperties = (
-  teamMembers: SenierProjectTeamMember[]
-): boolean => {
-  return !teamMembers.every((member: SenierProjectTeamMember) =>
-    checkRequiredProperties(['name', 'uniId', 'introduction'], member)
-  );
-};
-
 const sortAsc = (a: number, b: number) => {
   return a - b;
 };
@@ -153,25 +159,6 @@ const formatSenierProject = (
   return cloneSenierProject;
 };
 
-const checkObjectEmptyValue = (
-  keys: string[],
-  data: SenierProject
-): string | false => {
-  if (!Array.isArray(keys)) {
-    return false;
-  }
-
-  const findEmptyIndex: number = keys.findIndex(
-    (key: string) => !data[key]?.length
-  );
-
-  if (findEmptyIndex === -1) {
-    return false;
-  }
-
-  return keys[findEmptyIndex];
-};
-
 const doubleCheckMembers = async (teamMembers: SenierProjectTeamMember[]) => {
   let isOk = false;
   let duplicateMember: string[] = [];
@@ -211,136 +198,74 @@ app.post(
     { name: 'profileImage8', maxCount: 1 },
   ]),
   verifyAccessToken,
-  async (req: Request, res: Response, next: NextFunction) => {
-    if (
-      !checkRequiredProperties(
-        [
-          'groupName',
-          'classId',
-          'year',
-          'teamMember',
-          'link',
-          'plattform',
-          'technology',
-        ],
-        JSON.parse(JSON.stringify(req.body))
-      )
-    ) {
-      return res.status(400).json({ message: '잘못된 요청입니다,' });
-    }
-
-    const body: SenierProject = jsonToObjectParse(
-      ['teamMember', 'link', 'plattform', 'technology'],
-      req.body
-    );
-
-    if (!body?.teamMember?.length) {
-      return res.status(400).json({ message: '팀원은 한명이상이 필요합니다.' });
-    }
+  requireRole(...ADMIN_ROLES),
+  validate({ body: senierProjectSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body: PostSenierProject = req.body;
+
+    const { groupName } = (await knex('senier_project')
+      .select('group_name as groupName')
+      .where({
+        year: body.year,
+        class_id: body.classId,
+        group_name: body.groupName,
+      })
+      .first()) || { groupName: false };
 
-    if (
-      checkTeamMembersRequireProperties(
-        body.teamMember as SenierProjectTeamMember[]
-      )
-    ) {
-      return res.status(400).json({ message: '잘못된 요청입니다,' });
+    if (!!groupName) {
+      throw new AppError('SENIER_PROJECT_GROUP_DUPLICATED', {
+        messageKey: 'SENIER_PROJECT_GROUP_NAME_DUPLICATED',
+        params: { groupName },
+      });
     }
 
-    const emptyValue: string | false = checkObjectEmptyValue(
-      ['plattform', 'technology', 'link'],
-      body
+    const files: {
+      [fieldname: string]: Express.Multer.File[];
+    } = req.files as {
+      [fieldname: string]: Express.Multer.File[];
+    };
+    const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
+      await s3UploadFromBinary(files, `${body.year}/${body.groupName}`);
+    const senierProject: SenierProject = formatSenierProject(
+      body,
+      files,
+      s3UploadResult
+    );
+    const uniqueID: string = generatedUniqueID();
+    const checkMembersResult = await doubleCheckMembers(
+      senierProject.teamMember as SenierProjectTeamMember[]
     );
 
-    if (emptyValue) {
-      return res.status(400).json({
-        message: `${
-          { plattform: '플랫폼', technology: '기술', link: '링크' }[emptyValue]
-        }(를)을 하나 이상 넣어주십시오.`,
+    if (checkMembersResult.isOk) {
+      throw new AppError('SENIER_PROJECT_MEMBER_DUPLICATED', {
+        messageKey: 'SENIER_PROJECT_MEMBER_NAME_DUPLICATED',
+        params: { member: checkMembersResult.duplicateMember },
       });
     }
 
-    const email = res.locals.email;
-
-    try {
-      const { is_admin: isAdmin } = await knex('user')
-        .select('is_admin')
-        .where({ id: email })
-        .first();
-
-      if (!isAdmin) {
-        return res
-          .status(403)
-          .json({ code: 403, message: '관리자 계정이 아닙니다.' });
-      }
-
-      const { groupName } = (await knex('senier_project')
-        .select('group_name as groupName')
-        .where({
-          year: body.year,
-          class_id: body.classId,
-          group_name: body.groupName,
-        })
-        .first()) || { groupName: false };
-
-      if (!!groupName) {
-        return res.status(400).json({
-          message: `${groupName}은 이미 등록되어 있는 조 이름 입니다.`,
-        });
-      }
-
-      const files: {
-        [fieldname: string]: Express.Multer.File[];
-      } = req.files as {
-        [fieldname: string]: Express.Multer.File[];
-      };
-      const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
-        await s3UploadFromBinary(files, `${body.year}/${body.groupName}`);
-      const senierProject: SenierProject = formatSenierProject(
-        body as PostSenierProject,
-        files,
-        s3UploadResult
-      );
-      const uniqueID: string = generatedUniqueID();
-      const checkMembersResult = await doubleCheckMembers(
-        senierProject.teamMember as SenierProjectTeamMember[]
-      );
-
-      if (checkMembersResult.isOk) {
-        return res.status(400).json({
-          message: `${checkMembersResult.duplicateMember} 은(는) 이미 등록되어 있습니다.`,
-        });
-      }
-
-      await Promise.all([
-        setTeamMembers(
-          senierProject.teamMember as SenierProjectTeamMember[],
-          uniqueID
+    await Promise.all([
+      ...setTeamMembers(
+        senierProject.teamMember as SenierProjectTeamMember[],
+        uniqueID
+      ),
+      knex('senier_project').insert({
+        id: uniqueID,
+        year: senierProject.year,
+        link: JSON.stringify(senierProject.link),
+        group_name: senierProject.groupName,
+        class_id: senierProject.classId,
+        project_design: senierProject.projectDesign,
+        plattform: JSON.stringify(
+          (senierProject.plattform as number[]).sort(sortAsc)
         ),
-        knex('senier_project').insert({
-          id: uniqueID,
-          year: senierProject.year,
-          link: JSON.stringify(senierProject.link),
-          group_name: senierProject.groupName,
-          class_id: senierProject.classId,
-          project_design: senierProject.projectDesign,
-          plattform: JSON.stringify(
-            (senierProject.plattform as number[]).sort(sortAsc)
-          ),
-          technology: JSON.stringify(
-            (senierProject.technology as number[]).sort(sortAsc)
-          ),
-        }),
-      ]);
-
-      res.status(201).json({ isPosted: true });
-    } catch (error: any) {
-      if (!isNaN(error.code) && !!error.message) {
-        return res.status(error.code).json({ message: error.message });
-      }
+        technology: JSON.stringify(
+          (senierProject.technology as number[]).sort(sortAsc)
+        ),
+      }),
+    ]);
 
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(201).json({ isPosted: true });
+  })
 );
 
 const fomatUpdateSenierProject = (
@@ -386,6 +311,7 @@ const fomatUpdateSenierProject = (
 app.patch(
   '/',
   verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
   multer({
     storage: multer.memoryStorage(),
   }).fields([
@@ -395,178 +321,117 @@ app.patch(
     { name: 'profileImage3', maxCount: 1 },
     { name: 'profileImage4', maxCount: 1 },
   ]),
-  async (req: Request, res: Response) => {
-    if (
-      !checkRequiredProperties(
-        [
-          'groupName',
-          'classId',
-          'year',
-          'teamMember',
-          'link',
-          'plattform',
-          'technology',
-        ],
-        JSON.parse(JSON.stringify(req.body))
-      )
-    ) {
-      return res.status(400).json({ message: '잘못된 요청입니다,' });
-    }
-
-    const body: SenierProject = jsonToObjectParse(
-      ['teamMember', 'link', 'plattform', 'technology'],
-      req.body
+  validate({ body: senierProjectUpdateSchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const body: PostSenierProject = req.body;
+
+    const files: {
+      [fieldname: string]: Express.Multer.File[];
+    } = req.files as {
+      [fieldname: string]: Express.Multer.File[];
+    };
+
+    const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
+      await s3UploadFromBinary(files, `${body.year}/${body.groupName}`);
+    const senierProject: PostSenierProject = fomatUpdateSenierProject(
+      body,
+      s3UploadResult,
+      files
     );
-    const email: string = res.locals.email;
-
-    try {
-      const { is_admin: isAdmin } = await knex('user')
-        .select('is_admin')
-        .where({ id: email })
-        .first();
-
-      if (!isAdmin) {
-        return res
-          .status(403)
-          .json({ code: 403, message: '관리자 계정이 아닙니다.' });
-      }
 
-      const files: {
-        [fieldname: string]: Express.Multer.File[];
-      } = req.files as {
-        [fieldname: string]: Express.Multer.File[];
-      };
-
-      const s3UploadResult: AWS.S3.ManagedUpload.SendData[] =
-        await s3UploadFromBinary(files, `${body.year}/${body.groupName}`);
-      const senierProject: PostSenierProject = fomatUpdateSenierProject(
-        body,
-        s3UploadResult,
-        files
-      );
-
-      await Promise.all([
-        knex('senier_project')
-          .update({
-            class_id: senierProject.classId,
-            group_name: senierProject.groupName,
-            year: senierProject.year,
-            link: JSON.stringify(senierProject.link),
-            plattform: JSON.stringify(senierProject.plattform),
-            technology: JSON.stringify(senierProject.technology),
-            project_design: senierProject.projectDesign,
-          })
-          .where({ id: senierProject.id }),
-        senierProject.teamMember.map(
-          async (member: SenierProjectTeamMember) => {
-            return knex('team_member')
-              .insert({
-                id: senierProject.id,
-                uni_id: member.uniId,
-                name: member.name,
-                introduction: member.introduction,
-                profile_image: member.image,
-              })
-              .onConflict()
-              .ignore();
-          }
-        ),
-      ]);
+    await Promise.all([
+      knex('senier_project')
+        .update({
+          class_id: senierProject.classId,
+          group_name: senierProject.groupName,
+          year: senierProject.year,
+          link: JSON.stringify(senierProject.link),
+          plattform: JSON.stringify(senierProject.plattform),
+          technology: JSON.stringify(senierProject.technology),
+          project_design: senierProject.projectDesign,
+        })
+        .where({ id: senierProject.id }),
+      ...senierProject.teamMember.map(
+        async (member: SenierProjectTeamMember) => {
+          return knex('team_member')
+            .insert({
+              id: senierProject.id,
+              uni_id: member.uniId,
+              name: member.name,
+              introduction: member.introduction,
+              profile_image: member.image,
+            })
+            .onConflict()
+            .ignore();
+        }
+      ),
+    ]);
 
-      res.status(201).json({ isPosted: true });
-    } catch (error: any) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(201).json({ isPosted: true });
+  })
 );
 
-app.delete('/:id', verifyAccessToken, async (req: Request, res: Response) => {
-  const id: string = req.params.id;
-
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요입니다.' });
-  }
-
-  const email: string = res.locals.email;
+app.delete(
+  '/:id',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.params.id;
 
-  try {
-    const { is_admin: isAdmin } = await knex('user')
-      .select('is_admin')
-      .where({ id: email })
-      .first();
+    const senierProject: { deleteProjectDesign: string } | undefined =
+      await knex('senier_project')
+        .select('project_design as deleteProjectDesign')
+        .where({ id })
+        .first();
 
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ code: 403, message: '관리자 계정이 아닙니다.' });
+    if (!senierProject) {
+      throw new NotFoundError();
     }
 
-    const { deleteProjectDesign } = await knex('senier_project')
-      .select('project_design as deleteProjectDesign')
-      .where({ id })
-      .first();
     const deleteProfileImages: { image: string }[] = await knex('team_member')
       .select('profile_image as image')
       .where({ id });
 
-    Promise.all([
-      deleteProfileImages.map((deleteInfo: { image: string }) => {
+    await Promise.all([
+      ...deleteProfileImages.map((deleteInfo: { image: string }) => {
         return s3Controller.deleteObject(deleteInfo.image);
       }),
-      s3Controller.deleteObject(deleteProjectDesign),
+      s3Controller.deleteObject(senierProject.deleteProjectDesign),
       knex('senier_project').where({ id }).delete(),
       knex('team_member').where({ id }).delete(),
     ]);
 
     res.status(200).json({ isDeleted: true });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.delete(
   '/member/:id',
   verifyAccessToken,
-  async (req: Request, res: Response) => {
+  requireRole(...ADMIN_ROLES),
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = req.params.id;
 
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요입니다.' });
-    }
-
-    const email: string = res.locals.email;
-
-    try {
-      const { is_admin: isAdmin } = await knex('user')
-        .select('is_admin')
-        .where({ id: email })
-        .first();
-
-      if (!isAdmin) {
-        return res
-          .status(403)
-          .json({ code: 403, message: '관리자 계정이 아닙니다.' });
-      }
+    const teamMember: { deleteProfileImage: string } | undefined = await knex(
+      'team_member'
+    )
+      .select('profile_image as deleteProfileImage')
+      .where({ uni_id: id })
+      .first();
 
-      const { deleteProfileImage } = await knex('team_member')
-        .select('profile_image as deleteProfileImage')
-        .where({ uni_id: id })
-        .first();
+    if (!teamMember) {
+      throw new NotFoundError();
+    }
 
-      Promise.all([
-        s3Controller.deleteObject(deleteProfileImage),
-        knex('team_member').where({ uni_id: id }).delete(),
-      ]);
+    await Promise.all([
+      s3Controller.deleteObject(teamMember.deleteProfileImage),
+      knex('team_member').where({ uni_id: id }).delete(),
+    ]);
 
-      res.status(200).json({ isDeleted: true });
-    } catch (error: any) {
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ isDeleted: true });
+  })
 );
 
-type QueryElement = string | number | string[] | number[] | null;
-
 const formatTeamMembers = (
   teamMembers: { id: string; name: string }[]
 ): { [key: string]: string[] } => {
@@ -611,14 +476,6 @@ const senierProjectListParser = (
   );
 };
 
-const formatSearchOption = (SerachOption: QueryElement) => {
-  if (!SerachOption) {
-    return null;
-  }
-
-  return `[${[...([SerachOption] as string[])]}]`;
-};
-
 const getNameByIds = (tableName: string, option: number[]) => {
   return knex(tableName).select('name').whereIn('id', option);
 };
@@ -653,54 +510,52 @@ const formatSenierProjectList = async (
   return senierProjectList.filter((data: SenierProject | undefined) => !!data);
 };
 
-app.get('/list', async (req: Request, res: Response) => {
-  const { year, name, plattform, technology, classId } = req.query;
-
-  if (!year) {
-    return res.status(400).json({ message: '연차정보를 입력해주세요.' });
-  }
-
-  const plattformOption = formatSearchOption(plattform as QueryElement);
-  const technologyOption = formatSearchOption(technology as QueryElement);
+app.get(
+  '/list',
+  validate({ query: listQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { year, name, plattform, technology, classId } =
+      req.query as unknown as z.infer<typeof listQuerySchema>;
 
-  const getSenierProjects = knex('senier_project')
-    .select(
-      'id',
-      'class_id as classId',
-      'group_name as groupName',
-      'plattform',
-      'technology',
-      'view_count as viewCount'
-    )
-    .where({ year })
-    .orderByRaw('RAND()');
-  const getTeamMembers = knex('team_member')
-    .select('team_member.id', 'team_member.name')
-    .innerJoin('senier_project', 'senier_project.id', 'team_member.id')
-    .where({ 'senier_project.year': year });
-
-  if (!!classId) {
-    getSenierProjects.where({ class_id: classId });
-    getTeamMembers.where({ 'senier_project.class_id': classId });
-  }
+    const getSenierProjects = knex('senier_project')
+      .select(
+        'id',
+        'class_id as classId',
+        'group_name as groupName',
+        'plattform',
+        'technology',
+        'view_count as viewCount'
+      )
+      .where({ year });
+    dialect.orderByRandom(getSenierProjects);
+    const getTeamMembers = knex('team_member')
+      .select('team_member.id', 'team_member.name')
+      .innerJoin('senier_project', 'senier_project.id', 'team_member.id')
+      .where({ 'senier_project.year': year });
+
+    if (!!classId) {
+      getSenierProjects.where({ class_id: classId });
+      getTeamMembers.where({ 'senier_project.class_id': classId });
+    }
 
-  if (!!plattformOption) {
-    getSenierProjects.whereJsonSupersetOf('plattform', plattformOption);
-    getTeamMembers.whereJsonSupersetOf(
-      'senier_project.plattform',
-      plattformOption
-    );
-  }
+    if (!!plattform?.length) {
+      dialect.whereJsonSupersetOf(getSenierProjects, 'plattform', plattform);
+      dialect.whereJsonSupersetOf(
+        getTeamMembers,
+        'senier_project.plattform',
+        plattform
+      );
+    }
 
-  if (!!technologyOption) {
-    getSenierProjects.whereJsonSupersetOf('technology', technologyOption);
-    getTeamMembers.whereJsonSupersetOf(
-      'senier_project.technology',
-      technologyOption
-    );
-  }
+    if (!!technology?.length) {
+      dialect.whereJsonSupersetOf(getSenierProjects, 'technology', technology);
+      dialect.whereJsonSupersetOf(
+        getTeamMembers,
+        'senier_project.technology',
+        technology
+      );
+    }
 
-  try {
     if (!!name) {
       const getSenierProjectIds = await knex('team_member')
         .select('id')
@@ -732,14 +587,8 @@ app.get('/list', async (req: Request, res: Response) => {
     );
 
     res.status(200).json({ senierProjectList });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 const formatRecommendList = (recommendList: any) => {
   return recommendList.map(async (recommendInfo: any) => {
@@ -770,20 +619,18 @@ const formatRecommendList = (recommendList: any) => {
   });
 };
 
-app.get('/recommend', async (req: Request, res: Response) => {
-  const id: string = req.query.id as string;
-
-  if (!id) {
-    res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/recommend',
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
 
-  try {
     const { plattform } = await knex('senier_project')
       .select('plattform')
       .where({ id })
       .first();
 
-    const recommendList = await knex('senier_project')
+    const recommendListQuery = knex('senier_project')
       .select(
         'id',
         'year',
@@ -792,20 +639,24 @@ app.get('/recommend', async (req: Request, res: Response) => {
         'technology',
         'view_count as viewCount'
       )
-      .whereJsonSupersetOf('plattform', JSON.parse(plattform))
       .whereNot({ id })
-      .orderByRaw('RAND()')
       .limit(5);
+    dialect.whereJsonSupersetOf(
+      recommendListQuery,
+      'plattform',
+      JSON.parse(plattform)
+    );
+    dialect.orderByRandom(recommendListQuery);
+
+    const recommendList = await recommendListQuery;
 
     const senierProjectRecommendList = await Promise.all(
       formatRecommendList(recommendList)
     );
 
     res.status(200).json({ senierProjectRecommendList });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 const formatTeamMemberList = async (
   teamMemberList: SenierProjectTeamMember[]
@@ -824,6 +675,7 @@ const formatTeamMemberList = async (
       const teamMember: SenierProjectTeamMember = {
         name: memberInfo.name as string,
         introduction: memberInfo.introduction,
+        introductionHTML: renderMarkdown(memberInfo.introduction),
         ...(!!imageURL && { image: imageURL.split('?')[0] }),
         ...(!!user?.id && { id: user.id }),
         ...(!!memberInfo.id && { uniId: memberInfo.id }),
@@ -836,14 +688,12 @@ const formatTeamMemberList = async (
   return teamMember;
 };
 
-app.get('/detail/members', async (req: Request, res: Response) => {
-  const id: string = req.query.id as string;
-
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/detail/members',
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
 
-  try {
     const teamMemberList: SenierProjectTeamMember[] = await knex('team_member')
       .select('uni_id as id', 'name', 'introduction', 'profile_image as image')
       .where({ id });
@@ -851,23 +701,15 @@ app.get('/detail/members', async (req: Request, res: Response) => {
     res.status(200).json({
       senierProjectMemberList: await formatTeamMemberList(teamMemberList),
     });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
-
-app.get('/detail/design', async (req: Request, res: Response) => {
-  const id: string = req.query.id as string;
+  })
+);
 
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/detail/design',
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
 
-  try {
     const { projectDesignKey }: { projectDesignKey: string } = await knex(
       'senier_project'
     )
@@ -877,66 +719,42 @@ app.get('/detail/design', async (req: Request, res: Response) => {
     const projectDesignURL = await s3Controller.getObjectURL(projectDesignKey);
 
     res.status(200).json({ projectDesign: projectDesignURL });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
-
-app.get('/detail/announced', async (req: Request, res: Response) => {
-  const id: string = req.query.id as string;
+  })
+);
 
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
+app.get(
+  '/detail/announced',
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
 
-  try {
     const { link }: { link: string } = await knex('senier_project')
       .select('link')
       .where({ id })
       .first();
 
     res.status(200).json({ link: JSON.parse(link) });
-  } catch (error: any) {
-    if (!isNaN(error.code) && !!error.message) {
-      return res.status(error.code).json({ message: error.message });
-    }
-
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 app.get(
   '/detail/group',
   (req: Request, res: Response, next: NextFunction) => {
     setViewCount(req, res, next, 'senier_project');
   },
-  async (req: Request, res: Response) => {
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
     const id: string = req.query.id as string;
 
-    if (!id) {
-      return res.status(400).json({ message: '잘못된 요청입니다.' });
-    }
-
-    try {
-      const { groupName, year }: { groupName: string; year: string } =
-        await knex('senier_project')
-          .select('group_name as groupName', 'year')
-          .where({ id })
-          .first();
-
-      res.status(200).json({ groupName, year });
-    } catch (error: any) {
-      if (!isNaN(error.code) && !!error.message) {
-        return res.status(error.code).json({ message: error.message });
-      }
+    const { groupName, year }: { groupName: string; year: string } = await knex(
+      'senier_project'
+    )
+      .select('group_name as groupName', 'year')
+      .where({ id })
+      .first();
 
-      res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-    }
-  }
+    res.status(200).json({ groupName, year });
+  })
 );
 
 const formatSenierProjectDetail = async (
@@ -965,26 +783,13 @@ const formatSenierProjectDetail = async (
   return result;
 };
 
-app.get('/detail', verifyAccessToken, async (req: Request, res: Response) => {
-  const id = req.query.id;
-
-  if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
-  }
-
-  const email: string = res.locals.email;
-
-  try {
-    const { is_admin: isAdmin } = await knex('user')
-      .select('is_admin')
-      .where({ id: email })
-      .first();
-
-    if (!isAdmin) {
-      return res
-        .status(403)
-        .json({ code: 403, message: '관리자 계정이 아닙니다.' });
-    }
+app.get(
+  '/detail',
+  verifyAccessToken,
+  requireRole(...ADMIN_ROLES),
+  validate({ query: idQuerySchema }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const id: string = req.query.id as string;
 
     const senierProject: SenierProject = await knex('senier_project')
       .select(
@@ -1011,9 +816,7 @@ app.get('/detail', verifyAccessToken, async (req: Request, res: Response) => {
     );
 
     res.status(200).json({ senierProjectDetailInfo });
-  } catch (error: any) {
-    res.status(500).json({ message: '서버요청에 실패하였습니다.' });
-  }
-});
+  })
+);
 
 export default app;
@@ -1,87 +1,83 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
-import { Knex } from 'knex';
+import knex from '../../db';
 import s3Controller from '../../s3';
+import { isAdminRole } from '../../authority';
+import { asyncHandler, NotFoundError } from '../../error';
+import { touchSession } from '../../session';
 const app: express.Application = express();
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
-
-      return next();
-    },
-  },
-});
 
 import {
   verifyRefreshToken,
   generatedJwtToken,
   verifyToken,
+  rotateRefreshToken,
+  isActiveRefreshToken,
+  ACCESS_TOKEN_EXPIRES_IN,
 } from '../../token/index';
 
 app.post(
   '/refresh-token',
   verifyRefreshToken,
-  async (req: Request, res: Response) => {
+  asyncHandler(async (req: Request, res: Response) => {
     const email = res.locals.email;
-    try {
-      const { id, nickname, is_admin, profileImageKey } = await knex('user')
-        .select(
-          'user.id as id',
-          'user.nickname as nickname',
-          'user.is_admin as is_admin',
-          'user_profile.image as profileImageKey'
-        )
-        .leftJoin('user_profile', 'user.id', 'user_profile.user_id')
-        .where({ 'user.id': email })
-        .first();
-
-      if (!id) {
-        Promise.reject();
-      }
+    const tokenId = res.locals.tokenId;
+    const familyId = res.locals.familyId;
+    const refreshToken: string = await rotateRefreshToken(tokenId);
 
-      const profileImage = await s3Controller.getObjectURL(profileImageKey);
+    await touchSession(familyId, req);
 
-      const accessToken = generatedJwtToken({
-        email,
-        sub: 'access',
-        expiresIn: '5m',
-      });
+    const user = await knex('user')
+      .select(
+        'user.id as id',
+        'user.nickname as nickname',
+        'user.role as role',
+        'user_profile.image as profileImageKey'
+      )
+      .leftJoin('user_profile', 'user.id', 'user_profile.user_id')
+      .where({ 'user.id': email })
+      .first();
 
-      res.status(200).json({
-        data: {
-          accessToken,
-          nickname,
-          email: id,
-          isAdmin: is_admin,
-          ...(!!profileImage && { profileImage }),
-        },
-      });
-    } catch (error) {
-      return res.status(404).json({ message: '가입되지 않은 회원입니다.' });
+    if (!user) {
+      throw new NotFoundError('USER_NOT_FOUND');
     }
-  }
+
+    const { id, nickname, role, profileImageKey } = user;
+    const profileImage = await s3Controller.getObjectURL(profileImageKey);
+
+    const accessToken = generatedJwtToken({
+      email,
+      sub: 'access',
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+      familyId,
+    });
+
+    res.status(200).json({
+      data: {
+        accessToken,
+        refreshToken,
+        nickname,
+        email: id,
+        isAdmin: isAdminRole(role),
+        role,
+        ...(!!profileImage && { profileImage }),
+      },
+    });
+  })
 );
 
-app.post('/verify/refresh-token', (req: Request, res: Response) => {
-  const response = verifyToken(req, res, 'refresh');
-  const { isOk }: { isOk: boolean } = response;
+app.post(
+  '/verify/refresh-token',
+  asyncHandler(async (req: Request, res: Response) => {
+    const response = verifyToken(req, res, 'refresh');
+    const { isOk }: { isOk: boolean } = response;
+
+    if (isOk && (await isActiveRefreshToken(res.locals.tokenId))) {
+      return res.status(200).json({ isValid: true });
+    }
 
-  if (isOk) {
-    res.status(200).json({ isValid: true });
-  } else {
     res.status(401).json({ isValid: false });
-  }
-});
+  })
+);
 
 export default app;
@@ -1,13 +1,26 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cookieParser from 'cookie-parser';
 import API from './api/api';
+import { prepareDatabase } from './db/dialect';
+import { assignRequestId, notFoundHandler, errorHandler } from './error';
+import { assignLocale } from './i18n';
 const app: express.Application = express();
 const port: number = 3001;
 
+app.use(assignRequestId);
+app.use(assignLocale);
 app.use(express.json());
 app.use(cookieParser());
 app.use('/api', API);
+app.use(notFoundHandler);
+app.use(errorHandler);
 
-app.listen(process.env.PORT || port, () => {
-  console.log(`listening on port: ${port}`);
-});
+if (require.main === module) {
+  prepareDatabase().then(() => {
+    app.listen(process.env.PORT || port, () => {
+      console.log(`listening on port: ${port}`);
+    });
+  });
+}
+
+export default app;
@@ -0,0 +1,393 @@
+import { Request, Response, NextFunction } from 'express';
+import dayjs from 'dayjs';
+import multer from 'multer';
+import sharp from 'sharp';
+import { Knex } from 'knex';
+import { v4 as uuidv4 } from 'uuid';
+import knex from '../db';
+import s3Controller from '../s3';
+import { AppError } from '../error';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const ONE_MEGABYTE = 1024 * 1024;
+
+export const ATTACHMENT_MAX_COUNT: number =
+  parseInt(process.env.ATTACHMENT_MAX_COUNT || '') || 5;
+export const ATTACHMENT_MAX_SIZE: number =
+  (parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '') || 10) * ONE_MEGABYTE;
+const THUMBNAIL_WIDTH = 320;
+
+/*
+    허용하는 MIME type별 S3 key의 확장자와 파일 앞부분(signature) 검사
+    Content-Type과 확장자는 클라이언트가 정하므로 실제 파일 내용도 같은 형식인지 확인
+    S3 key의 확장자도 파일 이름이 아닌 검사를 마친 MIME type으로 정함
+*/
+const ALLOWED_MIME_TYPES: {
+  [mimeType: string]: {
+    extension: string;
+    hasSignature: (file: Buffer) => boolean;
+  };
+} = {
+  'image/png': {
+    extension: 'png',
+    hasSignature: (file) => {
+      return file
+        .subarray(0, 8)
+        .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    },
+  },
+  'image/jpeg': {
+    extension: 'jpg',
+    hasSignature: (file) => {
+      return file.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]));
+    },
+  },
+  'image/gif': {
+    extension: 'gif',
+    hasSignature: (file) => file.subarray(0, 4).toString('latin1') === 'GIF8',
+  },
+  'image/webp': {
+    extension: 'webp',
+    hasSignature: (file) => {
+      return (
+        file.subarray(0, 4).toString('latin1') === 'RIFF' &&
+        file.subarray(8, 12).toString('latin1') === 'WEBP'
+      );
+    },
+  },
+  'application/pdf': {
+    extension: 'pdf',
+    hasSignature: (file) => {
+      return file.subarray(0, 5).toString('latin1') === '%PDF-';
+    },
+  },
+};
+
+export interface Attachment {
+  id: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  url: string;
+  thumbnailURL?: string;
+}
+
+const isImage = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+const createTypeNotAllowedError = (): AppError => {
+  return new AppError('FILE_TYPE_NOT_ALLOWED', {
+    params: { types: Object.keys(ALLOWED_MIME_TYPES).join(', ') },
+  });
+};
+
+const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_SIZE, files: ATTACHMENT_MAX_COUNT },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_MIME_TYPES[file.mimetype]) {
+      return callback(createTypeNotAllowedError());
+    }
+
+    callback(null, true);
+  },
+}).array('attachments', ATTACHMENT_MAX_COUNT);
+
+const createCountExceededError = (cause?: unknown): AppError => {
+  return new AppError('FILE_COUNT_EXCEEDED', {
+    params: { maxCount: ATTACHMENT_MAX_COUNT },
+    cause,
+  });
+};
+
+/*
+    게시글 첨부파일(attachments 필드)을 메모리로 받는 미들웨어
+    개수, 크기 제한을 넘으면 제한 값을 담은 에러로 바꿔서 넘김
+*/
+export const receiveAttachments = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  attachmentUpload(req, res, (error?: any) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        return next(
+          new AppError('FILE_TOO_LARGE', {
+            params: { maxSize: ATTACHMENT_MAX_SIZE / ONE_MEGABYTE },
+            cause: error,
+          })
+        );
+      }
+
+      if (
+        error.code === 'LIMIT_FILE_COUNT' ||
+        (error.code === 'LIMIT_UNEXPECTED_FILE' &&
+          error.field === 'attachments')
+      ) {
+        return next(createCountExceededError(error));
+      }
+    }
+
+    next(error);
+  });
+};
+
+/*
+    macOS에서 올린 파일은 한글 이름이 자모 단위(NFD)로 전달되므로 NFC로 정규화
+*/
+const normalizeFileName = (originalname: string): string => {
+  return originalname.normalize('NFC');
+};
+
+interface AttachmentRow {
+  board_content_id: string;
+  file_key: string;
+  thumbnail_key: string | null;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_at: string;
+}
+
+const getFileKeys = ({ file_key, thumbnail_key }: AttachmentRow): string[] => {
+  return !!thumbnail_key ? [file_key, thumbnail_key] : [file_key];
+};
+
+/*
+    Promise.all은 첫 번째 실패에서 바로 끝나서 아직 업로드 중인 파일을 지울 수 없으므로
+    업로드가 모두 끝날 때까지 기다린 뒤 성공한 값과 첫 번째 에러를 나눔
+*/
+const settleUploads = async <T>(
+  uploads: Promise<T>[]
+): Promise<{ values: T[]; error?: unknown }> => {
+  const results = await Promise.allSettled(uploads);
+  const rejected = results.find(
+    (result): result is PromiseRejectedResult => result.status === 'rejected'
+  );
+
+  return {
+    values: results.flatMap((result) => {
+      return result.status === 'fulfilled' ? [result.value] : [];
+    }),
+    ...(!!rejected && { error: rejected.reason }),
+  };
+};
+
+/*
+    이미지를 줄인 썸네일을 S3에 업로드
+    썸네일은 미리보기용이므로 sharp가 읽지 못하는 이미지이거나 업로드에 실패하면 썸네일 없이 저장
+    @returns Promise<string | null> => 썸네일 key, 실패하면 null
+*/
+const uploadThumbnail = async (
+  file: Buffer,
+  fileKey: string
+): Promise<string | null> => {
+  try {
+    const thumbnail: Buffer = await sharp(file)
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg()
+      .toBuffer();
+    const data = await s3Controller.uploadFile(
+      thumbnail,
+      fileKey,
+      'image/jpeg'
+    );
+
+    return data.Key;
+  } catch (error) {
+    console.error('upload attachment thumbnail', error);
+    return null;
+  }
+};
+
+/*
+    파일과 썸네일을 S3에 업로드
+    파일 업로드에 실패하면 업로드된 썸네일을 지우고 FILE_UPLOAD_FAILED
+*/
+const uploadAttachment = async (
+  boardContentId: string,
+  file: Express.Multer.File
+): Promise<AttachmentRow> => {
+  const fileName: string = uuidv4();
+  const { extension } = ALLOWED_MIME_TYPES[file.mimetype];
+  // 썸네일 업로드는 실패해도 reject되지 않음
+  const thumbnailUpload: Promise<string | null> = isImage(file.mimetype)
+    ? uploadThumbnail(
+        file.buffer,
+        `community/${boardContentId}/thumbnail/${fileName}.jpg`
+      )
+    : Promise.resolve(null);
+
+  try {
+    const data = await s3Controller.uploadFile(
+      file.buffer,
+      `community/${boardContentId}/${fileName}.${extension}`,
+      file.mimetype
+    );
+
+    return {
+      board_content_id: boardContentId,
+      file_key: data.Key,
+      thumbnail_key: await thumbnailUpload,
+      original_name: normalizeFileName(file.originalname),
+      mime_type: file.mimetype,
+      size: file.size,
+      uploaded_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+    };
+  } catch (error) {
+    const thumbnailKey: string | null = await thumbnailUpload;
+
+    await deleteAttachmentFiles(!!thumbnailKey ? [thumbnailKey] : []);
+    throw new AppError('FILE_UPLOAD_FAILED', { cause: error });
+  }
+};
+
+/*
+    첨부파일을 S3에 업로드하고 게시글에 등록 (이미지는 썸네일도 함께 업로드)
+    하나라도 형식이 맞지 않으면 아무것도 업로드하지 않음
+    업로드에 실패하거나 transaction이 rollback되면 이미 업로드한 파일을 S3에서 삭제
+    @param {Knex.Transaction} trx => 게시글을 저장하는 transaction
+    @param {string} boardContentId => 게시글 id
+    @param {Express.Multer.File[]} files => receiveAttachments로 받은 파일
+*/
+export const addAttachments = async (
+  trx: Knex.Transaction,
+  boardContentId: string,
+  files: Express.Multer.File[] = []
+): Promise<void> => {
+  if (
+    files.some((file) => {
+      return !ALLOWED_MIME_TYPES[file.mimetype]?.hasSignature(file.buffer);
+    })
+  ) {
+    throw createTypeNotAllowedError();
+  }
+
+  const { values: attachments, error } = await settleUploads(
+    files.map((file) => uploadAttachment(boardContentId, file))
+  );
+  const fileKeys: string[] = attachments.flatMap(getFileKeys);
+
+  if (error !== undefined) {
+    await deleteAttachmentFiles(fileKeys);
+    throw error;
+  }
+
+  trx.executionPromise.catch(() => deleteAttachmentFiles(fileKeys));
+
+  if (!!attachments.length) {
+    await trx('board_attachment').insert(attachments);
+  }
+};
+
+/*
+    첨부파일을 추가, 삭제한 뒤의 개수가 ATTACHMENT_MAX_COUNT를 넘지 않는지 검사
+    동시에 수정해도 개수를 넘지 않도록 게시글 row를 수정(lock)한 transaction 안에서 검사
+    @param {Knex.Transaction} trx => 게시글을 수정하는 transaction
+    @param {string} boardContentId => 게시글 id
+    @param {number} addedCount => 추가할 첨부파일 수
+    @param {number[]} removedIds => 삭제할 첨부파일 id
+*/
+export const checkAttachmentCount = async (
+  trx: Knex.Transaction,
+  boardContentId: string,
+  addedCount: number,
+  removedIds: number[] = []
+): Promise<void> => {
+  const { count } = (await trx('board_attachment')
+    .count('id as count')
+    .where({ board_content_id: boardContentId })
+    .whereNotIn('id', removedIds)
+    .first()) as { count: number };
+
+  if (Number(count) + addedCount > ATTACHMENT_MAX_COUNT) {
+    throw createCountExceededError();
+  }
+};
+
+/*
+    게시글의 첨부파일 목록을 다운로드 URL과 함께 조회
+    @param {string} boardContentId => 게시글 id
+*/
+export const getAttachments = async (
+  boardContentId: string
+): Promise<Attachment[]> => {
+  const attachments: {
+    id: number;
+    fileKey: string;
+    thumbnailKey: string | null;
+    originalName: string;
+    mimeType: string;
+    size: number;
+  }[] = await knex('board_attachment')
+    .select(
+      'id',
+      'file_key as fileKey',
+      'thumbnail_key as thumbnailKey',
+      'original_name as originalName',
+      'mime_type as mimeType',
+      'size'
+    )
+    .where({ board_content_id: boardContentId })
+    .orderBy('id');
+
+  return Promise.all(
+    attachments.map(async ({ fileKey, thumbnailKey, ...attachment }) => {
+      const [url, thumbnailURL] = await Promise.all([
+        s3Controller.getObjectURL(fileKey),
+        !!thumbnailKey && s3Controller.getObjectURL(thumbnailKey),
+      ]);
+
+      return {
+        ...attachment,
+        url: url as string,
+        ...(!!thumbnailURL && { thumbnailURL }),
+      };
+    })
+  );
+};
+
+/*
+    첨부파일 row를 삭제하고 S3에서 지울 key를 리턴
+    S3 파일은 transaction이 끝난 뒤 deleteAttachmentFiles로 삭제
+    @param {Knex | Knex.Transaction} trx => 사용할 knex 또는 transaction
+    @param {string[] | Knex.QueryBuilder} boardContentIds => 게시글 id 목록 또는 subquery
+    @param {number[]} ids => 일부 첨부파일만 삭제할 때의 첨부파일 id
+    @returns Promise<string[]> => 삭제할 S3 파일 key
+*/
+export const removeAttachments = async (
+  trx: Knex | Knex.Transaction,
+  boardContentIds: string[] | Knex.QueryBuilder,
+  ids?: number[]
+): Promise<string[]> => {
+  const query = () => {
+    const builder = trx('board_attachment').whereIn(
+      'board_content_id',
+      boardContentIds
+    );
+
+    return !!ids ? builder.whereIn('id', ids) : builder;
+  };
+  const attachments: { fileKey: string; thumbnailKey: string | null }[] =
+    await query().select(
+      'file_key as fileKey',
+      'thumbnail_key as thumbnailKey'
+    );
+
+  await query().delete();
+
+  return attachments.flatMap(({ fileKey, thumbnailKey }) => {
+    return !!thumbnailKey ? [fileKey, thumbnailKey] : [fileKey];
+  });
+};
+
+export const deleteAttachmentFiles = (fileKeys: string[]) => {
+  return Promise.all(
+    fileKeys.map((fileKey) => {
+      return s3Controller.deleteObject(fileKey).catch((error) => {
+        console.error('delete attachment file', error);
+      });
+    })
+  );
+};
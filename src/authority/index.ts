@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import knex from '../db';
+import { asyncHandler, ForbiddenError, NotFoundError } from '../error';
+import { MessageKey } from '../i18n';
+import { isAdminTwoFactorRequired, isTwoFactorEnabled } from '../two-factor';
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const ROLE = {
+  SUPERVISOR: 'supervisor',
+  ADMIN: 'admin',
+  COMPANY: 'company',
+  STUDENT: 'student',
+  MEMBER: 'member',
+} as const;
+
+export type Role = (typeof ROLE)[keyof typeof ROLE];
+
+export const ADMIN_ROLES: Role[] = [ROLE.SUPERVISOR, ROLE.ADMIN];
+
+/*
+    관리자 권한(supervisor, admin)을 가진 역할인지 검사
+    @param {string} role => 검사할 역할
+    @returns boolean => 관리자 역할이면 true 아니면 false
+*/
+export const isAdminRole = (role?: string | null): boolean => {
+  return ADMIN_ROLES.includes(role as Role);
+};
+
+/*
+    사용자의 역할을 조회
+    @param {string} email => 사용자 아이디(이메일)
+    @returns Promise<Role | undefined> => 사용자가 없으면 undefined
+*/
+export const getUserRole = async (
+  email: string = ''
+): Promise<Role | undefined> => {
+  const user: { role: Role } | undefined = await knex('user')
+    .select('role')
+    .where({ id: email })
+    .first();
+
+  return user?.role;
+};
+
+/*
+    역할과 supervisor 설정에 따라 2단계 인증이 필수인지 검사
+    @param {Role} role => 사용자 역할
+*/
+export const isTwoFactorRequired = async (role?: Role): Promise<boolean> => {
+  return role === ROLE.ADMIN && (await isAdminTwoFactorRequired());
+};
+
+/*
+    요청자의 역할이 허용된 역할 중 하나인지 검사하는 미들웨어
+    verifyAccessToken 뒤에 사용하며 통과 시 res.locals.role에 역할을 저장
+    2단계 인증이 필수인 역할인데 등록하지 않았으면 거부
+    @param {Role[]} roles => 접근을 허용할 역할 목록
+*/
+export const requireRole = (...roles: Role[]) => {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      const role = await getUserRole(res.locals.email);
+
+      if (!role || !roles.includes(role)) {
+        throw new ForbiddenError();
+      }
+
+      if (
+        (await isTwoFactorRequired(role)) &&
+        !(await isTwoFactorEnabled(res.locals.email))
+      ) {
+        throw new ForbiddenError('TWO_FACTOR_SETUP_REQUIRED');
+      }
+
+      res.locals.role = role;
+      next();
+    }
+  );
+};
+
+/*
+    요청자가 해당 리소스(row)의 작성자인지 검사하는 미들웨어 (관리자는 통과)
+    verifyAccessToken 뒤에 사용하며 req.params.id의 row를 기준으로 검사
+    @param {string} table => 검사할 테이블
+    @param {string} ownerColumn => 작성자 아이디가 저장된 컬럼
+    @param {boolean} hasSoftDelete => is_deleted 컬럼으로 삭제를 표시하는 테이블인지 여부
+    @param {MessageKey} messageKey => 작성자가 아닐 때 기본 message 대신 응답할 메세지 key
+*/
+export const requireOwnership = ({
+  table,
+  ownerColumn = 'user_id',
+  hasSoftDelete = false,
+  messageKey,
+}: {
+  table: string;
+  ownerColumn?: string;
+  hasSoftDelete?: boolean;
+  messageKey?: MessageKey;
+}) => {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      const id: string = req.params.id;
+      const email: string = res.locals.email;
+
+      const [resource, role]: [
+        { ownerId: string } | undefined,
+        Role | undefined
+      ] = await Promise.all([
+        knex(table)
+          .select(`${ownerColumn} as ownerId`)
+          .where({ id, ...(hasSoftDelete && { is_deleted: false }) })
+          .first(),
+        getUserRole(email),
+      ]);
+
+      if (!resource) {
+        throw new NotFoundError();
+      }
+
+      if (resource.ownerId !== email && !isAdminRole(role)) {
+        throw new ForbiddenError('AUTH_FORBIDDEN', messageKey);
+      }
+
+      res.locals.role = role;
+      next();
+    }
+  );
+};
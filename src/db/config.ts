@@ -0,0 +1,56 @@
+import { Knex } from 'knex';
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const DB_CLIENT: string = process.env.DB_CLIENT || 'mysql';
+
+const mysqlConnection: Knex.Config = {
+  client: 'mysql',
+  connection: {
+    host: process.env.DB_HOST,
+    port: parseInt(process.env.DB_PORT || '3306'),
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+    charset: process.env.DB_CHARSET || 'utf8mb4',
+    typeCast: (field: any, next: () => unknown) => {
+      if (field.type === 'TINY' && field.length === 4) {
+        let value = field.string();
+
+        return value ? value === '1' : null;
+      }
+
+      return next();
+    },
+  },
+  pool: {
+    min: parseInt(process.env.DB_POOL_MIN || '2'),
+    max: parseInt(process.env.DB_POOL_MAX || '10'),
+  },
+};
+
+// 로컬 개발 및 테스트용, DB_FILENAME이 없으면 in-memory DB를 사용
+const sqliteConnection: Knex.Config = {
+  client: 'better-sqlite3',
+  connection: {
+    filename: process.env.DB_FILENAME || ':memory:',
+  },
+  useNullAsDefault: true,
+  pool: { min: 1, max: 1 },
+};
+
+const dbConfig: Knex.Config = {
+  ...(DB_CLIENT === 'sqlite' ? sqliteConnection : mysqlConnection),
+  migrations: {
+    directory: path.join(__dirname, 'migrations'),
+    tableName: 'knex_migrations',
+    loadExtensions: ['.ts', '.js'],
+  },
+  seeds: {
+    directory: path.join(__dirname, 'seeds'),
+    loadExtensions: ['.ts', '.js'],
+  },
+};
+
+export default dbConfig;
@@ -0,0 +1,127 @@
+import { Knex } from 'knex';
+import knex from './index';
+import dbConfig from './config';
+
+interface Dialect {
+  orderByRandom: (query: Knex.QueryBuilder) => Knex.QueryBuilder;
+  whereJsonSupersetOf: (
+    query: Knex.QueryBuilder,
+    column: string,
+    values: (string | number)[]
+  ) => Knex.QueryBuilder;
+  whereJsonValueLike: (
+    query: Knex.QueryBuilder,
+    column: string,
+    path: string,
+    patterns: string[]
+  ) => Knex.QueryBuilder;
+  fullTextScore: (columns: FullTextColumn[], terms: string[]) => Knex.Raw;
+  isUniqueViolation: (error: any) => boolean;
+}
+
+export interface FullTextColumn {
+  column: string;
+  weight: number;
+}
+
+const escapeLike = (value: string): string => {
+  return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+};
+
+const mysqlDialect: Dialect = {
+  orderByRandom: (query) => query.orderByRaw('RAND()'),
+  whereJsonSupersetOf: (query, column, values) => {
+    return query.whereJsonSupersetOf(column, JSON.stringify(values));
+  },
+  whereJsonValueLike: (query, column, path, patterns) => {
+    return query.where((builder) => {
+      patterns.forEach((pattern) => {
+        builder.orWhereRaw('json_unquote(json_extract(??, ?)) like ?', [
+          column,
+          path,
+          pattern,
+        ]);
+      });
+    });
+  },
+  // ngram parser로 만든 FULLTEXT 인덱스의 relevance에 컬럼 가중치를 곱해 합산
+  fullTextScore: (columns, terms) => {
+    const keyword: string = terms.join(' ');
+
+    return knex.raw(
+      `(${columns
+        .map(() => 'match(??) against (? in natural language mode) * ?')
+        .join(' + ')})`,
+      columns.flatMap(({ column, weight }) => [column, keyword, weight])
+    );
+  },
+  isUniqueViolation: (error) => error?.code === 'ER_DUP_ENTRY',
+};
+
+const sqliteDialect: Dialect = {
+  orderByRandom: (query) => query.orderByRaw('RANDOM()'),
+  whereJsonSupersetOf: (query, column, values) => {
+    values.forEach((value) => {
+      query.whereRaw(
+        'exists (select 1 from json_each(??) where json_each.value = ?)',
+        [column, value]
+      );
+    });
+
+    return query;
+  },
+  whereJsonValueLike: (query, column, path, patterns) => {
+    return query.where((builder) => {
+      patterns.forEach((pattern) => {
+        builder.orWhereRaw('json_extract(??, ?) like ?', [
+          column,
+          path,
+          pattern,
+        ]);
+      });
+    });
+  },
+  // FULLTEXT 인덱스가 없으므로 검색어가 포함된 컬럼의 가중치를 합산
+  fullTextScore: (columns, terms) => {
+    const conditions = columns.flatMap(({ column, weight }) => {
+      return terms.map((term) => {
+        return knex.raw("coalesce(?? like ? escape '\\', 0) * ?", [
+          column,
+          `%${escapeLike(term)}%`,
+          weight,
+        ]);
+      });
+    });
+
+    return knex.raw(`(${conditions.map(() => '?').join(' + ')})`, conditions);
+  },
+  isUniqueViolation: (error) => {
+    return [
+      'SQLITE_CONSTRAINT_UNIQUE',
+      'SQLITE_CONSTRAINT_PRIMARYKEY',
+    ].includes(error?.code);
+  },
+};
+
+const DIALECT_MAP: { [client: string]: Dialect } = {
+  mysql: mysqlDialect,
+  'better-sqlite3': sqliteDialect,
+};
+
+export const isSqlite: boolean = dbConfig.client === 'better-sqlite3';
+
+const dialect: Dialect = DIALECT_MAP[dbConfig.client as string];
+
+/*
+    in-memory SQLite는 프로세스마다 DB가 새로 생성되므로 시작 시 migration, seed를 실행
+*/
+export const prepareDatabase = async (): Promise<void> => {
+  if (!isSqlite || process.env.DB_FILENAME) {
+    return;
+  }
+
+  await knex.migrate.latest();
+  await knex.seed.run();
+};
+
+export default dialect;
@@ -0,0 +1,6 @@
+import knexFactory, { Knex } from 'knex';
+import dbConfig from './config';
+
+const knex: Knex = knexFactory(dbConfig);
+
+export default knex;
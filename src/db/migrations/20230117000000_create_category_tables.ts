@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+const CATEGORY_TABLES = [
+  'job_category',
+  'plattform',
+  'technology',
+  'class',
+  'board_category',
+];
+
+export const up = async (knex: Knex): Promise<void> => {
+  for (const tableName of CATEGORY_TABLES) {
+    await knex.schema.createTable(tableName, (table) => {
+      table.increments('id').primary();
+      table.string('name', 50).notNullable();
+    });
+  }
+
+  await knex.schema.createTable('year', (table) => {
+    table.string('id', 4).primary();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('year');
+
+  for (const tableName of [...CATEGORY_TABLES].reverse()) {
+    await knex.schema.dropTableIfExists(tableName);
+  }
+};
@@ -0,0 +1,53 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.createTable('user', (table) => {
+    table.string('id', 100).primary();
+    table.string('password', 255).notNullable();
+    table.string('nickname', 30).notNullable().unique();
+    table.string('role', 20).notNullable().defaultTo('member');
+    table.string('uni_id', 20).nullable().unique();
+    table.string('name', 30).nullable();
+  });
+
+  await knex.schema.createTable('user_profile', (table) => {
+    table.string('user_id', 100).primary();
+    table.tinyint('is_open_information', 4).notNullable().defaultTo(0);
+    table.string('image', 255).nullable();
+    table.text('positions').nullable();
+    table.text('technologies').nullable();
+    table.text('introduction').nullable();
+    table.text('awards').nullable();
+    table.text('links').nullable();
+    table
+      .foreign('user_id')
+      .references('user.id')
+      .onUpdate('CASCADE')
+      .onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('auth', (table) => {
+    table.increments('id').primary();
+    table.string('email', 100).notNullable().index();
+    table.string('auth_code', 255).notNullable();
+    table.dateTime('date').notNullable();
+    table.tinyint('is_auth', 4).notNullable().defaultTo(0);
+  });
+
+  await knex.schema.createTable('refresh_token', (table) => {
+    table.string('id', 32).primary();
+    table.string('family_id', 32).notNullable().index();
+    table.string('user_id', 100).notNullable().index();
+    table.tinyint('is_used', 4).notNullable().defaultTo(0);
+    table.tinyint('is_revoked', 4).notNullable().defaultTo(0);
+    table.dateTime('created_at').notNullable();
+    table.dateTime('expires_at').notNullable();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('refresh_token');
+  await knex.schema.dropTableIfExists('auth');
+  await knex.schema.dropTableIfExists('user_profile');
+  await knex.schema.dropTableIfExists('user');
+};
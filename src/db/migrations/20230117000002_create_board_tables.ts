@@ -0,0 +1,40 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.createTable('board_content', (table) => {
+    table.string('id', 16).primary();
+    table.string('user_id', 100).notNullable().index();
+    table.integer('category_id').unsigned().notNullable().index();
+    table.string('title', 255).notNullable();
+    table.text('content').notNullable();
+    table.dateTime('uploaded_at').notNullable();
+    table.integer('view_count').notNullable().defaultTo(0);
+    table.tinyint('is_deleted', 4).notNullable().defaultTo(0);
+    table.foreign('category_id').references('board_category.id');
+  });
+
+  await knex.schema.createTable('board_comment', (table) => {
+    table.increments('id').primary();
+    table.string('board_content_id', 16).notNullable().index();
+    table.string('user_id', 100).notNullable().index();
+    table.text('content').notNullable();
+    table.dateTime('uploaded_at').notNullable();
+    table.tinyint('is_deleted', 4).notNullable().defaultTo(0);
+    table.foreign('board_content_id').references('board_content.id');
+  });
+
+  await knex.schema.createTable('board_like', (table) => {
+    table.string('board_content_id', 16).notNullable();
+    table.string('user_id', 100).notNullable();
+    table.dateTime('updated_at').notNullable();
+    table.tinyint('is_deleted', 4).notNullable().defaultTo(0);
+    table.primary(['board_content_id', 'user_id']);
+    table.foreign('board_content_id').references('board_content.id');
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('board_like');
+  await knex.schema.dropTableIfExists('board_comment');
+  await knex.schema.dropTableIfExists('board_content');
+};
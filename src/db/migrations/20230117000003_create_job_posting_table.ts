@@ -0,0 +1,23 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.createTable('job_posting', (table) => {
+    table.string('id', 16).primary();
+    table.string('user_id', 100).notNullable().index();
+    table.string('company_name', 100).notNullable();
+    table.string('title', 255).notNullable();
+    table.text('content').notNullable();
+    table.string('deadline', 8).notNullable();
+    table.string('image', 255).notNullable();
+    table.integer('field').unsigned().notNullable();
+    table.text('applicant').nullable();
+    table.text('address_information').notNullable();
+    table.integer('view_count').notNullable().defaultTo(0);
+    table.tinyint('is_deleted', 4).notNullable().defaultTo(0);
+    table.foreign('field').references('job_category.id');
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.dropTableIfExists('job_posting');
+};
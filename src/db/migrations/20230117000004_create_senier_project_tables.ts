@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.createTable('senier_project', (table) => {
+    table.string('id', 16).primary();
+    table.string('year', 4).notNullable().index();
+    table.integer('class_id').unsigned().notNullable();
+    table.string('group_name', 50).notNullable();
+    table.json('link').nullable();
+    table.json('plattform').notNullable();
+    table.json('technology').notNullable();
+    table.string('project_design', 255).nullable();
+    table.integer('view_count').notNullable().defaultTo(0);
+    table.unique(['year', 'class_id', 'group_name']);
+    table.foreign('class_id').references('class.id');
+  });
+
+  await knex.schema.createTable('team_member', (table) => {
+    table.string('id', 16).notNullable().index();
+    table.string('uni_id', 20).primary();
+    table.string('name', 30).notNullable();
+    table.text('introduction').notNullable();
+    table.string('profile_image', 255).nullable();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('team_member');
+  await knex.schema.dropTableIfExists('senier_project');
+};
@@ -0,0 +1,12 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.createTable('banner', (table) => {
+    table.string('key', 255).primary();
+    table.string('name', 255).notNullable();
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.dropTableIfExists('banner');
+};
@@ -0,0 +1,30 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  // 평문으로 저장된 인증번호는 더 이상 검증할 수 없으므로 삭제
+  await knex('auth').delete();
+
+  await knex.schema.alterTable('auth', (table) => {
+    table.renameColumn('auth_code', 'code_hash');
+  });
+
+  await knex.schema.alterTable('auth', (table) => {
+    table.string('purpose', 20).notNullable().defaultTo('signup');
+    table.integer('attempt_count').notNullable().defaultTo(0);
+    table.index(['email', 'purpose']);
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex('auth').delete();
+
+  await knex.schema.alterTable('auth', (table) => {
+    table.dropIndex(['email', 'purpose']);
+    table.dropColumn('attempt_count');
+    table.dropColumn('purpose');
+  });
+
+  await knex.schema.alterTable('auth', (table) => {
+    table.renameColumn('code_hash', 'auth_code');
+  });
+};
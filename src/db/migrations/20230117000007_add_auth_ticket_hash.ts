@@ -0,0 +1,13 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.alterTable('auth', (table) => {
+    table.string('ticket_hash', 64).nullable();
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.alterTable('auth', (table) => {
+    table.dropColumn('ticket_hash');
+  });
+};
@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.createTable('password_reset_token', (table) => {
+    table.string('token_hash', 64).primary();
+    table.string('user_id', 100).notNullable().index();
+    table.tinyint('is_used', 4).notNullable().defaultTo(0);
+    table.dateTime('created_at').notNullable();
+    table.dateTime('expires_at').notNullable();
+    table
+      .foreign('user_id')
+      .references('user.id')
+      .onUpdate('CASCADE')
+      .onDelete('CASCADE');
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.dropTableIfExists('password_reset_token');
+};
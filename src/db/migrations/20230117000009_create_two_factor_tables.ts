@@ -0,0 +1,38 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.createTable('user_two_factor', (table) => {
+    table.string('user_id', 100).primary();
+    table.string('secret', 255).notNullable();
+    table.tinyint('is_enabled', 4).notNullable().defaultTo(0);
+    table.bigInteger('last_used_step').nullable();
+    table.dateTime('created_at').notNullable();
+    table
+      .foreign('user_id')
+      .references('user.id')
+      .onUpdate('CASCADE')
+      .onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('two_factor_recovery_code', (table) => {
+    table.increments('id').primary();
+    table.string('user_id', 100).notNullable().index();
+    table.string('code_hash', 64).notNullable();
+    table
+      .foreign('user_id')
+      .references('user.id')
+      .onUpdate('CASCADE')
+      .onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('setting', (table) => {
+    table.string('key', 50).primary();
+    table.string('value', 255).notNullable();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('setting');
+  await knex.schema.dropTableIfExists('two_factor_recovery_code');
+  await knex.schema.dropTableIfExists('user_two_factor');
+};
@@ -0,0 +1,18 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.createTable('session', (table) => {
+    // refresh_token.family_id와 같은 값
+    table.string('id', 32).primary();
+    table.string('user_id', 100).notNullable().index();
+    table.string('device', 100).notNullable();
+    table.string('user_agent', 255).nullable();
+    table.string('ip', 45).nullable();
+    table.dateTime('created_at').notNullable();
+    table.dateTime('last_refreshed_at').notNullable();
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.dropTableIfExists('session');
+};
@@ -0,0 +1,41 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.alterTable('user', (table) => {
+    // 소셜 로그인으로 가입해 비밀번호를 설정하지 않은 계정은 0
+    table.tinyint('has_password', 4).notNullable().defaultTo(1);
+  });
+
+  await knex.schema.createTable('user_identity', (table) => {
+    table.string('provider', 30).notNullable();
+    table.string('subject', 255).notNullable();
+    table.string('user_id', 100).notNullable().index();
+    table.string('email', 100).nullable();
+    table.dateTime('linked_at').notNullable();
+    table.primary(['provider', 'subject']);
+    table.unique(['user_id', 'provider']);
+    table
+      .foreign('user_id')
+      .references('user.id')
+      .onUpdate('CASCADE')
+      .onDelete('CASCADE');
+  });
+
+  await knex.schema.createTable('oauth_state', (table) => {
+    table.string('state_hash', 64).primary();
+    table.string('provider', 30).notNullable();
+    table.string('purpose', 10).notNullable();
+    table.string('user_id', 100).nullable();
+    table.string('nonce', 64).notNullable();
+    table.string('code_verifier', 64).notNullable();
+    table.dateTime('expires_at').notNullable();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('oauth_state');
+  await knex.schema.dropTableIfExists('user_identity');
+  await knex.schema.alterTable('user', (table) => {
+    table.dropColumn('has_password');
+  });
+};
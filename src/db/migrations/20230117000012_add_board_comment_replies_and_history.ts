@@ -0,0 +1,25 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.alterTable('board_comment', (table) => {
+    // 답글이면 부모 댓글의 id (답글은 한 단계까지만 가능)
+    table.integer('parent_id').unsigned().nullable().index();
+    table.dateTime('updated_at').nullable();
+  });
+
+  await knex.schema.createTable('board_comment_history', (table) => {
+    table.increments('id').primary();
+    table.integer('board_comment_id').unsigned().notNullable().index();
+    table.text('content').notNullable();
+    table.dateTime('edited_at').notNullable();
+    table.foreign('board_comment_id').references('board_comment.id');
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.dropTableIfExists('board_comment_history');
+  await knex.schema.alterTable('board_comment', (table) => {
+    table.dropColumn('updated_at');
+    table.dropColumn('parent_id');
+  });
+};
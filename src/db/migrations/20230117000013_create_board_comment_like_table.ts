@@ -0,0 +1,24 @@
+import { Knex } from 'knex';
+
+export const up = async (knex: Knex): Promise<void> => {
+  await knex.schema.createTable('board_comment_like', (table) => {
+    table.integer('board_comment_id').unsigned().notNullable();
+    table.string('user_id', 100).notNullable();
+    table.dateTime('updated_at').notNullable();
+    table.tinyint('is_deleted', 4).notNullable().defaultTo(0);
+    table.primary(['board_comment_id', 'user_id']);
+    table.foreign('board_comment_id').references('board_comment.id');
+  });
+
+  await knex.schema.alterTable('board_content', (table) => {
+    // 글쓴이나 관리자가 채택한 댓글 (질문게시판의 채택 답변)
+    table.integer('accepted_comment_id').unsigned().nullable();
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  await knex.schema.alterTable('board_content', (table) => {
+    table.dropColumn('accepted_comment_id');
+  });
+  await knex.schema.dropTableIfExists('board_comment_like');
+};
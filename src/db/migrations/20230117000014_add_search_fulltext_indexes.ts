@@ -0,0 +1,47 @@
+import { Knex } from 'knex';
+
+// 검색 대상 컬럼, 제목과 본문의 가중치를 따로 주기 위해 컬럼마다 인덱스를 만듦
+const FULLTEXT_COLUMNS: { [table: string]: string[] } = {
+  board_content: ['title', 'content'],
+  job_posting: ['title', 'company_name', 'content'],
+  senier_project: ['group_name'],
+  team_member: ['name', 'introduction'],
+};
+
+const getIndexName = (table: string, column: string): string => {
+  return `ft_${table}_${column}`;
+};
+
+/*
+    한국어는 띄어쓰기 단위로 검색되지 않으므로 MySQL의 ngram parser로 FULLTEXT 인덱스를 만듦
+    SQLite는 FULLTEXT 인덱스가 없어 LIKE 검색으로 대신함 (db/dialect 참고)
+*/
+export const up = async (knex: Knex): Promise<void> => {
+  if (knex.client.config.client !== 'mysql') {
+    return;
+  }
+
+  for (const [table, columns] of Object.entries(FULLTEXT_COLUMNS)) {
+    for (const column of columns) {
+      await knex.raw(
+        'alter table ?? add fulltext index ?? (??) with parser ngram',
+        [table, getIndexName(table, column), column]
+      );
+    }
+  }
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  if (knex.client.config.client !== 'mysql') {
+    return;
+  }
+
+  for (const [table, columns] of Object.entries(FULLTEXT_COLUMNS)) {
+    for (const column of columns) {
+      await knex.raw('alter table ?? drop index ??', [
+        table,
+        getIndexName(table, column),
+      ]);
+    }
+  }
+};
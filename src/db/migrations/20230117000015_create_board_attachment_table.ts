@@ -0,0 +1,20 @@
+import { Knex } from 'knex';
+
+export const up = (knex: Knex): Promise<void> => {
+  return knex.schema.createTable('board_attachment', (table) => {
+    table.increments('id').primary();
+    table.string('board_content_id', 16).notNullable().index();
+    table.string('file_key', 255).notNullable();
+    // 이미지 첨부파일만 썸네일을 만듦
+    table.string('thumbnail_key', 255).nullable();
+    table.string('original_name', 255).notNullable();
+    table.string('mime_type', 100).notNullable();
+    table.integer('size').unsigned().notNullable();
+    table.dateTime('uploaded_at').notNullable();
+    table.foreign('board_content_id').references('board_content.id');
+  });
+};
+
+export const down = (knex: Knex): Promise<void> => {
+  return knex.schema.dropTableIfExists('board_attachment');
+};
@@ -0,0 +1,47 @@
+import { Knex } from 'knex';
+import { ROLE, ADMIN_ROLES } from '../../authority';
+import dotenv from 'dotenv';
+dotenv.config();
+
+/*
+    role 컬럼 이전의 DB는 is_admin 컬럼과 .env의 SUPERVISOR_ID로 관리자를 구분했으므로
+    role을 추가해서 is_admin 값을 옮기고 SUPERVISOR_ID의 사용자를 supervisor로 지정한 뒤 is_admin을 삭제
+    처음부터 migration으로 만든 DB에는 is_admin이 없으므로 아무것도 하지 않음
+*/
+export const up = async (knex: Knex): Promise<void> => {
+  if (!(await knex.schema.hasColumn('user', 'is_admin'))) {
+    return;
+  }
+
+  if (!(await knex.schema.hasColumn('user', 'role'))) {
+    await knex.schema.alterTable('user', (table) => {
+      table.string('role', 20).notNullable().defaultTo(ROLE.MEMBER);
+    });
+  }
+
+  await knex('user').update({ role: ROLE.ADMIN }).where({ is_admin: true });
+
+  const supervisorId: string = process.env.SUPERVISOR_ID || '';
+
+  if (!!supervisorId) {
+    await knex('user')
+      .update({ role: ROLE.SUPERVISOR })
+      .where({ id: supervisorId });
+  }
+
+  await knex.schema.alterTable('user', (table) => {
+    table.dropColumn('is_admin');
+  });
+};
+
+export const down = async (knex: Knex): Promise<void> => {
+  if (await knex.schema.hasColumn('user', 'is_admin')) {
+    return;
+  }
+
+  await knex.schema.alterTable('user', (table) => {
+    table.tinyint('is_admin', 4).notNullable().defaultTo(0);
+  });
+
+  await knex('user').update({ is_admin: true }).whereIn('role', ADMIN_ROLES);
+};
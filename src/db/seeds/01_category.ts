@@ -0,0 +1,67 @@
+import { Knex } from 'knex';
+
+const toRows = (names: string[]) => {
+  return names.map((name: string, index: number) => ({ id: index + 1, name }));
+};
+
+export const seed = async (knex: Knex): Promise<void> => {
+  await knex('job_category')
+    .insert(
+      toRows([
+        '프론트엔드',
+        '백엔드',
+        '풀스택',
+        '안드로이드',
+        'iOS',
+        '게임',
+        '데이터',
+        '디자인',
+        '기타',
+      ])
+    )
+    .onConflict('id')
+    .merge();
+
+  await knex('plattform')
+    .insert(toRows(['Web', 'Android', 'iOS', 'Desktop', 'Game', 'IoT']))
+    .onConflict('id')
+    .merge();
+
+  await knex('technology')
+    .insert(
+      toRows([
+        'JavaScript',
+        'TypeScript',
+        'React',
+        'Vue',
+        'Node.js',
+        'Spring',
+        'Java',
+        'Kotlin',
+        'Swift',
+        'Python',
+        'Django',
+        'Flutter',
+        'Unity',
+        'MySQL',
+        'AWS',
+      ])
+    )
+    .onConflict('id')
+    .merge();
+
+  await knex('class')
+    .insert(toRows(['A반', 'B반', 'C반', 'D반']))
+    .onConflict('id')
+    .merge();
+
+  await knex('board_category')
+    .insert(toRows(['자유게시판', '질문게시판', '취업게시판']))
+    .onConflict('id')
+    .merge();
+
+  await knex('year')
+    .insert([{ id: '2022' }, { id: '2023' }])
+    .onConflict('id')
+    .ignore();
+};
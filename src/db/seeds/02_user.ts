@@ -0,0 +1,45 @@
+import { Knex } from 'knex';
+import { hashPassword } from '../../password';
+import { checkPasswordPolicy } from '../../password/policy';
+import { translate, DEFAULT_LOCALE } from '../../i18n';
+import { ROLE } from '../../authority';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const NICKNAME = 'supervisor';
+
+/*
+    supervisor 계정 생성
+    기본 비밀번호를 두지 않으므로 .env의 SEED_SUPERVISOR_PASSWORD가 없거나 비밀번호 정책에 어긋나면 실패
+*/
+export const seed = async (knex: Knex): Promise<void> => {
+  const id: string = process.env.SEED_SUPERVISOR_ID || 'supervisor@boogie.dev';
+  const password: string = process.env.SEED_SUPERVISOR_PASSWORD || '';
+
+  if (!password) {
+    throw new Error('SEED_SUPERVISOR_PASSWORD is required');
+  }
+
+  const violations = checkPasswordPolicy(password, {
+    email: id,
+    nickname: NICKNAME,
+  });
+
+  if (!!violations.length) {
+    throw new Error(
+      `SEED_SUPERVISOR_PASSWORD: ${violations
+        .map(({ key, params }) => translate(DEFAULT_LOCALE, key, params))
+        .join(' ')}`
+    );
+  }
+
+  await knex('user')
+    .insert({
+      id,
+      nickname: NICKNAME,
+      password: await hashPassword(password),
+      role: ROLE.SUPERVISOR,
+    })
+    .onConflict('id')
+    .ignore();
+};
@@ -1,6 +1,238 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { randomUUID } from 'crypto';
+import {
+  translate,
+  translateFor,
+  DEFAULT_LOCALE,
+  MessageKey,
+  MessageParams,
+} from './i18n';
+
 const ERROR_MAP = {
-  400: { code: 400, message: '잘못된 요청입니다.' },
-  500: { code: 500, message: '서버요청에 실패하였습니다.' },
+  BAD_REQUEST: { status: 400 },
+  VALIDATION_FAILED: { status: 400 },
+  AUTH_TOKEN_MISSING: { status: 401 },
+  AUTH_TOKEN_INVALID: { status: 401 },
+  AUTH_TOKEN_WRONG_TYPE: { status: 401 },
+  AUTH_TOKEN_EXPIRED: { status: 419 },
+  AUTH_REFRESH_TOKEN_REUSED: { status: 401 },
+  AUTH_SESSION_REVOKED: { status: 401 },
+  AUTH_LOGIN_FAILED: { status: 400 },
+  AUTH_CODE_MISMATCH: { status: 409 },
+  AUTH_CODE_EXPIRED: { status: 409 },
+  AUTH_CODE_ATTEMPTS_EXCEEDED: { status: 409 },
+  AUTH_EMAIL_NOT_VERIFIED: { status: 403 },
+  AUTH_VERIFICATION_TICKET_MISSING: { status: 403 },
+  AUTH_VERIFICATION_TICKET_INVALID: { status: 403 },
+  AUTH_VERIFICATION_TICKET_EXPIRED: { status: 403 },
+  AUTH_FORBIDDEN: { status: 403 },
+  AUTH_ACCOUNT_LOCKED: { status: 429 },
+  RATE_LIMIT_EXCEEDED: { status: 429 },
+  USER_NOT_FOUND: { status: 404 },
+  USER_ID_DUPLICATED: { status: 409 },
+  USER_NICKNAME_DUPLICATED: { status: 409 },
+  PASSWORD_NOT_CHANGED: { status: 409 },
+  PASSWORD_MISMATCH: { status: 400 },
+  PASSWORD_RESET_TOKEN_INVALID: { status: 400 },
+  PASSWORD_RESET_TOKEN_EXPIRED: { status: 400 },
+  ACCOUNT_DELETION_FORBIDDEN: { status: 403 },
+  REAUTHENTICATION_REQUIRED: { status: 403 },
+  TWO_FACTOR_NOT_ENABLED: { status: 400 },
+  TWO_FACTOR_ALREADY_ENABLED: { status: 409 },
+  TWO_FACTOR_CODE_INVALID: { status: 401 },
+  TWO_FACTOR_SETUP_REQUIRED: { status: 403 },
+  TWO_FACTOR_REQUIRED: { status: 403 },
+  OAUTH_PROVIDER_NOT_FOUND: { status: 404 },
+  OAUTH_STATE_INVALID: { status: 400 },
+  OAUTH_CODE_INVALID: { status: 400 },
+  OAUTH_ID_TOKEN_INVALID: { status: 401 },
+  OAUTH_EMAIL_REQUIRED: { status: 400 },
+  OAUTH_ACCOUNT_EXISTS: { status: 409 },
+  OAUTH_IDENTITY_ALREADY_LINKED: { status: 409 },
+  OAUTH_IDENTITY_NOT_FOUND: { status: 404 },
+  OAUTH_LAST_LOGIN_METHOD: { status: 409 },
+  OAUTH_PROVIDER_UNAVAILABLE: { status: 502 },
+  PROFILE_NOT_FOUND: { status: 404 },
+  PROFILE_ALREADY_EXISTS: { status: 400 },
+  STUDENT_ALREADY_REGISTERED: { status: 400 },
+  RESOURCE_NOT_FOUND: { status: 404 },
+  COMMENT_PARENT_NOT_FOUND: { status: 404 },
+  EMPLOYMENT_APPLY_FORBIDDEN: { status: 403 },
+  SENIER_PROJECT_GROUP_DUPLICATED: { status: 400 },
+  SENIER_PROJECT_MEMBER_DUPLICATED: { status: 400 },
+  BANNER_LIMIT_EXCEEDED: { status: 400 },
+  IMAGE_UPLOAD_FAILED: { status: 500 },
+  FILE_TYPE_NOT_ALLOWED: { status: 415 },
+  FILE_TOO_LARGE: { status: 413 },
+  FILE_COUNT_EXCEEDED: { status: 400 },
+  FILE_UPLOAD_FAILED: { status: 500 },
+  INTERNAL_SERVER_ERROR: { status: 500 },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_MAP;
+
+/*
+    응답 코드(code)로 status와 기본 message가 정해지는 에러
+    message는 응답 시 요청 locale로 번역되며 Error.message에는 DEFAULT_LOCALE 메세지를 담음
+    @param {ErrorCode} code => ERROR_MAP의 key
+    @param {MessageKey} messageKey => 기본 message 대신 응답할 메세지 카탈로그의 key
+    @param {MessageParams} params => 메세지에 채울 값
+    @param {unknown} details => 응답에 함께 담을 추가 정보
+    @param {unknown} cause => 로그에 남길 원인 에러
+*/
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly messageKey: MessageKey;
+  readonly params?: MessageParams;
+  readonly details?: unknown;
+  readonly cause?: unknown;
+
+  constructor(
+    code: ErrorCode,
+    {
+      messageKey = code,
+      params,
+      details,
+      cause,
+    }: {
+      messageKey?: MessageKey;
+      params?: MessageParams;
+      details?: unknown;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(translate(DEFAULT_LOCALE, messageKey, params));
+    this.name = 'AppError';
+    this.code = code;
+    this.status = ERROR_MAP[code].status;
+    this.messageKey = messageKey;
+    this.params = params;
+    this.details = details;
+    this.cause = cause;
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(code: ErrorCode = 'RESOURCE_NOT_FOUND', messageKey?: MessageKey) {
+    super(code, { messageKey });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(code: ErrorCode = 'AUTH_FORBIDDEN', messageKey?: MessageKey) {
+    super(code, { messageKey });
+    this.name = 'ForbiddenError';
+  }
+}
+
+/*
+    요청 횟수 제한에 걸렸을 때의 에러
+    @param {number} retryAfter => 다시 요청할 수 있을 때까지 남은 초 (Retry-After 헤더)
+*/
+export class RateLimitError extends AppError {
+  readonly retryAfter: number;
+
+  constructor(retryAfter: number, code: ErrorCode = 'RATE_LIMIT_EXCEEDED') {
+    super(code, { details: { retryAfter } });
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(details: unknown) {
+    super('VALIDATION_FAILED', { details });
+    this.name = 'ValidationError';
+  }
+}
+
+/*
+    async 핸들러에서 발생한 에러를 에러 미들웨어로 넘기는 래퍼
+    @param {Function} handler => async 라우트 핸들러 또는 미들웨어
+*/
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, next).catch(next);
+  };
+};
+
+/*
+    요청마다 request id를 부여하는 미들웨어
+    x-request-id 헤더가 있으면 그대로 사용하고 응답 헤더에도 담음
+*/
+export const assignRequestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const requestId: string = req.header('x-request-id') || randomUUID();
+
+  res.locals.requestId = requestId;
+  res.setHeader('x-request-id', requestId);
+  next();
+};
+
+const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error?.type === 'entity.parse.failed' || error?.name === 'MulterError') {
+    return new AppError('BAD_REQUEST', { cause: error });
+  }
+
+  return new AppError('INTERNAL_SERVER_ERROR', { cause: error });
+};
+
+export const notFoundHandler = (req: Request, res: Response) => {
+  const error = new AppError('RESOURCE_NOT_FOUND');
+
+  res.status(error.status).json({
+    code: error.code,
+    message: translateFor(res, error.messageKey),
+    requestId: res.locals.requestId,
+  });
+};
+
+/*
+    모든 라우터의 에러를 받아 로그를 남기고 공통 형식으로 응답하는 미들웨어
+    응답 형식: { code, message, requestId, details? }
+    message는 res.locals.locale(Accept-Language)에 맞춰 번역
+*/
+export const errorHandler = (
+  error: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const appError: AppError = toAppError(error);
+  const requestId: string = res.locals.requestId;
+
+  if (appError.status >= 500) {
+    console.error(
+      `[${requestId}] ${req.method} ${req.originalUrl} ${appError.code}`,
+      appError.cause || appError
+    );
+  }
+
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (appError instanceof RateLimitError) {
+    res.setHeader('Retry-After', String(appError.retryAfter));
+  }
+
+  res.status(appError.status).json({
+    code: appError.code,
+    message: translateFor(res, appError.messageKey, appError.params),
+    requestId,
+    ...(appError.details !== undefined && { details: appError.details }),
+  });
 };
 
 export default ERROR_MAP;
@@ -0,0 +1,134 @@
+import { Messages } from './index';
+
+const en: Messages = {
+  BAD_REQUEST: 'Bad request.',
+  VALIDATION_FAILED: 'Bad request.',
+  AUTH_TOKEN_MISSING: 'Token is missing.',
+  AUTH_TOKEN_INVALID: 'Invalid token.',
+  AUTH_TOKEN_WRONG_TYPE: 'Wrong type of token.',
+  AUTH_TOKEN_EXPIRED: 'Token has expired.',
+  AUTH_REFRESH_TOKEN_REUSED: 'Refresh token has already been used or revoked.',
+  AUTH_SESSION_REVOKED:
+    'This session has been signed out. Please log in again.',
+  AUTH_LOGIN_FAILED: 'Incorrect ID or password.',
+  AUTH_CODE_MISMATCH: 'Verification code does not match.',
+  AUTH_CODE_EXPIRED: 'Verification request has expired.',
+  AUTH_CODE_ATTEMPTS_EXCEEDED:
+    'Too many incorrect attempts. Please request a new verification code.',
+  AUTH_EMAIL_NOT_VERIFIED: 'Please verify your email first.',
+  AUTH_VERIFICATION_TICKET_MISSING: 'Verification ticket is missing.',
+  AUTH_VERIFICATION_TICKET_INVALID: 'Invalid verification ticket.',
+  AUTH_VERIFICATION_TICKET_EXPIRED:
+    'Email verification has expired. Please verify again.',
+  AUTH_FORBIDDEN: 'You do not have permission.',
+  AUTH_ACCOUNT_LOCKED:
+    'Account is temporarily locked due to too many login attempts. Please try again later.',
+  RATE_LIMIT_EXCEEDED: 'Too many requests. Please try again later.',
+  USER_NOT_FOUND: 'User is not registered.',
+  USER_ID_DUPLICATED: 'ID (email) already exists.',
+  USER_NICKNAME_DUPLICATED: 'Nickname already exists.',
+  PASSWORD_NOT_CHANGED: 'New password is the same as the current password.',
+  PASSWORD_MISMATCH: 'Current password is incorrect.',
+  PASSWORD_RESET_TOKEN_INVALID: 'Invalid password reset link.',
+  PASSWORD_RESET_TOKEN_EXPIRED:
+    'Password reset link has expired. Please request a new one.',
+  ACCOUNT_DELETION_FORBIDDEN: 'The supervisor account cannot be deleted.',
+  REAUTHENTICATION_REQUIRED:
+    'Please verify your identity with the code sent to your email.',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not set up.',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled.',
+  TWO_FACTOR_CODE_INVALID: 'Invalid two-factor authentication code.',
+  TWO_FACTOR_SETUP_REQUIRED:
+    'Admin accounts must set up two-factor authentication first.',
+  TWO_FACTOR_REQUIRED:
+    'Two-factor authentication cannot be disabled for admin accounts.',
+  OAUTH_PROVIDER_NOT_FOUND: 'This social login is not supported.',
+  OAUTH_STATE_INVALID:
+    'Social login request has expired or is invalid. Please try again.',
+  OAUTH_CODE_INVALID: 'Social login failed. Please try again.',
+  OAUTH_ID_TOKEN_INVALID: 'Invalid social login credentials.',
+  OAUTH_EMAIL_REQUIRED:
+    'This account does not provide a verified email. Please allow access to your email.',
+  OAUTH_ACCOUNT_EXISTS:
+    'This email is already registered. Log in with your email and link the social account.',
+  OAUTH_IDENTITY_ALREADY_LINKED: 'This social account is already linked.',
+  OAUTH_IDENTITY_NOT_FOUND: 'This social account is not linked.',
+  OAUTH_LAST_LOGIN_METHOD:
+    'You cannot remove your only login method. Please set a password first.',
+  OAUTH_PROVIDER_UNAVAILABLE:
+    'The social login service is unavailable. Please try again later.',
+  PROFILE_NOT_FOUND: 'Resource not found.',
+  PROFILE_ALREADY_EXISTS: 'Profile has already been created.',
+  STUDENT_ALREADY_REGISTERED: 'Student is already registered.',
+  RESOURCE_NOT_FOUND: 'Resource not found.',
+  COMMENT_PARENT_NOT_FOUND: 'The comment you are replying to was not found.',
+  EMPLOYMENT_APPLY_FORBIDDEN: 'You cannot apply to this job posting.',
+  SENIER_PROJECT_GROUP_DUPLICATED: 'Group name is already registered.',
+  SENIER_PROJECT_MEMBER_DUPLICATED: 'Team member is already registered.',
+  BANNER_LIMIT_EXCEEDED: 'You cannot register more than 5 banners.',
+  IMAGE_UPLOAD_FAILED: 'Failed to upload the image.',
+  FILE_TYPE_NOT_ALLOWED: 'This file type cannot be attached. ({types})',
+  FILE_TOO_LARGE: 'Attachments must be {maxSize}MB or smaller.',
+  FILE_COUNT_EXCEEDED: 'You can attach up to {maxCount} files.',
+  FILE_UPLOAD_FAILED: 'Failed to upload the file.',
+  INTERNAL_SERVER_ERROR: 'Server request failed.',
+
+  AUTH_ACCESS_TOKEN_WRONG_TYPE: 'Not an access token.',
+  AUTH_REFRESH_TOKEN_WRONG_TYPE: 'Not a refresh token.',
+  AUTH_ACCESS_TOKEN_EXPIRED: 'Access token has expired.',
+  AUTH_REFRESH_TOKEN_EXPIRED: 'Refresh token has expired.',
+  AUTH_ACCESS_TOKEN_INVALID: 'Invalid access token.',
+  AUTH_REFRESH_TOKEN_INVALID: 'Invalid refresh token.',
+  AUTH_TWO_FACTOR_TOKEN_WRONG_TYPE: 'Not a two-factor token.',
+  AUTH_TWO_FACTOR_TOKEN_EXPIRED:
+    'Two-factor authentication has timed out. Please log in again.',
+  AUTH_TWO_FACTOR_TOKEN_INVALID: 'Invalid two-factor token.',
+  EMPLOYMENT_UPDATE_FORBIDDEN: 'You do not have permission to modify it.',
+  SENIER_PROJECT_GROUP_NAME_DUPLICATED:
+    '{groupName} is already a registered group name.',
+  SENIER_PROJECT_MEMBER_NAME_DUPLICATED: '{member} is already registered.',
+
+  VALIDATION_REQUIRED: 'This field is required.',
+  VALIDATION_INVALID_FORMAT: 'Invalid format.',
+  VALIDATION_INVALID_EMAIL: 'Invalid email format.',
+  VALIDATION_INVALID_ENUM: 'Value is not allowed.',
+  VALIDATION_INVALID_JSON: 'Not a valid JSON.',
+  VALIDATION_ARRAY_TOO_SMALL: 'Enter at least {minimum} item(s).',
+  VALIDATION_STRING_TOO_SMALL: 'Enter at least {minimum} character(s).',
+  VALIDATION_NUMBER_TOO_SMALL: 'Must be greater than or equal to {minimum}.',
+  VALIDATION_ARRAY_TOO_BIG: 'Enter at most {maximum} item(s).',
+  VALIDATION_STRING_TOO_BIG: 'Enter at most {maximum} character(s).',
+  VALIDATION_NUMBER_TOO_BIG: 'Must be less than or equal to {maximum}.',
+  VALIDATION_PASSWORD_MISMATCH: 'Passwords do not match.',
+  VALIDATION_PASSWORD_DIFFERENT: 'Does not match the password you entered.',
+  VALIDATION_PASSWORD_TOO_SHORT:
+    'Password must be at least {minimum} characters long.',
+  VALIDATION_PASSWORD_TOO_LONG:
+    'Password must be at most {maximum} characters long.',
+  VALIDATION_PASSWORD_CHARACTER_CLASSES:
+    'Use at least {minimum} of lowercase letters, uppercase letters, numbers and symbols.',
+  VALIDATION_PASSWORD_CONTAINS_EMAIL:
+    'Password cannot contain your ID (email).',
+  VALIDATION_PASSWORD_CONTAINS_NICKNAME:
+    'Password cannot contain your nickname.',
+  VALIDATION_PASSWORD_COMMON: 'This password is too common.',
+  VALIDATION_STUDENT_SEARCH_REQUIRED: 'Enter a student ID or name.',
+  VALIDATION_NICKNAME_INVALID: 'This nickname cannot be used.',
+  VALIDATION_DEADLINE_TOO_EARLY: 'Deadline must be tomorrow or later.',
+  VALIDATION_TEAM_MEMBER_REQUIRED: 'At least one team member is required.',
+  VALIDATION_LINK_REQUIRED: 'Enter at least one link.',
+  VALIDATION_PLATTFORM_REQUIRED: 'Enter at least one platform.',
+  VALIDATION_TECHNOLOGY_REQUIRED: 'Enter at least one technology.',
+
+  MAIL_AUTH_CODE_TITLE: 'Email verification',
+  MAIL_AUTH_CODE_CONTENT:
+    '<p> Your email verification code is {authCode}. </p>',
+  MAIL_PASSWORD_RESET_TITLE: 'Reset your password',
+  MAIL_PASSWORD_RESET_CONTENT:
+    '<p> Reset your password using the link below. The link can be used once within {minutes} minutes. </p><p><a href="{link}">{link}</a></p>',
+  MAIL_EMPLOYMENT_APPLICANT_TITLE: 'Boogie On & On job application',
+  MAIL_EMPLOYMENT_APPLICANT_CONTENT:
+    '<p> {name}({id}) has applied to your company. </p>',
+};
+
+export default en;
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+import ko from './ko';
+import en from './en';
+
+export const LOCALES = ['ko', 'en'] as const;
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+export type Locale = (typeof LOCALES)[number];
+export type MessageKey = keyof typeof ko;
+export type Messages = { [key in MessageKey]: string };
+export type MessageParams = { [name: string]: string | number };
+
+const CATALOG: { [locale in Locale]: Messages } = { ko, en };
+
+export const isLocale = (value: string): value is Locale => {
+  return (LOCALES as readonly string[]).includes(value);
+};
+
+export const isMessageKey = (value: string): value is MessageKey => {
+  return Object.prototype.hasOwnProperty.call(ko, value);
+};
+
+/*
+    locale에 맞는 메세지를 찾아 {name} 자리에 params 값을 채워 리턴
+    @param {Locale} locale => 메세지 언어
+    @param {MessageKey} key => 메세지 카탈로그의 key
+    @param {MessageParams} params => 메세지에 채울 값
+*/
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string => {
+  return CATALOG[locale][key].replace(/\{(\w+)\}/g, (match, name: string) => {
+    return name in params ? String(params[name]) : match;
+  });
+};
+
+/*
+    Accept-Language 헤더에서 지원하는 locale 중 우선순위가 가장 높은 값을 선택
+    일치하는 값이 없으면 DEFAULT_LOCALE을 리턴
+    @param {string} acceptLanguage => ex) 'en-US,en;q=0.9,ko;q=0.8'
+*/
+export const negotiateLocale = (acceptLanguage: string = ''): Locale => {
+  const languages = acceptLanguage
+    .split(',')
+    .map((language, index) => {
+      const [tag, ...options] = language.trim().split(';');
+      const quality = options
+        .map((option) => option.trim())
+        .find((option) => option.startsWith('q='));
+
+      return {
+        tag: tag.toLowerCase().split('-')[0],
+        quality: !!quality ? Number(quality.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ tag, quality }) => !!tag && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of languages) {
+    if (tag === '*') {
+      return DEFAULT_LOCALE;
+    }
+    if (isLocale(tag)) {
+      return tag;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+};
+
+/*
+    요청마다 응답 locale을 정하는 미들웨어
+    res.locals.locale에 저장하고 Content-Language 헤더로 알려줌
+*/
+export const assignLocale = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const locale: Locale = negotiateLocale(req.header('accept-language'));
+
+  res.locals.locale = locale;
+  res.setHeader('Content-Language', locale);
+  res.vary('Accept-Language');
+  next();
+};
+
+/*
+    res.locals.locale 기준으로 메세지를 번역
+    assignLocale 이전에 호출되면 DEFAULT_LOCALE을 사용
+*/
+export const translateFor = (
+  res: Response,
+  key: MessageKey,
+  params?: MessageParams
+): string => {
+  return translate(res.locals.locale || DEFAULT_LOCALE, key, params);
+};
+
+/*
+    지원하는 모든 locale의 메세지를 LOCALES 순서대로 리턴
+    수신자의 언어를 알 수 없는 메일 등에 사용
+*/
+export const translateAll = (
+  key: MessageKey,
+  params?: MessageParams
+): string[] => {
+  return LOCALES.map((locale) => translate(locale, key, params));
+};
@@ -0,0 +1,128 @@
+const ko = {
+  BAD_REQUEST: '잘못된 요청입니다.',
+  VALIDATION_FAILED: '잘못된 요청입니다.',
+  AUTH_TOKEN_MISSING: '토큰이 없습니다',
+  AUTH_TOKEN_INVALID: '유효하지 않은 토큰입니다.',
+  AUTH_TOKEN_WRONG_TYPE: '잘못된 종류의 토큰입니다.',
+  AUTH_TOKEN_EXPIRED: '만료된 토큰입니다.',
+  AUTH_REFRESH_TOKEN_REUSED: '이미 사용되었거나 폐기된 리프레시 토큰입니다.',
+  AUTH_SESSION_REVOKED: '로그아웃된 세션입니다. 다시 로그인해주세요.',
+  AUTH_LOGIN_FAILED: '아이디 또는 비밀번호를 잘못 입력했습니다.',
+  AUTH_CODE_MISMATCH: '인증번호가 틀렸습니다.',
+  AUTH_CODE_EXPIRED: '인증요청 시간이 만료되었습니다.',
+  AUTH_CODE_ATTEMPTS_EXCEEDED:
+    '인증번호를 여러 번 잘못 입력했습니다. 인증번호를 다시 요청해주세요.',
+  AUTH_EMAIL_NOT_VERIFIED: '이메일 인증을 먼저 완료해주세요.',
+  AUTH_VERIFICATION_TICKET_MISSING: '이메일 인증 정보가 없습니다.',
+  AUTH_VERIFICATION_TICKET_INVALID: '유효하지 않은 이메일 인증 정보입니다.',
+  AUTH_VERIFICATION_TICKET_EXPIRED:
+    '이메일 인증이 만료되었습니다. 다시 인증해주세요.',
+  AUTH_FORBIDDEN: '권한이 없습니다.',
+  AUTH_ACCOUNT_LOCKED:
+    '로그인 시도가 너무 많아 계정이 잠겼습니다. 잠시 후 다시 시도해주세요.',
+  RATE_LIMIT_EXCEEDED: '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+  USER_NOT_FOUND: '가입되지 않은 회원입니다.',
+  USER_ID_DUPLICATED: '이미 존재하는 아이디(이메일) 입니다.',
+  USER_NICKNAME_DUPLICATED: '이미 존재하는 닉네임 입니다.',
+  PASSWORD_NOT_CHANGED: '기존 비밀번호와 동일합니다.',
+  PASSWORD_MISMATCH: '현재 비밀번호가 일치하지 않습니다.',
+  PASSWORD_RESET_TOKEN_INVALID: '유효하지 않은 비밀번호 재설정 링크입니다.',
+  PASSWORD_RESET_TOKEN_EXPIRED:
+    '비밀번호 재설정 링크가 만료되었습니다. 다시 요청해주세요.',
+  ACCOUNT_DELETION_FORBIDDEN: 'supervisor 계정은 탈퇴할 수 없습니다.',
+  REAUTHENTICATION_REQUIRED:
+    '본인 확인이 필요합니다. 이메일로 받은 인증번호를 입력해주세요.',
+  TWO_FACTOR_NOT_ENABLED: '2단계 인증이 설정되어 있지 않습니다.',
+  TWO_FACTOR_ALREADY_ENABLED: '이미 2단계 인증이 설정되어 있습니다.',
+  TWO_FACTOR_CODE_INVALID: '2단계 인증 코드가 올바르지 않습니다.',
+  TWO_FACTOR_SETUP_REQUIRED:
+    '관리자 계정은 2단계 인증을 설정해야 이용할 수 있습니다.',
+  TWO_FACTOR_REQUIRED: '관리자 계정은 2단계 인증을 해제할 수 없습니다.',
+  OAUTH_PROVIDER_NOT_FOUND: '지원하지 않는 소셜 로그인입니다.',
+  OAUTH_STATE_INVALID:
+    '소셜 로그인 요청이 만료되었거나 올바르지 않습니다. 다시 시도해주세요.',
+  OAUTH_CODE_INVALID: '소셜 로그인 인증에 실패했습니다. 다시 시도해주세요.',
+  OAUTH_ID_TOKEN_INVALID: '소셜 로그인 인증 정보가 올바르지 않습니다.',
+  OAUTH_EMAIL_REQUIRED:
+    '인증된 이메일을 제공하지 않는 계정입니다. 이메일 제공에 동의해주세요.',
+  OAUTH_ACCOUNT_EXISTS:
+    '이미 가입된 이메일입니다. 이메일로 로그인한 뒤 소셜 계정을 연결해주세요.',
+  OAUTH_IDENTITY_ALREADY_LINKED: '이미 연결되어 있는 소셜 계정입니다.',
+  OAUTH_IDENTITY_NOT_FOUND: '연결되어 있지 않은 소셜 계정입니다.',
+  OAUTH_LAST_LOGIN_METHOD:
+    '마지막 로그인 수단은 해제할 수 없습니다. 비밀번호를 먼저 설정해주세요.',
+  OAUTH_PROVIDER_UNAVAILABLE:
+    '소셜 로그인 서비스에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  PROFILE_NOT_FOUND: '리소스를 찾을 수 없습니다.',
+  PROFILE_ALREADY_EXISTS: '이미 프로필이 생성되어 있습니다.',
+  STUDENT_ALREADY_REGISTERED: '이미 등록되어 있는 학생입니다.',
+  RESOURCE_NOT_FOUND: '리소스를 찾을 수 없습니다.',
+  COMMENT_PARENT_NOT_FOUND: '답글을 달 댓글을 찾을 수 없습니다.',
+  EMPLOYMENT_APPLY_FORBIDDEN: '지원 하실 수 없습니다.',
+  SENIER_PROJECT_GROUP_DUPLICATED: '이미 등록되어 있는 조 이름 입니다.',
+  SENIER_PROJECT_MEMBER_DUPLICATED: '이미 등록되어 있는 팀원입니다.',
+  BANNER_LIMIT_EXCEEDED: '등록할려는 베너가 5개 이상입니다.',
+  IMAGE_UPLOAD_FAILED: '이미지 업로드에 실패하였습니다.',
+  FILE_TYPE_NOT_ALLOWED: '첨부할 수 없는 파일 형식입니다. ({types})',
+  FILE_TOO_LARGE: '첨부파일은 {maxSize}MB 이하만 올릴 수 있습니다.',
+  FILE_COUNT_EXCEEDED: '첨부파일은 {maxCount}개까지 올릴 수 있습니다.',
+  FILE_UPLOAD_FAILED: '파일 업로드에 실패하였습니다.',
+  INTERNAL_SERVER_ERROR: '서버요청에 실패하였습니다.',
+
+  AUTH_ACCESS_TOKEN_WRONG_TYPE: '엑세스 토큰이 아닙니다.',
+  AUTH_REFRESH_TOKEN_WRONG_TYPE: '리프레시 토큰이 아닙니다.',
+  AUTH_ACCESS_TOKEN_EXPIRED: '만료된 엑세스 토큰입니다.',
+  AUTH_REFRESH_TOKEN_EXPIRED: '만료된 리프레시 토큰입니다.',
+  AUTH_ACCESS_TOKEN_INVALID: '유효하지 않은 엑세스 토큰입니다.',
+  AUTH_REFRESH_TOKEN_INVALID: '유효하지 않은 리프레시 토큰입니다.',
+  AUTH_TWO_FACTOR_TOKEN_WRONG_TYPE: '2단계 인증 토큰이 아닙니다.',
+  AUTH_TWO_FACTOR_TOKEN_EXPIRED:
+    '2단계 인증 시간이 만료되었습니다. 다시 로그인해주세요.',
+  AUTH_TWO_FACTOR_TOKEN_INVALID: '유효하지 않은 2단계 인증 토큰입니다.',
+  EMPLOYMENT_UPDATE_FORBIDDEN: '수정 권한이 없습니다.',
+  SENIER_PROJECT_GROUP_NAME_DUPLICATED:
+    '{groupName}은 이미 등록되어 있는 조 이름 입니다.',
+  SENIER_PROJECT_MEMBER_NAME_DUPLICATED:
+    '{member} 은(는) 이미 등록되어 있습니다.',
+
+  VALIDATION_REQUIRED: '필수 값입니다.',
+  VALIDATION_INVALID_FORMAT: '형식이 올바르지 않습니다.',
+  VALIDATION_INVALID_EMAIL: '이메일 형식이 올바르지 않습니다.',
+  VALIDATION_INVALID_ENUM: '허용되지 않는 값입니다.',
+  VALIDATION_INVALID_JSON: 'JSON 형식이 아닙니다.',
+  VALIDATION_ARRAY_TOO_SMALL: '{minimum}개 이상 입력해주세요.',
+  VALIDATION_STRING_TOO_SMALL: '{minimum}자 이상 입력해주세요.',
+  VALIDATION_NUMBER_TOO_SMALL: '{minimum} 이상이어야 합니다.',
+  VALIDATION_ARRAY_TOO_BIG: '{maximum}개 이하로 입력해주세요.',
+  VALIDATION_STRING_TOO_BIG: '{maximum}자 이하로 입력해주세요.',
+  VALIDATION_NUMBER_TOO_BIG: '{maximum} 이하이어야 합니다.',
+  VALIDATION_PASSWORD_MISMATCH: '비밀번호가 일치하지 않습니다.',
+  VALIDATION_PASSWORD_DIFFERENT: '입력하신 비밀번호와 다릅니다.',
+  VALIDATION_PASSWORD_TOO_SHORT: '비밀번호는 {minimum}자 이상이어야 합니다.',
+  VALIDATION_PASSWORD_TOO_LONG: '비밀번호는 {maximum}자 이하여야 합니다.',
+  VALIDATION_PASSWORD_CHARACTER_CLASSES:
+    '영문 소문자, 대문자, 숫자, 특수문자 중 {minimum}종류 이상을 사용해주세요.',
+  VALIDATION_PASSWORD_CONTAINS_EMAIL:
+    '비밀번호에 아이디(이메일)를 포함할 수 없습니다.',
+  VALIDATION_PASSWORD_CONTAINS_NICKNAME:
+    '비밀번호에 닉네임을 포함할 수 없습니다.',
+  VALIDATION_PASSWORD_COMMON: '너무 흔하게 사용되는 비밀번호입니다.',
+  VALIDATION_STUDENT_SEARCH_REQUIRED: '학번 또는 이름을 입력해주세요.',
+  VALIDATION_NICKNAME_INVALID: '사용 할 수 없는 닉네임 입니다.',
+  VALIDATION_DEADLINE_TOO_EARLY: '마감일은 내일 이후로 입력해주세요.',
+  VALIDATION_TEAM_MEMBER_REQUIRED: '팀원은 한명이상이 필요합니다.',
+  VALIDATION_LINK_REQUIRED: '링크(를)을 하나 이상 넣어주십시오.',
+  VALIDATION_PLATTFORM_REQUIRED: '플랫폼(를)을 하나 이상 넣어주십시오.',
+  VALIDATION_TECHNOLOGY_REQUIRED: '기술(를)을 하나 이상 넣어주십시오.',
+
+  MAIL_AUTH_CODE_TITLE: '이메일 인증',
+  MAIL_AUTH_CODE_CONTENT: '<p> 이메일 인증번호는 {authCode} 입니다. </p>',
+  MAIL_PASSWORD_RESET_TITLE: '비밀번호 재설정',
+  MAIL_PASSWORD_RESET_CONTENT:
+    '<p> 아래 링크에서 비밀번호를 재설정해주세요. 링크는 {minutes}분 동안 한 번만 사용할 수 있습니다. </p><p><a href="{link}">{link}</a></p>',
+  MAIL_EMPLOYMENT_APPLICANT_TITLE: 'Boogie On & On 채용공고 지원 메일',
+  MAIL_EMPLOYMENT_APPLICANT_CONTENT:
+    '<p> 귀하의 회사에 {name}({id})님이 지원하였습니다. </p>',
+};
+
+export default ko;
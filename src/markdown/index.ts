@@ -0,0 +1,150 @@
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import sanitizeHtml from 'sanitize-html';
+
+// 닉네임은 2~10자 (profile의 nicknameString과 같은 길이)
+const MENTION_PATTERN = /(^|\s)@([\p{L}\p{N}_]{2,10})/gu;
+
+/*
+    community, employment, senier-project에서 함께 사용하는 HTML 허용 정책
+    markdown으로 만들 수 있는 태그와 멘션(span.mention)만 허용하고
+    링크는 http, https, mailto만 허용하며 새 창에서 열도록 rel, target을 붙임
+*/
+export const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'p',
+    'br',
+    'hr',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'blockquote',
+    'ul',
+    'ol',
+    'li',
+    'strong',
+    'em',
+    's',
+    'code',
+    'pre',
+    'a',
+    'img',
+    'table',
+    'thead',
+    'tbody',
+    'tr',
+    'th',
+    'td',
+    'span',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel', 'target'],
+    img: ['src', 'alt', 'title'],
+    code: ['class'],
+    th: ['style'],
+    td: ['style'],
+    span: ['class', 'data-nickname'],
+  },
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+    span: ['mention'],
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] },
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['http', 'https'] },
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', {
+      rel: 'nofollow noopener noreferrer',
+      target: '_blank',
+    }),
+  },
+};
+
+/*
+    HTML에서 SANITIZE_OPTIONS에 없는 태그, 속성, 링크를 제거
+    @param {string} html => 검사할 HTML
+*/
+export const sanitizeHTML = (html: string): string => {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+};
+
+/*
+    text token의 @닉네임을 mention token으로 나눔 (링크 안의 text는 제외)
+    text rule이 @를 포함한 문장 전체를 하나의 token으로 만들기 때문에 inline 처리가 끝난 뒤 나눔
+*/
+const splitMentions = (token: Token, TokenClass: typeof Token): Token[] => {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  for (const match of token.content.matchAll(MENTION_PATTERN)) {
+    const [, space, nickname] = match;
+    const index = (match.index as number) + space.length;
+    const text = new TokenClass('text', '', 0);
+    const mention = new TokenClass('mention', '', 0);
+
+    text.content = token.content.slice(lastIndex, index);
+    mention.meta = { nickname };
+    tokens.push(text, mention);
+    lastIndex = index + nickname.length + 1;
+  }
+
+  if (!tokens.length) {
+    return [token];
+  }
+
+  const rest = new TokenClass('text', '', 0);
+  rest.content = token.content.slice(lastIndex);
+
+  return [...tokens, rest];
+};
+
+const markdown: MarkdownIt = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+});
+
+markdown.core.ruler.after('linkify', 'mention', (state) => {
+  state.tokens
+    .filter((blockToken) => blockToken.type === 'inline')
+    .forEach((blockToken) => {
+      let linkLevel = 0;
+
+      blockToken.children = (blockToken.children || []).flatMap((token) => {
+        if (token.type === 'link_open') {
+          linkLevel++;
+        } else if (token.type === 'link_close') {
+          linkLevel--;
+        }
+
+        return token.type === 'text' && !linkLevel
+          ? splitMentions(token, state.Token)
+          : [token];
+      });
+    });
+});
+
+markdown.renderer.rules.mention = (tokens, index) => {
+  const nickname: string = markdown.utils.escapeHtml(
+    tokens[index].meta.nickname
+  );
+
+  return `<span class="mention" data-nickname="${nickname}">@${nickname}</span>`;
+};
+
+/*
+    Markdown을 HTML로 변환한 뒤 sanitize
+    Markdown 안의 HTML은 그대로 출력하지 않고 escape 처리 (html: false)
+    @param {string} source => 저장된 Markdown 원문
+    @returns string => 화면에 그대로 넣을 수 있는 HTML
+*/
+export const renderMarkdown = (source: string = ''): string => {
+  return sanitizeHTML(markdown.render(source));
+};
@@ -0,0 +1,538 @@
+import crypto from 'crypto';
+import axios, { AxiosRequestConfig } from 'axios';
+import dayjs from 'dayjs';
+import jwt from 'jsonwebtoken';
+import { Knex } from 'knex';
+import knex from '../db';
+import dialect from '../db/dialect';
+import { hashPassword } from '../password';
+import { AppError, ErrorCode, NotFoundError } from '../error';
+import { ExternalIdentity, OAuthProvider, OAUTH_PROVIDERS } from './providers';
+
+export const OAUTH_PURPOSE = {
+  LOGIN: 'login',
+  LINK: 'link',
+} as const;
+
+export type OAuthPurpose = (typeof OAUTH_PURPOSE)[keyof typeof OAUTH_PURPOSE];
+
+const OAUTH_STATE_EXPIRES_IN_MINUTES = 10;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'ES256'];
+// profile의 nicknameString과 같은 길이 (2~10자)
+const MIN_NICKNAME_LENGTH = 2;
+const MAX_NICKNAME_LENGTH = 10;
+// 닉네임이 겹칠 때 뒤에 붙이는 숫자 길이
+const NICKNAME_SUFFIX_LENGTH = 4;
+
+interface ProviderEndpoints {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userInfoEndpoint?: string;
+  jwksURI?: string;
+}
+
+const discoveryCache = new Map<string, ProviderEndpoints>();
+const jwksCache = new Map<string, { [kid: string]: string }>();
+
+const getCurrentDate = (): string => {
+  return dayjs().format('YYYY-MM-DD HH:mm:ss');
+};
+
+const createRandomString = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
+
+const hashState = (state: string): string => {
+  return crypto.createHash('sha256').update(state).digest('hex');
+};
+
+/*
+    provider의 endpoint를 호출하고 실패하면 AppError로 바꿈
+    provider가 응답하지 않거나 5xx로 응답하면 장애로 보고 OAUTH_PROVIDER_UNAVAILABLE
+    @param {AxiosRequestConfig} config => axios 요청 설정
+    @param {ErrorCode} errorCode => provider가 4xx로 거절했을 때의 에러 코드
+*/
+const requestProvider = async (
+  config: AxiosRequestConfig,
+  errorCode: ErrorCode = 'OAUTH_PROVIDER_UNAVAILABLE'
+): Promise<any> => {
+  try {
+    const { data } = await axios(config);
+    return data;
+  } catch (error) {
+    const status: number | undefined = axios.isAxiosError(error)
+      ? error.response?.status
+      : undefined;
+
+    throw new AppError(
+      !!status && status < 500 ? errorCode : 'OAUTH_PROVIDER_UNAVAILABLE',
+      { cause: error }
+    );
+  }
+};
+
+export const getEnabledProviders = (): string[] => {
+  return Array.from(OAUTH_PROVIDERS.keys());
+};
+
+/*
+    설정된 provider를 찾음
+    @param {string} name => provider 이름 (google, kakao, naver 등)
+*/
+export const getProvider = (name: string): OAuthProvider => {
+  const provider = OAUTH_PROVIDERS.get(name);
+
+  if (!provider) {
+    throw new NotFoundError('OAUTH_PROVIDER_NOT_FOUND');
+  }
+
+  return provider;
+};
+
+/*
+    provider의 endpoint를 찾음
+    issuer가 있으면 OIDC discovery 문서를 한 번만 조회해서 캐시
+*/
+const getEndpoints = async (
+  provider: OAuthProvider
+): Promise<ProviderEndpoints> => {
+  if (!provider.issuer) {
+    return {
+      authorizationEndpoint: provider.authorizationEndpoint as string,
+      tokenEndpoint: provider.tokenEndpoint as string,
+      userInfoEndpoint: provider.userInfoEndpoint,
+    };
+  }
+
+  const cached = discoveryCache.get(provider.issuer);
+  if (!!cached) {
+    return cached;
+  }
+
+  const data = await requestProvider({
+    url: `${provider.issuer.replace(
+      /\/$/,
+      ''
+    )}/.well-known/openid-configuration`,
+    method: 'get',
+  });
+  const endpoints: ProviderEndpoints = {
+    issuer: data.issuer,
+    authorizationEndpoint:
+      provider.authorizationEndpoint || data.authorization_endpoint,
+    tokenEndpoint: provider.tokenEndpoint || data.token_endpoint,
+    userInfoEndpoint: provider.userInfoEndpoint || data.userinfo_endpoint,
+    jwksURI: data.jwks_uri,
+  };
+
+  discoveryCache.set(provider.issuer, endpoints);
+  return endpoints;
+};
+
+/*
+    jwks에서 kid에 해당하는 공개키를 PEM으로 찾음
+    캐시에 없으면 키가 교체되었을 수 있으므로 다시 조회
+*/
+const getSigningKey = async (
+  jwksURI: string,
+  kid: string = ''
+): Promise<string | undefined> => {
+  const cached = jwksCache.get(jwksURI);
+  if (!!cached?.[kid]) {
+    return cached[kid];
+  }
+
+  const data = await requestProvider({ url: jwksURI, method: 'get' });
+  const keys: { [kid: string]: string } = {};
+
+  (data.keys || []).forEach((jwk: any) => {
+    if (jwk.use && jwk.use !== 'sig') {
+      return;
+    }
+
+    keys[jwk.kid || ''] = crypto
+      .createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  });
+
+  jwksCache.set(jwksURI, keys);
+  return keys[kid];
+};
+
+/*
+    id_token의 서명, issuer, audience, 만료, nonce를 검증
+    @returns ExternalIdentity => id_token의 claim에서 꺼낸 식별 정보
+*/
+const verifyIdToken = async (
+  provider: OAuthProvider,
+  endpoints: ProviderEndpoints,
+  idToken: string,
+  nonce: string
+): Promise<ExternalIdentity> => {
+  try {
+    const decoded = jwt.decode(idToken, { complete: true });
+    const signingKey = await getSigningKey(
+      endpoints.jwksURI as string,
+      decoded?.header.kid
+    );
+
+    if (!signingKey) {
+      throw new Error('signing key not found');
+    }
+
+    const claims = jwt.verify(idToken, signingKey, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: endpoints.issuer,
+      audience: provider.clientId,
+    }) as jwt.JwtPayload;
+
+    if (claims.nonce !== nonce) {
+      throw new Error('nonce mismatch');
+    }
+
+    return {
+      subject: claims.sub as string,
+      email: claims.email,
+      emailVerified:
+        !!claims.email &&
+        (claims.email_verified === true ||
+          claims.email_verified === 'true' ||
+          provider.trustsEmail),
+      nickname: claims.nickname || claims.name,
+    };
+  } catch (error) {
+    // jwks 조회 실패(provider 장애)는 그대로 던짐
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    throw new AppError('OAUTH_ID_TOKEN_INVALID', { cause: error });
+  }
+};
+
+/*
+    provider의 인가 페이지 주소를 만들고 state, nonce, PKCE code_verifier를 저장
+    @param {string} providerName => provider 이름
+    @param {OAuthPurpose} purpose => 로그인인지 기존 계정에 연결하는지
+    @param {string} userId => 연결할 사용자 아이디(이메일), purpose가 link일 때만 사용
+    @returns Promise<string> => 프론트엔드가 이동할 인가 페이지 주소
+*/
+export const createAuthorizationURL = async (
+  providerName: string,
+  purpose: OAuthPurpose,
+  userId?: string
+): Promise<string> => {
+  const provider = getProvider(providerName);
+  const endpoints = await getEndpoints(provider);
+  const state = createRandomString();
+  const nonce = createRandomString();
+  const codeVerifier = createRandomString();
+
+  await knex('oauth_state')
+    .delete()
+    .where('expires_at', '<=', getCurrentDate());
+  await knex('oauth_state').insert({
+    state_hash: hashState(state),
+    provider: provider.name,
+    purpose,
+    user_id: userId || null,
+    nonce,
+    code_verifier: codeVerifier,
+    expires_at: dayjs()
+      .add(OAUTH_STATE_EXPIRES_IN_MINUTES, 'm')
+      .format('YYYY-MM-DD HH:mm:ss'),
+  });
+
+  const authorizationURL = new URL(endpoints.authorizationEndpoint);
+  const params: { [key: string]: string } = {
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: provider.redirectURI,
+    state,
+    code_challenge: crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url'),
+    code_challenge_method: 'S256',
+    ...(!!provider.scope && { scope: provider.scope }),
+    ...(!!provider.issuer && { nonce }),
+  };
+
+  Object.entries(params).forEach(([key, value]) => {
+    authorizationURL.searchParams.set(key, value);
+  });
+
+  return authorizationURL.toString();
+};
+
+/*
+    callback으로 돌아온 state를 한 번만 사용할 수 있도록 삭제하면서 조회
+    @returns 인가 요청 시 저장한 purpose, userId, nonce, codeVerifier
+*/
+export const consumeAuthorizationState = async (
+  providerName: string,
+  state: string
+): Promise<{
+  purpose: OAuthPurpose;
+  userId: string | null;
+  nonce: string;
+  codeVerifier: string;
+}> => {
+  const stateHash = hashState(state);
+
+  return knex.transaction(async (trx) => {
+    const savedState:
+      | {
+          purpose: OAuthPurpose;
+          userId: string | null;
+          nonce: string;
+          codeVerifier: string;
+          expiresAt: string;
+        }
+      | undefined = await trx('oauth_state')
+      .select(
+        'purpose',
+        'user_id as userId',
+        'nonce',
+        'code_verifier as codeVerifier',
+        'expires_at as expiresAt'
+      )
+      .where({ state_hash: stateHash, provider: providerName })
+      .first();
+
+    const deletedCount: number = await trx('oauth_state')
+      .delete()
+      .where({ state_hash: stateHash });
+
+    if (
+      !savedState ||
+      !deletedCount ||
+      !dayjs().isBefore(dayjs(savedState.expiresAt))
+    ) {
+      throw new AppError('OAUTH_STATE_INVALID');
+    }
+
+    const { expiresAt, ...authorizationState } = savedState;
+    return authorizationState;
+  });
+};
+
+/*
+    인가 코드를 token endpoint에서 교환하고 외부 계정의 식별 정보를 가져옴
+    OIDC provider는 id_token을 검증하고 그 외에는 userinfo endpoint를 조회
+    @param {string} providerName => provider 이름
+    @param {string} code => callback으로 받은 인가 코드
+    @param {string} nonce => 인가 요청 시 저장한 nonce
+    @param {string} codeVerifier => 인가 요청 시 저장한 PKCE code_verifier
+*/
+export const fetchExternalIdentity = async (
+  providerName: string,
+  code: string,
+  { nonce, codeVerifier }: { nonce: string; codeVerifier: string }
+): Promise<ExternalIdentity> => {
+  const provider = getProvider(providerName);
+  const endpoints = await getEndpoints(provider);
+
+  const tokenResponse: { access_token?: string; id_token?: string } =
+    await requestProvider(
+      {
+        url: endpoints.tokenEndpoint,
+        method: 'post',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        data: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: provider.redirectURI,
+          client_id: provider.clientId,
+          client_secret: provider.clientSecret,
+          code_verifier: codeVerifier,
+        }).toString(),
+      },
+      'OAUTH_CODE_INVALID'
+    );
+
+  if (!!provider.issuer && !!tokenResponse.id_token) {
+    return verifyIdToken(provider, endpoints, tokenResponse.id_token, nonce);
+  }
+
+  if (!endpoints.userInfoEndpoint || !tokenResponse.access_token) {
+    throw new AppError('OAUTH_CODE_INVALID');
+  }
+
+  const data = await requestProvider(
+    {
+      url: endpoints.userInfoEndpoint,
+      method: 'get',
+      headers: { Authorization: `Bearer ${tokenResponse.access_token}` },
+    },
+    'OAUTH_CODE_INVALID'
+  );
+  const identity: ExternalIdentity = !!provider.parseUserInfo
+    ? provider.parseUserInfo(data)
+    : {
+        subject: data.sub,
+        email: data.email,
+        emailVerified:
+          !!data.email &&
+          (data.email_verified === true || provider.trustsEmail),
+        nickname: data.nickname || data.name,
+      };
+
+  if (!identity.subject) {
+    throw new AppError('OAUTH_CODE_INVALID');
+  }
+
+  return { ...identity, subject: String(identity.subject) };
+};
+
+/*
+    외부 계정이 연결된 사용자 아이디(이메일)를 찾음
+*/
+export const findLinkedUserId = async (
+  provider: string,
+  subject: string
+): Promise<string | undefined> => {
+  const identity: { userId: string } | undefined = await knex('user_identity')
+    .select('user_id as userId')
+    .where({ provider, subject })
+    .first();
+
+  return identity?.userId;
+};
+
+export const getLinkedIdentities = (
+  userId: string
+): Promise<{ provider: string; email: string | null; linkedAt: string }[]> => {
+  return knex('user_identity')
+    .select('provider', 'email', 'linked_at as linkedAt')
+    .where({ user_id: userId })
+    .orderBy('linked_at');
+};
+
+/*
+    외부 계정을 사용자에게 연결
+    이미 다른 사용자에게 연결된 외부 계정이거나 같은 provider가 이미 연결되어 있으면 에러
+*/
+export const linkIdentity = async (
+  userId: string,
+  provider: string,
+  identity: ExternalIdentity,
+  trx: Knex | Knex.Transaction = knex
+): Promise<void> => {
+  const linkedIdentity = await trx('user_identity')
+    .select('user_id')
+    .where({ provider, subject: identity.subject })
+    .first();
+
+  if (!!linkedIdentity) {
+    throw new AppError('OAUTH_IDENTITY_ALREADY_LINKED');
+  }
+
+  try {
+    await trx('user_identity').insert({
+      provider,
+      subject: identity.subject,
+      user_id: userId,
+      email: identity.email || null,
+      linked_at: getCurrentDate(),
+    });
+  } catch (error) {
+    if (dialect.isUniqueViolation(error)) {
+      throw new AppError('OAUTH_IDENTITY_ALREADY_LINKED', { cause: error });
+    }
+
+    throw error;
+  }
+};
+
+/*
+    외부 계정 연결을 해제
+    비밀번호가 없는 계정은 마지막 로그인 수단을 해제할 수 없음
+*/
+export const unlinkIdentity = async (
+  userId: string,
+  provider: string
+): Promise<void> => {
+  const [user, identities]: [
+    { hasPassword: number } | undefined,
+    { provider: string }[]
+  ] = await Promise.all([
+    knex('user')
+      .select('has_password as hasPassword')
+      .where({ id: userId })
+      .first(),
+    knex('user_identity').select('provider').where({ user_id: userId }),
+  ]);
+
+  if (!identities.some((identity) => identity.provider === provider)) {
+    throw new NotFoundError('OAUTH_IDENTITY_NOT_FOUND');
+  }
+
+  if (!user?.hasPassword && identities.length <= 1) {
+    throw new AppError('OAUTH_LAST_LOGIN_METHOD');
+  }
+
+  await knex('user_identity').delete().where({ user_id: userId, provider });
+};
+
+/*
+    닉네임이 겹치지 않도록 뒤에 숫자를 붙여서 사용할 수 있는 닉네임을 찾음
+*/
+const createAvailableNickname = async (base: string): Promise<string> => {
+  const trimmedBase: string = base.trim();
+  const nickname: string =
+    trimmedBase.length >= MIN_NICKNAME_LENGTH
+      ? trimmedBase.slice(0, MAX_NICKNAME_LENGTH - NICKNAME_SUFFIX_LENGTH)
+      : 'user';
+
+  for (let i: number = 0; i < 5; i++) {
+    const candidate =
+      i === 0 ? nickname : `${nickname}${crypto.randomInt(1000, 10000)}`;
+    const user = await knex('user')
+      .select('id')
+      .where({ nickname: candidate })
+      .first();
+
+    if (!user) {
+      return candidate;
+    }
+  }
+
+  return `${nickname}${crypto.randomBytes(2).toString('hex')}`;
+};
+
+/*
+    외부 계정의 이메일로 새 사용자를 만들고 외부 계정을 연결
+    비밀번호는 임의의 값으로 채우고 has_password를 0으로 저장 (비밀번호 재설정으로 설정 가능)
+    @returns Promise<string> => 새 사용자 아이디(이메일)
+*/
+export const createUserFromIdentity = async (
+  provider: string,
+  identity: ExternalIdentity
+): Promise<string> => {
+  const id = identity.email as string;
+  const nickname = await createAvailableNickname(
+    identity.nickname || id.split('@')[0]
+  );
+  const password = await hashPassword(createRandomString());
+
+  try {
+    await knex.transaction(async (trx) => {
+      await trx('user').insert({ id, nickname, password, has_password: 0 });
+      await linkIdentity(id, provider, identity, trx);
+    });
+  } catch (error) {
+    if (dialect.isUniqueViolation(error)) {
+      throw new AppError('OAUTH_ACCOUNT_EXISTS', { cause: error });
+    }
+
+    throw error;
+  }
+
+  return id;
+};
@@ -0,0 +1,101 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export interface ExternalIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  nickname?: string;
+}
+
+export interface OAuthProvider {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  redirectURI: string;
+  scope: string;
+  // OIDC provider면 issuer의 discovery 문서에서 endpoint와 jwks를 찾고 id_token을 검증
+  issuer?: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  userInfoEndpoint?: string;
+  // 가입 시 이메일 인증을 거치는 provider라 email_verified claim이 없어도 인증된 이메일로 봄
+  trustsEmail: boolean;
+  // OIDC가 아닌 provider의 userinfo 응답에서 식별 정보를 꺼냄
+  parseUserInfo?: (data: any) => ExternalIdentity;
+}
+
+type ProviderDefaults = Partial<Omit<OAuthProvider, 'name'>>;
+
+const PROVIDER_DEFAULTS: { [name: string]: ProviderDefaults } = {
+  google: {
+    issuer: 'https://accounts.google.com',
+    scope: 'openid email profile',
+  },
+  kakao: {
+    issuer: 'https://kauth.kakao.com',
+    scope: 'openid account_email profile_nickname',
+    trustsEmail: true,
+  },
+  naver: {
+    authorizationEndpoint: 'https://nid.naver.com/oauth2.0/authorize',
+    tokenEndpoint: 'https://nid.naver.com/oauth2.0/token',
+    userInfoEndpoint: 'https://openapi.naver.com/v1/nid/me',
+    scope: '',
+    trustsEmail: true,
+    parseUserInfo: ({ response }) => {
+      return {
+        subject: response?.id,
+        email: response?.email,
+        emailVerified: !!response?.email,
+        nickname: response?.nickname,
+      };
+    },
+  },
+};
+
+/*
+    OAUTH_PROVIDERS(쉼표로 구분)에 적힌 provider의 설정을 환경변수에서 읽음
+    OAUTH_<NAME>_CLIENT_ID, _CLIENT_SECRET, _REDIRECT_URI는 필수
+    _ISSUER, _SCOPE 등을 주면 기본값 대신 사용 (로컬 mock OIDC provider로 테스트할 때 사용)
+*/
+const loadProviders = (): Map<string, OAuthProvider> => {
+  const names: string[] = (process.env.OAUTH_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const providers = new Map<string, OAuthProvider>();
+
+  names.forEach((name) => {
+    const prefix = `OAUTH_${name.toUpperCase()}_`;
+    const env = (key: string): string | undefined => {
+      return process.env[`${prefix}${key}`] || undefined;
+    };
+    const defaults: ProviderDefaults = PROVIDER_DEFAULTS[name] || {};
+    const clientId = env('CLIENT_ID');
+    const redirectURI = env('REDIRECT_URI');
+
+    if (!clientId || !redirectURI) {
+      return;
+    }
+
+    providers.set(name, {
+      ...defaults,
+      name,
+      clientId,
+      clientSecret: env('CLIENT_SECRET') || '',
+      redirectURI,
+      scope: env('SCOPE') ?? defaults.scope ?? 'openid email profile',
+      issuer: env('ISSUER') || defaults.issuer,
+      authorizationEndpoint:
+        env('AUTHORIZATION_ENDPOINT') || defaults.authorizationEndpoint,
+      tokenEndpoint: env('TOKEN_ENDPOINT') || defaults.tokenEndpoint,
+      userInfoEndpoint: env('USERINFO_ENDPOINT') || defaults.userInfoEndpoint,
+      trustsEmail: defaults.trustsEmail ?? false,
+    });
+  });
+
+  return providers;
+};
+
+export const OAUTH_PROVIDERS: Map<string, OAuthProvider> = loadProviders();
@@ -0,0 +1,25 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+dotenv.config();
+
+// 기본 목록 (OWASP SecLists top 10000), PASSWORD_BLOCKLIST_FILE로 같은 형식의 다른 파일을 사용할 수 있음
+const DEFAULT_BLOCKLIST_FILE = path.join(__dirname, 'common-passwords.txt');
+
+/*
+    한 줄에 비밀번호 하나씩 적힌 파일을 읽어서 소문자로 모음
+    빈 줄과 #으로 시작하는 줄(주석)은 무시
+    @param {string} file => 비밀번호 목록 파일 경로
+    @returns Set<string> => 사용할 수 없는 비밀번호 (소문자)
+*/
+export const loadCommonPasswords = (
+  file: string = process.env.PASSWORD_BLOCKLIST_FILE || DEFAULT_BLOCKLIST_FILE
+): Set<string> => {
+  const passwords: string[] = fs
+    .readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => !!line && !line.startsWith('#'));
+
+  return new Set<string>(passwords);
+};
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const ALGORITHM = 'scrypt';
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface ParsedHash {
+  params: { N: number; r: number; p: number };
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/*
+    기존에 사용하던 salt 없는 sha256 해시 (base64)
+    @param {string} password => 해싱할 비밀번호
+    @returns string => base64 형태의 sha256 digest
+*/
+const legacyHash = (password: string = ''): string => {
+  return crypto.createHash('sha256').update(password).digest('base64');
+};
+
+/*
+    저장된 해시 문자열을 알고리즘, 파라미터, salt, hash로 분리
+    형식: scrypt$N=16384,r=8,p=1$<salt(base64)>$<hash(base64)>
+    @param {string} stored => DB에 저장된 해시 문자열
+    @returns ParsedHash | null => 형식에 맞지 않으면 null
+*/
+const parseHash = (stored: string): ParsedHash | null => {
+  const [algorithm, rawParams, salt, hash] = stored.split('$');
+
+  if (algorithm !== ALGORITHM || !rawParams || !salt || !hash) {
+    return null;
+  }
+
+  const params = rawParams.split(',').reduce((params, pair) => {
+    const [key, value] = pair.split('=');
+    params[key] = Number(value);
+    return params;
+  }, {} as { [key: string]: number });
+
+  if (![params.N, params.r, params.p].every(Number.isInteger)) {
+    return null;
+  }
+
+  return {
+    params: { N: params.N, r: params.r, p: params.p },
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+};
+
+/*
+    해당 해시가 salt 없는 sha256 형식인지 검사
+    @param {string} stored => DB에 저장된 해시 문자열
+    @returns boolean => 이전 형식이면 true 아니면 false
+*/
+export const isLegacyHash = (stored: string = ''): boolean => {
+  return !stored.startsWith(`${ALGORITHM}$`);
+};
+
+/*
+    비밀번호를 salt가 포함된 scrypt 해시 문자열로 변환
+    @param {string} password => 해싱할 비밀번호
+    @returns Promise<string> => 알고리즘과 파라미터가 기록된 해시 문자열
+*/
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return [
+    ALGORITHM,
+    `N=${N},r=${r},p=${p}`,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+};
+
+/*
+    비밀번호가 저장된 해시와 일치하는지 검사 (이전 sha256 형식 포함)
+    @param {string} password => 사용자가 입력한 비밀번호
+    @param {string} stored => DB에 저장된 해시 문자열
+    @returns Promise<boolean> => 일치하면 true 아니면 false
+*/
+export const verifyPassword = async (
+  password: string,
+  stored: string = ''
+): Promise<boolean> => {
+  if (!stored) {
+    return false;
+  }
+
+  if (isLegacyHash(stored)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(legacyHash(password));
+
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  const parsed = parseHash(stored);
+
+  if (!parsed) {
+    return false;
+  }
+
+  const hash = await scrypt(password, parsed.salt, parsed.hash.length, {
+    ...parsed.params,
+    maxmem: 128 * parsed.params.N * parsed.params.r * 2,
+  });
+
+  return crypto.timingSafeEqual(hash, parsed.hash);
+};
+
+/*
+    저장된 해시를 현재 알고리즘, 파라미터로 다시 해싱해야 하는지 검사
+    @param {string} stored => DB에 저장된 해시 문자열
+    @returns boolean => 다시 해싱이 필요하면 true 아니면 false
+*/
+export const needsRehash = (stored: string = ''): boolean => {
+  const parsed = parseHash(stored);
+
+  if (!parsed) {
+    return true;
+  }
+
+  const { N, r, p } = parsed.params;
+
+  return (
+    N !== SCRYPT_PARAMS.N ||
+    r !== SCRYPT_PARAMS.r ||
+    p !== SCRYPT_PARAMS.p ||
+    parsed.hash.length !== KEY_LENGTH
+  );
+};
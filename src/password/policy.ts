@@ -0,0 +1,132 @@
+import { Response } from 'express';
+import { ValidationError } from '../error';
+import { MessageKey, MessageParams, translateFor } from '../i18n';
+import { ValidationIssue } from '../validation';
+import { loadCommonPasswords } from './common-passwords';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const parseInteger = (value: string | undefined, defaultValue: number) => {
+  const parsedValue = parseInt(value || '');
+  return Number.isInteger(parsedValue) ? parsedValue : defaultValue;
+};
+
+export const PASSWORD_POLICY = {
+  minLength: parseInteger(process.env.PASSWORD_MIN_LENGTH, 8),
+  maxLength: parseInteger(process.env.PASSWORD_MAX_LENGTH, 128),
+  // 영문 소문자, 대문자, 숫자, 특수문자 중 포함해야 하는 종류 수
+  minCharacterClasses: parseInteger(
+    process.env.PASSWORD_MIN_CHARACTER_CLASSES,
+    3
+  ),
+  // 아이디, 닉네임을 비교할 때 무시하는 짧은 길이
+  minPersonalInfoLength: 3,
+};
+
+const CHARACTER_CLASSES: RegExp[] = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+const commonPasswords: Set<string> = loadCommonPasswords();
+
+interface PasswordViolation {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+interface PasswordContext {
+  email?: string;
+  nickname?: string;
+}
+
+const containsPersonalInfo = (password: string, value: string = '') => {
+  const normalizedValue = value.trim().toLowerCase();
+
+  return (
+    normalizedValue.length >= PASSWORD_POLICY.minPersonalInfoLength &&
+    password.toLowerCase().includes(normalizedValue)
+  );
+};
+
+/*
+    비밀번호 정책에 어긋나는 항목을 모두 찾아 리턴
+    @param {string} password => 검사할 비밀번호
+    @param {PasswordContext} context => 비밀번호에 포함되면 안 되는 사용자 정보 (이메일, 닉네임)
+    @returns PasswordViolation[] => 어긋난 항목의 메세지 key와 params
+*/
+export const checkPasswordPolicy = (
+  password: string,
+  { email, nickname }: PasswordContext = {}
+): PasswordViolation[] => {
+  const violations: PasswordViolation[] = [];
+  const characterClassCount: number = CHARACTER_CLASSES.filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  if (password.length < PASSWORD_POLICY.minLength) {
+    violations.push({
+      key: 'VALIDATION_PASSWORD_TOO_SHORT',
+      params: { minimum: PASSWORD_POLICY.minLength },
+    });
+  }
+
+  if (password.length > PASSWORD_POLICY.maxLength) {
+    violations.push({
+      key: 'VALIDATION_PASSWORD_TOO_LONG',
+      params: { maximum: PASSWORD_POLICY.maxLength },
+    });
+  }
+
+  if (characterClassCount < PASSWORD_POLICY.minCharacterClasses) {
+    violations.push({
+      key: 'VALIDATION_PASSWORD_CHARACTER_CLASSES',
+      params: { minimum: PASSWORD_POLICY.minCharacterClasses },
+    });
+  }
+
+  if (containsPersonalInfo(password, email?.split('@')[0])) {
+    violations.push({ key: 'VALIDATION_PASSWORD_CONTAINS_EMAIL' });
+  }
+
+  if (containsPersonalInfo(password, nickname)) {
+    violations.push({ key: 'VALIDATION_PASSWORD_CONTAINS_NICKNAME' });
+  }
+
+  if (commonPasswords.has(password.toLowerCase())) {
+    violations.push({ key: 'VALIDATION_PASSWORD_COMMON' });
+  }
+
+  return violations;
+};
+
+/*
+    비밀번호가 정책에 어긋나면 validate와 같은 형식의 ValidationError를 던짐
+    비밀번호를 설정하는 모든 라우터에서 hashPassword 전에 호출
+    @param {Response} res => 메세지를 번역할 locale을 담은 response
+    @param {string} password => 검사할 비밀번호
+    @param {PasswordContext} context => 비밀번호에 포함되면 안 되는 사용자 정보
+    @param {string} field => details에 담을 body의 field 이름
+*/
+export const assertPasswordPolicy = (
+  res: Response,
+  password: string,
+  context: PasswordContext = {},
+  field: string = 'password'
+) => {
+  const violations: PasswordViolation[] = checkPasswordPolicy(
+    password,
+    context
+  );
+
+  if (!violations.length) {
+    return;
+  }
+
+  const errors: ValidationIssue[] = violations.map(({ key, params }) => {
+    return {
+      location: 'body',
+      field,
+      message: translateFor(res, key, params),
+    };
+  });
+
+  throw new ValidationError(errors);
+};
@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from 'express';
+import { asyncHandler, RateLimitError } from '../error';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number;
+}
+
+/*
+    rate limit 카운터 저장소
+    기본은 메모리 저장소이며 여러 서버에서 공유해야 하면 같은 interface로 Redis 등을 구현해 setRateLimitStore로 교체
+*/
+export interface RateLimitStore {
+  increment: (key: string, windowMs: number) => Promise<RateLimitHit>;
+  get: (key: string) => Promise<RateLimitHit | undefined>;
+  reset: (key: string) => Promise<void>;
+}
+
+/*
+    프로세스 메모리에 카운터를 저장하는 store
+    만료된 key는 조회 시와 주기적으로 정리
+    @param {number} cleanupIntervalMs => 만료된 key를 정리하는 주기
+*/
+export const createMemoryStore = (
+  cleanupIntervalMs: number = 60 * 1000
+): RateLimitStore => {
+  const hits = new Map<string, RateLimitHit>();
+
+  const getActiveHit = (key: string): RateLimitHit | undefined => {
+    const hit = hits.get(key);
+
+    if (!!hit && hit.resetAt <= Date.now()) {
+      hits.delete(key);
+      return;
+    }
+
+    return hit;
+  };
+
+  setInterval(() => {
+    const now = Date.now();
+
+    hits.forEach((hit, key) => {
+      if (hit.resetAt <= now) {
+        hits.delete(key);
+      }
+    });
+  }, cleanupIntervalMs).unref();
+
+  return {
+    increment: async (key, windowMs) => {
+      const hit: RateLimitHit = getActiveHit(key) || {
+        count: 0,
+        resetAt: Date.now() + windowMs,
+      };
+
+      hit.count++;
+      hits.set(key, hit);
+
+      return { ...hit };
+    },
+    get: async (key) => {
+      const hit = getActiveHit(key);
+
+      return !!hit ? { ...hit } : undefined;
+    },
+    reset: async (key) => {
+      hits.delete(key);
+    },
+  };
+};
+
+let store: RateLimitStore = createMemoryStore();
+
+export const setRateLimitStore = (newStore: RateLimitStore) => {
+  store = newStore;
+};
+
+const getRetryAfter = (resetAt: number): number => {
+  return Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1);
+};
+
+type RateLimitKey = (req: Request, res: Response) => string | undefined;
+
+export const ipKey: RateLimitKey = (req) => req.ip;
+
+// verifyAccessToken 뒤에 사용하며 로그인한 사용자 단위로 카운트
+export const accountKey: RateLimitKey = (req, res) => res.locals.email;
+
+/*
+    req.body의 field 값으로 계정 단위 key를 만듦
+    validate 뒤에 사용해야 정규화된 값으로 카운트됨
+    @param {string} field => key로 사용할 body의 field
+*/
+export const bodyKey = (field: string): RateLimitKey => {
+  return (req) => {
+    const value = req.body?.[field];
+
+    return typeof value === 'string' && !!value
+      ? value.toLowerCase()
+      : undefined;
+  };
+};
+
+/*
+    windowMs 동안 key별 요청 수가 max를 넘으면 429(Retry-After)로 응답하는 미들웨어
+    @param {string} name => store에서 다른 limiter와 key가 겹치지 않게 붙이는 이름
+    @param {number} windowMs => 카운트를 유지하는 시간
+    @param {number} max => window 안에서 허용하는 요청 수
+    @param {RateLimitKey} key => 요청을 구분할 key (ipKey, bodyKey 등)
+*/
+export const rateLimit = ({
+  name,
+  windowMs,
+  max,
+  key,
+}: {
+  name: string;
+  windowMs: number;
+  max: number;
+  key: RateLimitKey;
+}) => {
+  return asyncHandler(
+    async (req: Request, res: Response, next: NextFunction) => {
+      const value = key(req, res);
+
+      if (!value) {
+        return next();
+      }
+
+      const { count, resetAt } = await store.increment(
+        `${name}:${value}`,
+        windowMs
+      );
+
+      if (count > max) {
+        throw new RateLimitError(getRetryAfter(resetAt));
+      }
+
+      next();
+    }
+  );
+};
+
+/*
+    로그인 실패 횟수를 세고 maxFailures번 실패하면 lockMs 동안 계정을 잠그는 limiter
+    @param {string} name => store key 접두사
+    @param {number} maxFailures => 잠금까지 허용하는 연속 실패 횟수
+    @param {number} windowMs => 실패 횟수를 유지하는 시간
+    @param {number} lockMs => 계정을 잠그는 시간
+*/
+export const createLoginLock = ({
+  name,
+  maxFailures,
+  windowMs,
+  lockMs,
+}: {
+  name: string;
+  maxFailures: number;
+  windowMs: number;
+  lockMs: number;
+}) => {
+  const failureKey = (account: string) =>
+    `${name}:failure:${account.toLowerCase()}`;
+  const lockKey = (account: string) => `${name}:lock:${account.toLowerCase()}`;
+
+  return {
+    check: async (account: string) => {
+      const lock = await store.get(lockKey(account));
+
+      if (!!lock) {
+        throw new RateLimitError(
+          getRetryAfter(lock.resetAt),
+          'AUTH_ACCOUNT_LOCKED'
+        );
+      }
+    },
+    fail: async (account: string) => {
+      const { count } = await store.increment(failureKey(account), windowMs);
+
+      if (count >= maxFailures) {
+        await store.reset(failureKey(account));
+        await store.increment(lockKey(account), lockMs);
+      }
+    },
+    succeed: async (account: string) => {
+      await store.reset(failureKey(account));
+    },
+  };
+};
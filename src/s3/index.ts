@@ -32,11 +32,12 @@ const s3Controller = {
       throw new Error('s3 에러');
     }
   },
-  uploadFile: (fileBuffer: Buffer, fileKey: string) => {
+  uploadFile: (fileBuffer: Buffer, fileKey: string, contentType?: string) => {
     const params = {
       Bucket: S3_BUCKET_NAME,
       Key: fileKey,
       Body: fileBuffer,
+      ...(!!contentType && { ContentType: contentType }),
     };
 
     return s3.upload(params).promise();
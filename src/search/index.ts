@@ -0,0 +1,333 @@
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import 'dayjs/locale/ko';
+import knex from '../db';
+import dialect, { FullTextColumn } from '../db/dialect';
+dayjs.extend(relativeTime);
+dayjs.locale('ko');
+
+export const SEARCH_PAGE_LIMIT = 10;
+const SNIPPET_LENGTH = 120;
+// 첫 번째 일치 위치 앞에 보여줄 글자 수
+const SNIPPET_LEADING_LENGTH = 30;
+const HIGHLIGHT_TAG = 'mark';
+
+export const SEARCH_TYPE = {
+  POST: 'post',
+  JOB_POSTING: 'jobPosting',
+  SENIER_PROJECT: 'senierProject',
+} as const;
+
+export type SearchType = (typeof SEARCH_TYPE)[keyof typeof SEARCH_TYPE];
+
+export interface PostSearchResult {
+  id: number;
+  categoryId: number;
+  userNickname: string;
+  title: string;
+  score: number;
+  highlightedTitle: string;
+  snippet: string;
+  fromNowWhileAgoPosted: string;
+}
+
+export interface JobPostingSearchResult {
+  id: string;
+  companyName: string;
+  title: string;
+  position: string;
+  deadline: string;
+  score: number;
+  highlightedTitle: string;
+  snippet: string;
+}
+
+export interface SenierProjectSearchResult {
+  id: string;
+  year: string;
+  groupName: string;
+  score: number;
+  teamMember: string;
+  snippet: string;
+}
+
+// 검색 종류별 결과 타입
+export interface SearchResultMap {
+  [SEARCH_TYPE.POST]: PostSearchResult;
+  [SEARCH_TYPE.JOB_POSTING]: JobPostingSearchResult;
+  [SEARCH_TYPE.SENIER_PROJECT]: SenierProjectSearchResult;
+}
+
+const HTML_ESCAPE_MAP: { [character: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHTML = (value: string): string => {
+  return value.replace(/[&<>"']/g, (character) => HTML_ESCAPE_MAP[character]);
+};
+
+const escapeRegExp = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+/*
+    검색어를 NFC로 정규화한 뒤 공백 단위로 나눔
+    입력기에 따라 한글이 자모 단위(NFD)로 들어오면 저장된 글과 일치하지 않으므로 정규화가 필요
+    @param {string} keyword => 사용자가 입력한 검색어
+    @returns string[] => 중복을 제거한 검색어 목록
+*/
+export const splitKeyword = (keyword: string): string[] => {
+  return [
+    ...new Set(
+      keyword.normalize('NFC').toLowerCase().split(/\s+/).filter(Boolean)
+    ),
+  ];
+};
+
+/*
+    본문에서 검색어가 처음 나오는 부분을 잘라 검색어를 <mark>로 감싼 snippet을 만듦
+    snippet은 HTML로 보여주므로 본문은 escape 처리
+    @param {string} text => 본문
+    @param {string[]} terms => splitKeyword로 나눈 검색어
+*/
+export const createSnippet = (text: string = '', terms: string[]): string => {
+  const normalizedText: string = text.normalize('NFC').replace(/\s+/g, ' ');
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const firstMatchIndex: number = normalizedText.search(pattern);
+  const start: number =
+    firstMatchIndex > SNIPPET_LEADING_LENGTH
+      ? firstMatchIndex - SNIPPET_LEADING_LENGTH
+      : 0;
+  const snippet: string = normalizedText.slice(start, start + SNIPPET_LENGTH);
+  let highlighted = '';
+  let lastIndex = 0;
+
+  for (const match of snippet.matchAll(pattern)) {
+    const index = match.index as number;
+
+    highlighted += `${escapeHTML(
+      snippet.slice(lastIndex, index)
+    )}<${HIGHLIGHT_TAG}>${escapeHTML(match[0])}</${HIGHLIGHT_TAG}>`;
+    lastIndex = index + match[0].length;
+  }
+  highlighted += escapeHTML(snippet.slice(lastIndex));
+
+  return `${start > 0 ? '…' : ''}${highlighted}${
+    start + SNIPPET_LENGTH < normalizedText.length ? '…' : ''
+  }`;
+};
+
+/*
+    score가 가장 높은 컬럼의 값으로 snippet을 만들기 위해 검색어가 포함된 첫 번째 값을 찾음
+    @param {string[]} values => 가중치가 높은 순서의 컬럼 값
+*/
+const findMatchedText = (values: string[], terms: string[]): string => {
+  return (
+    values.find((value) => {
+      const normalizedValue = (value || '').normalize('NFC').toLowerCase();
+      return terms.some((term) => normalizedValue.includes(term));
+    }) ||
+    values[values.length - 1] ||
+    ''
+  );
+};
+
+const scoreSelect = (columns: FullTextColumn[], terms: string[]) => {
+  return knex.raw('? as ??', [dialect.fullTextScore(columns, terms), 'score']);
+};
+
+const whereScore = (columns: FullTextColumn[], terms: string[]) => {
+  return knex.raw('? > 0', [dialect.fullTextScore(columns, terms)]);
+};
+
+const POST_COLUMNS: FullTextColumn[] = [
+  { column: 'board_content.title', weight: 2 },
+  { column: 'board_content.content', weight: 1 },
+];
+
+/*
+    커뮤니티 게시글의 제목과 본문을 검색
+    @param {string[]} terms => splitKeyword로 나눈 검색어
+    @param {number} offset => 건너뛸 결과 수
+*/
+export const searchPosts = async (
+  terms: string[],
+  offset: number
+): Promise<PostSearchResult[]> => {
+  const posts: {
+    id: number;
+    categoryId: number;
+    userNickname: string;
+    title: string;
+    content: string;
+    uploadedAt: string;
+    score: number;
+  }[] = await knex('board_content')
+    .select(
+      'board_content.id as id',
+      'board_content.category_id as categoryId',
+      'user.nickname as userNickname',
+      'board_content.title as title',
+      'board_content.content as content',
+      'board_content.uploaded_at as uploadedAt',
+      scoreSelect(POST_COLUMNS, terms)
+    )
+    .leftJoin('user', 'user.id', 'board_content.user_id')
+    .where({ 'board_content.is_deleted': false })
+    .andWhere(whereScore(POST_COLUMNS, terms))
+    .orderBy('score', 'desc')
+    .orderBy('board_content.uploaded_at', 'desc')
+    .limit(SEARCH_PAGE_LIMIT)
+    .offset(offset);
+
+  return posts.map(({ content, uploadedAt, score, ...post }) => {
+    return {
+      ...post,
+      score: Number(score),
+      highlightedTitle: createSnippet(post.title, terms),
+      snippet: createSnippet(content, terms),
+      fromNowWhileAgoPosted: dayjs(uploadedAt).fromNow(),
+    };
+  });
+};
+
+const JOB_POSTING_COLUMNS: FullTextColumn[] = [
+  { column: 'job_posting.title', weight: 2 },
+  { column: 'job_posting.company_name', weight: 2 },
+  { column: 'job_posting.content', weight: 1 },
+];
+
+/*
+    마감되지 않은 채용공고의 제목, 회사명, 본문을 검색
+*/
+export const searchJobPostings = async (
+  terms: string[],
+  offset: number
+): Promise<JobPostingSearchResult[]> => {
+  const jobPostings: {
+    id: string;
+    companyName: string;
+    title: string;
+    content: string;
+    position: string;
+    deadline: string;
+    score: number;
+  }[] = await knex('job_posting')
+    .select(
+      'job_posting.id as id',
+      'job_posting.company_name as companyName',
+      'job_posting.title as title',
+      'job_posting.content as content',
+      'job_category.name as position',
+      'job_posting.deadline as deadline',
+      scoreSelect(JOB_POSTING_COLUMNS, terms)
+    )
+    .innerJoin('job_category', 'job_posting.field', 'job_category.id')
+    .where('job_posting.deadline', '>=', `${dayjs().format('YYYYMMDD')}`)
+    .andWhere({ 'job_posting.is_deleted': false })
+    .andWhere(whereScore(JOB_POSTING_COLUMNS, terms))
+    .orderBy('score', 'desc')
+    .orderBy('job_posting.deadline')
+    .limit(SEARCH_PAGE_LIMIT)
+    .offset(offset);
+
+  return jobPostings.map(({ content, score, ...jobPosting }) => {
+    return {
+      ...jobPosting,
+      score: Number(score),
+      highlightedTitle: createSnippet(jobPosting.title, terms),
+      snippet: createSnippet(
+        findMatchedText([jobPosting.companyName, content], terms),
+        terms
+      ),
+    };
+  });
+};
+
+const SENIER_PROJECT_COLUMNS: FullTextColumn[] = [
+  { column: 'senier_project.group_name', weight: 3 },
+];
+const TEAM_MEMBER_COLUMNS: FullTextColumn[] = [
+  { column: 'team_member.name', weight: 2 },
+  { column: 'team_member.introduction', weight: 1 },
+];
+
+/*
+    졸업작품의 조 이름과 팀원 이름, 자기소개를 검색
+    조 이름 score와 가장 많이 일치한 팀원의 score를 더해 작품 단위로 정렬
+*/
+export const searchSenierProjects = async (
+  terms: string[],
+  offset: number
+): Promise<SenierProjectSearchResult[]> => {
+  const memberScores = knex('team_member')
+    .select(
+      'team_member.id',
+      knex.raw('max(?) as ??', [
+        dialect.fullTextScore(TEAM_MEMBER_COLUMNS, terms),
+        'score',
+      ])
+    )
+    .groupBy('team_member.id')
+    .as('member_score');
+  const projectScore = knex.raw('? + coalesce(??, 0)', [
+    dialect.fullTextScore(SENIER_PROJECT_COLUMNS, terms),
+    'member_score.score',
+  ]);
+
+  const senierProjects: {
+    id: string;
+    year: string;
+    groupName: string;
+    className: string;
+    score: number;
+  }[] = await knex('senier_project')
+    .select(
+      'senier_project.id as id',
+      'senier_project.year as year',
+      'senier_project.group_name as groupName',
+      'class.name as className',
+      knex.raw('? as ??', [projectScore, 'score'])
+    )
+    .innerJoin('class', 'class.id', 'senier_project.class_id')
+    .leftJoin(memberScores, 'member_score.id', 'senier_project.id')
+    .where(knex.raw('? > 0', [projectScore]))
+    .orderBy('score', 'desc')
+    .orderBy('senier_project.year', 'desc')
+    .limit(SEARCH_PAGE_LIMIT)
+    .offset(offset);
+
+  const teamMembers: { id: string; name: string; introduction: string }[] =
+    await knex('team_member')
+      .select('id', 'name', 'introduction')
+      .whereIn(
+        'id',
+        senierProjects.map(({ id }) => id)
+      );
+
+  return senierProjects.map(({ className, score, ...senierProject }) => {
+    const members = teamMembers.filter(({ id }) => id === senierProject.id);
+
+    return {
+      ...senierProject,
+      groupName: `${className} ${senierProject.groupName}`,
+      score: Number(score),
+      teamMember: members.map(({ name }) => name).join(', '),
+      snippet: createSnippet(
+        findMatchedText(
+          [
+            senierProject.groupName,
+            ...members.map(({ name }) => name),
+            ...members.map(({ introduction }) => introduction),
+          ],
+          terms
+        ),
+        terms
+      ),
+    };
+  });
+};
@@ -0,0 +1,143 @@
+import { Request } from 'express';
+import dayjs from 'dayjs';
+import knex from '../db';
+import { generatedUniqueID } from '../utils';
+import { revokeTokenFamily } from '../token';
+import { NotFoundError } from '../error';
+
+const BROWSERS: [string, RegExp][] = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Samsung Internet', /SamsungBrowser\//],
+  ['Whale', /Whale\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /(Chrome|CriOS)\//],
+  ['Firefox', /(Firefox|FxiOS)\//],
+  ['Safari', /Safari\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ['Windows', /Windows/],
+  ['iOS', /iPhone|iPad|iPod/],
+  ['macOS', /Mac OS X/],
+  ['Android', /Android/],
+  ['Linux', /Linux/],
+];
+
+const getCurrentDate = (): string => {
+  return dayjs().format('YYYY-MM-DD HH:mm:ss');
+};
+
+const findName = (patterns: [string, RegExp][], userAgent: string) => {
+  return patterns.find(([, pattern]) => pattern.test(userAgent))?.[0];
+};
+
+/*
+    User-Agent에서 브라우저와 운영체제를 찾아 기기 이름을 만듦
+    @param {string} userAgent => User-Agent 헤더
+    @returns string => 예) Chrome on Windows, 알 수 없으면 Unknown
+*/
+export const describeDevice = (userAgent: string = ''): string => {
+  const browser = findName(BROWSERS, userAgent);
+  const os = findName(OPERATING_SYSTEMS, userAgent);
+
+  if (!browser && !os) {
+    return 'Unknown';
+  }
+
+  return [browser, os].filter(Boolean).join(' on ');
+};
+
+/*
+    로그인 시 기기 정보와 IP를 담은 세션을 생성
+    세션 id는 refresh token의 family id로 사용해 토큰 회전(rotation) 동안 유지됨
+    @param {string} userId => 사용자 아이디(이메일)
+    @param {Request} req => 기기 정보와 IP를 읽을 request
+    @returns Promise<string> => issueRefreshToken에 넘길 family id
+*/
+export const createSession = async (
+  userId: string,
+  req: Request
+): Promise<string> => {
+  const id: string = generatedUniqueID();
+  const userAgent: string = req.get('user-agent') || '';
+  const createdAt: string = getCurrentDate();
+
+  await knex('session').insert({
+    id,
+    user_id: userId,
+    device: describeDevice(userAgent),
+    user_agent: userAgent.slice(0, 255) || null,
+    ip: req.ip || null,
+    created_at: createdAt,
+    last_refreshed_at: createdAt,
+  });
+
+  return id;
+};
+
+/*
+    refresh token으로 토큰을 재발급할 때 마지막 사용 시간과 IP를 갱신
+    @param {string} id => 세션 id (refresh token의 family id)
+    @param {Request} req => IP를 읽을 request
+*/
+export const touchSession = (id: string, req: Request) => {
+  return knex('session')
+    .update({ last_refreshed_at: getCurrentDate(), ip: req.ip || null })
+    .where({ id });
+};
+
+/*
+    사용 가능한 refresh token이 남아있는 세션 목록
+    로그아웃, 폐기, 만료된 세션은 refresh token이 모두 사용 불가능하므로 제외됨
+    @param {string} userId => 사용자 아이디(이메일)
+*/
+export const getActiveSessions = (
+  userId: string
+): Promise<
+  {
+    id: string;
+    device: string;
+    ip: string | null;
+    createdAt: string;
+    lastRefreshedAt: string;
+  }[]
+> => {
+  return knex('session')
+    .select(
+      'id',
+      'device',
+      'ip',
+      'created_at as createdAt',
+      'last_refreshed_at as lastRefreshedAt'
+    )
+    .where({ user_id: userId })
+    .whereExists(
+      knex('refresh_token')
+        .select('id')
+        .whereRaw('?? = ??', ['refresh_token.family_id', 'session.id'])
+        .where({ is_used: false, is_revoked: false })
+        .andWhere('expires_at', '>', getCurrentDate())
+    )
+    .orderBy('last_refreshed_at', 'desc');
+};
+
+/*
+    세션의 refresh token을 모두 폐기해 해당 기기에서 다시 재발급할 수 없게 함
+    @param {string} userId => 사용자 아이디(이메일), 다른 사용자의 세션은 폐기할 수 없음
+    @param {string} id => 폐기할 세션 id
+*/
+export const revokeSession = async (
+  userId: string,
+  id: string
+): Promise<void> => {
+  const session: { id: string } | undefined = await knex('session')
+    .select('id')
+    .where({ id, user_id: userId })
+    .first();
+
+  if (!session) {
+    throw new NotFoundError();
+  }
+
+  await revokeTokenFamily(id);
+};
@@ -1,68 +1,122 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import knex from '../db';
+import dayjs from 'dayjs';
+import { generatedUniqueID } from '../utils';
+import { AppError } from '../error';
+import { MessageKey } from '../i18n';
 import dotenv from 'dotenv';
 dotenv.config();
 
+export const ACCESS_TOKEN_EXPIRES_IN = '5m';
+export const TWO_FACTOR_TOKEN_EXPIRES_IN = '5m';
+export const REFRESH_TOKEN_EXPIRES_IN_HOURS = 24;
+
+export const JWT_ISSUER = process.env.JWT_ISSUER || 'boogie-server';
+export const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'boogie-client';
+
+export type TokenType = 'access' | 'refresh' | 'two-factor';
+
+const TOKEN_MESSAGE_KEY: {
+  [type in TokenType]: {
+    wrongType: MessageKey;
+    expired: MessageKey;
+    invalid: MessageKey;
+  };
+} = {
+  access: {
+    wrongType: 'AUTH_ACCESS_TOKEN_WRONG_TYPE',
+    expired: 'AUTH_ACCESS_TOKEN_EXPIRED',
+    invalid: 'AUTH_ACCESS_TOKEN_INVALID',
+  },
+  refresh: {
+    wrongType: 'AUTH_REFRESH_TOKEN_WRONG_TYPE',
+    expired: 'AUTH_REFRESH_TOKEN_EXPIRED',
+    invalid: 'AUTH_REFRESH_TOKEN_INVALID',
+  },
+  'two-factor': {
+    wrongType: 'AUTH_TWO_FACTOR_TOKEN_WRONG_TYPE',
+    expired: 'AUTH_TWO_FACTOR_TOKEN_EXPIRED',
+    invalid: 'AUTH_TWO_FACTOR_TOKEN_INVALID',
+  },
+};
+
 interface UserPayload {
+  sub: string;
   email: string;
+  jti?: string;
+  family?: string;
 }
 
-interface VerifyTokenErrorJSON {
-  status: number;
-  message: string;
-  code?: string;
-  type?: string;
-}
+const wrongTypeError = (type: TokenType): AppError => {
+  return new AppError('AUTH_TOKEN_WRONG_TYPE', {
+    messageKey: TOKEN_MESSAGE_KEY[type].wrongType,
+    details: { type },
+  });
+};
 
+/*
+    Authorization 헤더의 토큰을 검증
+    서명, 만료 외에 issuer, audience, sub(토큰 종류)가 일치하는지 검사
+    @param {TokenType} type => 기대하는 토큰 종류 (access, refresh)
+    @returns 검증 성공 여부와 실패 시 넘길 AppError
+*/
 export const verifyToken = (
   req: Request,
   res: Response,
-  type: string
-): { isOk: boolean; json?: VerifyTokenErrorJSON } => {
+  type: TokenType
+): { isOk: boolean; error?: AppError } => {
   const authorization: string = req.headers.authorization || '';
   const jwtSecretKey: string = process.env.jWT_SECRET || '';
+  const token: string = authorization.replace(`${jwtSecretKey} `, '');
 
   if (!authorization) {
-    return {
-      isOk: false,
-      json: {
-        status: 401,
-        message: '토큰이 없습니다',
-      },
-    };
+    return { isOk: false, error: new AppError('AUTH_TOKEN_MISSING') };
   }
   try {
-    const data = jwt.verify(
-      authorization.replace(`${jwtSecretKey} `, ''),
-      jwtSecretKey
-    ) as UserPayload;
+    const data = jwt.verify(token, jwtSecretKey, {
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+    }) as UserPayload;
+
+    if (data.sub !== type) {
+      return { isOk: false, error: wrongTypeError(type) };
+    }
+
     res.locals.email = data.email;
+    // access token에도 family(세션 id)가 담겨 있어 현재 세션을 구분할 수 있음
+    res.locals.familyId = data.family;
+    if (type === 'refresh') {
+      res.locals.tokenId = data.jti;
+    }
     return {
       isOk: true,
     };
   } catch (error: unknown) {
-    const typeToKor = type === 'access' ? '엑세스' : '리프레시';
-
     if (error instanceof Error) {
       if (error.name === 'TokenExpiredError') {
+        const expiredData = jwt.decode(token) as UserPayload | null;
+
+        if (expiredData?.sub !== type) {
+          return { isOk: false, error: wrongTypeError(type) };
+        }
+
         return {
           isOk: false,
-          json: {
-            status: 419,
-            message: `만료된 ${typeToKor} 토큰입니다.`,
-            code: 'expired',
-            type,
-          },
+          error: new AppError('AUTH_TOKEN_EXPIRED', {
+            messageKey: TOKEN_MESSAGE_KEY[type].expired,
+            details: { type },
+          }),
         };
       }
     }
 
     return {
       isOk: false,
-      json: {
-        status: 401,
-        message: `유효하지 않은 ${typeToKor} 토큰입니다.`,
-      },
+      error: new AppError('AUTH_TOKEN_INVALID', {
+        messageKey: TOKEN_MESSAGE_KEY[type].invalid,
+        details: { type },
+      }),
     };
   }
 };
@@ -73,28 +127,23 @@ export const getUserEmail = (
   next: NextFunction
 ) => {
   const authorization: string = req.headers.authorization || '';
-  const jwtSecretKey: string = process.env.jWT_SECRET || '';
+
   if (!authorization) {
-    next();
-  } else {
-    try {
-      const data = jwt.verify(
-        authorization.replace(`${jwtSecretKey} `, ''),
-        jwtSecretKey
-      ) as UserPayload;
-      res.locals.email = data.email;
-      next();
-    } catch (error: unknown) {
-      if (error instanceof Error && error.name === 'TokenExpiredError') {
-        return res.status(419).json({
-          message: `만료된 엑세스 토큰입니다.`,
-          code: 'expired',
-          type: 'access',
-        });
-      }
-      next();
-    }
+    return next();
+  }
+
+  const response = verifyToken(req, res, 'access');
+
+  if (
+    !response.isOk &&
+    ['AUTH_TOKEN_EXPIRED', 'AUTH_TOKEN_WRONG_TYPE'].includes(
+      response.error?.code || ''
+    )
+  ) {
+    return next(response.error);
   }
+
+  next();
 };
 
 export const verifyAccessToken = (
@@ -103,25 +152,11 @@ export const verifyAccessToken = (
   next: NextFunction
 ) => {
   const response = verifyToken(req, res, 'access');
-  const { isOk }: { isOk: boolean } = response;
 
-  if (isOk) {
+  if (response.isOk) {
     next();
   } else {
-    const status = response.json?.status || 401;
-    const message = response.json?.message;
-    const code = response.json?.code;
-    const type = response.json?.type;
-
-    return res.status(status).json({
-      message,
-      ...(!!code && {
-        code,
-      }),
-      ...(!!type && {
-        type,
-      }),
-    });
+    next(response.error);
   }
 };
 
@@ -131,25 +166,26 @@ export const verifyRefreshToken = (
   next: NextFunction
 ) => {
   const response = verifyToken(req, res, 'refresh');
-  const { isOk }: { isOk: boolean } = response;
 
-  if (isOk) {
+  if (response.isOk) {
     next();
   } else {
-    const status = response.json?.status || 401;
-    const message = response.json?.message;
-    const code = response.json?.code;
-    const type = response.json?.type;
-
-    return res.status(status).json({
-      message,
-      ...(!!code && {
-        code,
-      }),
-      ...(!!type && {
-        type,
-      }),
-    });
+    next(response.error);
+  }
+};
+
+// 2단계 인증이 켜진 계정의 로그인 두 번째 단계에서 사용
+export const verifyTwoFactorToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const response = verifyToken(req, res, 'two-factor');
+
+  if (response.isOk) {
+    next();
+  } else {
+    next(response.error);
   }
 };
 
@@ -157,20 +193,167 @@ export const generatedJwtToken = ({
   sub,
   email,
   expiresIn,
+  tokenId,
+  familyId,
 }: {
-  sub: string;
+  sub: TokenType;
   email: string;
   expiresIn: string;
+  tokenId?: string;
+  familyId?: string;
 }): string | void => {
-  if (!['refresh', 'access'].includes(sub)) {
+  if (!Object.keys(TOKEN_MESSAGE_KEY).includes(sub)) {
     return;
   }
 
   const jwtSecretKey: string = process.env.jWT_SECRET || '';
 
-  const token = jwt.sign({ sub, email }, jwtSecretKey, {
-    expiresIn,
-  });
+  const token = jwt.sign(
+    { sub, email, ...(!!familyId && { family: familyId }) },
+    jwtSecretKey,
+    {
+      expiresIn,
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+      ...(!!tokenId && { jwtid: tokenId }),
+    }
+  );
 
   return token;
 };
+
+/*
+    refresh token을 발급하고 DB에 저장
+    @param {string} email => 토큰을 발급할 사용자 아이디(이메일)
+    @param {string} familyId => 회전(rotation) 시 이어받을 family id, 없으면 새로 생성
+    @returns Promise<string> => 발급된 refresh token
+*/
+export const issueRefreshToken = async (
+  email: string,
+  familyId: string = generatedUniqueID()
+): Promise<string> => {
+  const tokenId: string = generatedUniqueID();
+  const createdAt = dayjs();
+
+  await knex('refresh_token').insert({
+    id: tokenId,
+    family_id: familyId,
+    user_id: email,
+    created_at: createdAt.format('YYYY-MM-DD HH:mm:ss'),
+    expires_at: createdAt
+      .add(REFRESH_TOKEN_EXPIRES_IN_HOURS, 'hour')
+      .format('YYYY-MM-DD HH:mm:ss'),
+  });
+
+  return generatedJwtToken({
+    email,
+    sub: 'refresh',
+    expiresIn: `${REFRESH_TOKEN_EXPIRES_IN_HOURS}h`,
+    tokenId,
+    familyId,
+  }) as string;
+};
+
+/*
+    같은 family의 refresh token을 모두 폐기
+    @param {string} familyId => 폐기할 family id
+*/
+export const revokeTokenFamily = (familyId: string) => {
+  return knex('refresh_token')
+    .update({ is_revoked: true })
+    .where({ family_id: familyId });
+};
+
+/*
+    해당 사용자의 refresh token을 모두 폐기
+    @param {string} email => 사용자 아이디(이메일)
+*/
+export const revokeAllRefreshTokens = (email: string) => {
+  return knex('refresh_token')
+    .update({ is_revoked: true })
+    .where({ user_id: email });
+};
+
+/*
+    사용 가능한 refresh token인지 검사 (폐기, 사용, 만료 여부)
+    @param {string} tokenId => refresh token의 jti
+    @returns Promise<boolean> => 사용 가능하면 true 아니면 false
+*/
+export const isActiveRefreshToken = async (
+  tokenId: string = ''
+): Promise<boolean> => {
+  const token = await knex('refresh_token')
+    .select('id')
+    .where({ id: tokenId, is_used: false, is_revoked: false })
+    .andWhere('expires_at', '>', dayjs().format('YYYY-MM-DD HH:mm:ss'))
+    .first();
+
+  return !!token;
+};
+
+/*
+    refresh token을 사용 처리하고 같은 family로 새 토큰을 발급
+    이미 사용된 토큰이 다시 들어오면 탈취로 보고 family 전체를 폐기
+    만료된 토큰은 정상적으로 만료된 것이므로 family를 폐기하지 않고 AUTH_TOKEN_EXPIRED
+    폐기된 세션의 토큰이면 AUTH_SESSION_REVOKED
+    @param {string} tokenId => 사용할 refresh token의 jti
+    @returns Promise<string> => 새로 발급된 refresh token
+*/
+export const rotateRefreshToken = async (tokenId: string = '') => {
+  const token: {
+    familyId: string;
+    userId: string;
+    isUsed: boolean;
+    isRevoked: boolean;
+    expiresAt: string | Date;
+  } = await knex('refresh_token')
+    .select(
+      'family_id as familyId',
+      'user_id as userId',
+      'is_used as isUsed',
+      'is_revoked as isRevoked',
+      'expires_at as expiresAt'
+    )
+    .where({ id: tokenId })
+    .first();
+
+  if (!token) {
+    throw new AppError('AUTH_TOKEN_INVALID', {
+      messageKey: 'AUTH_REFRESH_TOKEN_INVALID',
+    });
+  }
+
+  // 로그아웃이나 세션 폐기로 이미 폐기된 family
+  if (!!token.isRevoked) {
+    throw new AppError('AUTH_SESSION_REVOKED');
+  }
+
+  if (!token.isUsed && !dayjs().isBefore(dayjs(token.expiresAt))) {
+    throw new AppError('AUTH_TOKEN_EXPIRED', {
+      messageKey: TOKEN_MESSAGE_KEY.refresh.expired,
+      details: { type: 'refresh' },
+    });
+  }
+
+  const updatedCount: number = await knex('refresh_token')
+    .update({ is_used: true })
+    .where({ id: tokenId, is_used: false, is_revoked: false });
+
+  if (!updatedCount) {
+    const { isRevoked } = await knex('refresh_token')
+      .select('is_revoked as isRevoked')
+      .where({ id: tokenId })
+      .first();
+
+    // 조회한 뒤 로그아웃 등으로 폐기된 경우는 재사용이 아님
+    if (!!isRevoked) {
+      throw new AppError('AUTH_SESSION_REVOKED');
+    }
+
+    await revokeTokenFamily(token.familyId);
+
+    throw new AppError('AUTH_REFRESH_TOKEN_REUSED');
+  }
+
+  return issueRefreshToken(token.userId, token.familyId);
+};
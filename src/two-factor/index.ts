@@ -0,0 +1,384 @@
+import crypto from 'crypto';
+import dayjs from 'dayjs';
+import { Knex } from 'knex';
+import knex from '../db';
+import { AppError } from '../error';
+import dotenv from 'dotenv';
+dotenv.config();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_LENGTH = 20;
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// 시계 오차를 고려해 앞뒤로 허용하는 step 수
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+export const TWO_FACTOR_ISSUER =
+  process.env.TWO_FACTOR_ISSUER || 'Boogie On & On';
+export const ADMIN_TWO_FACTOR_SETTING = 'admin_two_factor_required';
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let encoded = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      encoded += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    encoded += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return encoded;
+};
+
+const base32Decode = (encoded: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const character of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(character);
+
+    if (index === -1) {
+      continue;
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/*
+    TOTP secret은 AES-256-GCM으로 암호화해서 저장
+    형식: <iv(base64)>.<authTag(base64)>.<암호문(base64)>
+*/
+const getEncryptionKey = (): Buffer => {
+  const secret: string =
+    process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.jWT_SECRET || '';
+
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    iv
+  );
+  const encrypted = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((buffer) => buffer.toString('base64'))
+    .join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, authTag, encrypted] = stored
+    .split('.')
+    .map((value) => Buffer.from(value, 'base64'));
+  const decipher = crypto.createDecipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    iv
+  );
+
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final(),
+  ]).toString();
+};
+
+/*
+    RFC 6238 TOTP 코드 생성 (HMAC-SHA1, 6자리, 30초)
+    @param {string} secret => base32 secret
+    @param {number} step => unix time / 30
+*/
+const generateTotp = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto
+    .createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/*
+    TOTP 코드가 현재 시간 기준 TOTP_WINDOW 안의 step과 일치하는지 검사
+    @param {string} secret => base32 secret
+    @param {string} code => 사용자가 입력한 코드
+    @param {number} lastUsedStep => 마지막으로 사용된 step, 같은 코드의 재사용을 막음
+    @returns number | null => 일치한 step, 없으면 null
+*/
+const matchTotpStep = (
+  secret: string,
+  code: string,
+  lastUsedStep: number = -1
+): number | null => {
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  const normalizedCode = code.replace(/\s/g, '');
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = currentStep + offset;
+    const expected = Buffer.from(generateTotp(secret, step));
+    const actual = Buffer.from(normalizedCode);
+
+    if (
+      step > lastUsedStep &&
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    ) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+const hashRecoveryCode = (code: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+};
+
+const createRecoveryCode = (): string => {
+  const code = crypto.randomBytes(5).toString('hex');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/*
+    인증 앱 등록용 otpauth URI 생성 (QR 코드로 변환해서 사용)
+    @param {string} email => 계정 이름으로 표시할 사용자 아이디(이메일)
+    @param {string} secret => base32 secret
+*/
+export const createOtpauthURI = (email: string, secret: string): string => {
+  const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR_ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/*
+    사용자의 2단계 인증 설정을 조회
+    @param {string} userId => 사용자 아이디(이메일)
+    @returns 설정이 없으면 undefined
+*/
+export const getTwoFactor = async (
+  userId: string
+): Promise<
+  | { secret: string; isEnabled: boolean; lastUsedStep: number | null }
+  | undefined
+> => {
+  const twoFactor:
+    | { secret: string; isEnabled: boolean; lastUsedStep: number | null }
+    | undefined = await knex('user_two_factor')
+    .select(
+      'secret',
+      'is_enabled as isEnabled',
+      'last_used_step as lastUsedStep'
+    )
+    .where({ user_id: userId })
+    .first();
+
+  if (!twoFactor) {
+    return;
+  }
+
+  return {
+    ...twoFactor,
+    isEnabled: !!twoFactor.isEnabled,
+    secret: decryptSecret(twoFactor.secret),
+  };
+};
+
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+  return !!(await getTwoFactor(userId))?.isEnabled;
+};
+
+/*
+    새 secret을 발급해 활성화 전 상태로 저장 (이전에 등록 중이던 secret은 교체)
+    @param {string} userId => 사용자 아이디(이메일)
+    @returns Promise<string> => base32 secret
+*/
+export const createPendingTwoFactor = async (
+  userId: string
+): Promise<string> => {
+  const secret = base32Encode(crypto.randomBytes(SECRET_LENGTH));
+
+  await knex('user_two_factor').delete().where({ user_id: userId });
+  await knex('user_two_factor').insert({
+    user_id: userId,
+    secret: encryptSecret(secret),
+    is_enabled: 0,
+    created_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+  });
+
+  return secret;
+};
+
+/*
+    복구 코드를 새로 발급 (기존 복구 코드는 모두 폐기)
+    @returns Promise<string[]> => 사용자에게 한 번만 보여줄 평문 복구 코드
+*/
+export const regenerateRecoveryCodes = async (
+  userId: string,
+  trx: Knex | Knex.Transaction = knex
+): Promise<string[]> => {
+  const recoveryCodes: string[] = Array.from(
+    { length: RECOVERY_CODE_COUNT },
+    createRecoveryCode
+  );
+
+  await trx('two_factor_recovery_code').delete().where({ user_id: userId });
+  await trx('two_factor_recovery_code').insert(
+    recoveryCodes.map((code) => {
+      return { user_id: userId, code_hash: hashRecoveryCode(code) };
+    })
+  );
+
+  return recoveryCodes;
+};
+
+/*
+    TOTP 코드 또는 복구 코드로 2단계 인증
+    TOTP는 같은 step을 다시 사용할 수 없고 복구 코드는 한 번 사용하면 폐기
+    @param {string} userId => 사용자 아이디(이메일)
+    @param {string} code => TOTP 코드
+    @param {string} recoveryCode => 복구 코드 (code가 없을 때 사용)
+    @param {boolean} allowPending => 활성화 전 secret으로도 검사할지 여부 (등록 확인 시 사용)
+*/
+export const verifyTwoFactor = async ({
+  userId,
+  code,
+  recoveryCode,
+  allowPending = false,
+}: {
+  userId: string;
+  code?: string;
+  recoveryCode?: string;
+  allowPending?: boolean;
+}): Promise<void> => {
+  const twoFactor = await getTwoFactor(userId);
+
+  if (!twoFactor || (!twoFactor.isEnabled && !allowPending)) {
+    throw new AppError('TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (!!code) {
+    const step = matchTotpStep(
+      twoFactor.secret,
+      code,
+      twoFactor.lastUsedStep ?? -1
+    );
+
+    if (step === null) {
+      throw new AppError('TWO_FACTOR_CODE_INVALID');
+    }
+
+    const updatedCount: number = await knex('user_two_factor')
+      .update({ last_used_step: step })
+      .where({ user_id: userId })
+      .where((builder) => {
+        builder
+          .whereNull('last_used_step')
+          .orWhere('last_used_step', '<', step);
+      });
+
+    if (!updatedCount) {
+      throw new AppError('TWO_FACTOR_CODE_INVALID');
+    }
+    return;
+  }
+
+  if (!!recoveryCode && twoFactor.isEnabled) {
+    const usedCount: number = await knex('two_factor_recovery_code')
+      .delete()
+      .where({ user_id: userId, code_hash: hashRecoveryCode(recoveryCode) });
+
+    if (!!usedCount) {
+      return;
+    }
+  }
+
+  throw new AppError('TWO_FACTOR_CODE_INVALID');
+};
+
+/*
+    등록 중인 secret을 코드로 확인한 뒤 활성화하고 복구 코드를 발급
+    @returns Promise<string[]> => 복구 코드
+*/
+export const enableTwoFactor = async (
+  userId: string,
+  code: string
+): Promise<string[]> => {
+  const twoFactor = await getTwoFactor(userId);
+
+  if (!!twoFactor?.isEnabled) {
+    throw new AppError('TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  await verifyTwoFactor({ userId, code, allowPending: true });
+
+  return knex.transaction(async (trx) => {
+    await trx('user_two_factor')
+      .update({ is_enabled: 1 })
+      .where({ user_id: userId });
+
+    return regenerateRecoveryCodes(userId, trx);
+  });
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await knex.transaction(async (trx) => {
+    await trx('user_two_factor').delete().where({ user_id: userId });
+    await trx('two_factor_recovery_code').delete().where({ user_id: userId });
+  });
+};
+
+export const isAdminTwoFactorRequired = async (): Promise<boolean> => {
+  const setting: { value: string } | undefined = await knex('setting')
+    .select('value')
+    .where({ key: ADMIN_TWO_FACTOR_SETTING })
+    .first();
+
+  return setting?.value === 'true';
+};
+
+export const setAdminTwoFactorRequired = async (
+  isRequired: boolean
+): Promise<void> => {
+  await knex('setting')
+    .insert({ key: ADMIN_TWO_FACTOR_SETTING, value: String(isRequired) })
+    .onConflict('key')
+    .merge();
+};
@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodErrorMap, ZodIssueCode, ZodTypeAny } from 'zod';
+import { verifyEmail } from '../utils';
+import { ValidationError } from '../error';
+import { translate, isMessageKey, Locale, DEFAULT_LOCALE } from '../i18n';
+
+type RequestLocation = 'params' | 'query' | 'body';
+
+interface ValidationSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+export interface ValidationIssue {
+  location: RequestLocation;
+  field: string;
+  message: string;
+}
+
+/*
+    locale에 맞는 메세지로 zod 기본 에러 메세지를 대신하는 errorMap
+    @param {Locale} locale => 메세지 언어
+*/
+const createErrorMap = (locale: Locale): ZodErrorMap => {
+  return (issue, ctx) => {
+    switch (issue.code) {
+      case ZodIssueCode.invalid_type:
+        if (issue.received === 'undefined' || issue.received === 'null') {
+          return { message: translate(locale, 'VALIDATION_REQUIRED') };
+        }
+        return { message: translate(locale, 'VALIDATION_INVALID_FORMAT') };
+      case ZodIssueCode.too_small:
+        return {
+          message: translate(
+            locale,
+            issue.type === 'array'
+              ? 'VALIDATION_ARRAY_TOO_SMALL'
+              : issue.type === 'string'
+              ? 'VALIDATION_STRING_TOO_SMALL'
+              : 'VALIDATION_NUMBER_TOO_SMALL',
+            { minimum: Number(issue.minimum) }
+          ),
+        };
+      case ZodIssueCode.too_big:
+        return {
+          message: translate(
+            locale,
+            issue.type === 'array'
+              ? 'VALIDATION_ARRAY_TOO_BIG'
+              : issue.type === 'string'
+              ? 'VALIDATION_STRING_TOO_BIG'
+              : 'VALIDATION_NUMBER_TOO_BIG',
+            { maximum: Number(issue.maximum) }
+          ),
+        };
+      case ZodIssueCode.invalid_string:
+        if (issue.validation === 'email') {
+          return { message: translate(locale, 'VALIDATION_INVALID_EMAIL') };
+        }
+        return { message: translate(locale, 'VALIDATION_INVALID_FORMAT') };
+      case ZodIssueCode.invalid_enum_value:
+        return { message: translate(locale, 'VALIDATION_INVALID_ENUM') };
+      default:
+        return { message: ctx.defaultError };
+    }
+  };
+};
+
+export const requiredString = z.string().min(1);
+
+export const emailString = z.string().refine((value) => verifyEmail(value), {
+  message: 'VALIDATION_INVALID_EMAIL',
+});
+
+export const idQuerySchema = z.object({ id: requiredString });
+
+/*
+    multipart/form-data로 전달된 JSON 문자열을 파싱한 뒤 schema로 검사
+    @param {ZodTypeAny} schema => 파싱된 값을 검사할 schema
+*/
+export const jsonString = <T extends ZodTypeAny>(schema: T) => {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        ctx.addIssue({
+          code: ZodIssueCode.custom,
+          message: 'VALIDATION_INVALID_JSON',
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+};
+
+/*
+    query string으로 한 개 또는 여러 개가 전달되는 값을 배열로 변환
+    @param {ZodTypeAny} schema => 배열의 각 요소를 검사할 schema
+*/
+export const queryArray = <T extends ZodTypeAny>(schema: T) => {
+  return z.preprocess(
+    (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+    z.array(schema)
+  );
+};
+
+/*
+    req.params, req.query, req.body를 schema로 검사하고 변환된 값으로 교체하는 미들웨어
+    실패 시 잘못된 필드 목록을 details로 담은 ValidationError를 넘김
+    schema에 지정한 message가 메세지 카탈로그의 key이면 요청 locale로 번역
+    @param {ValidationSchemas} schemas => 위치별 검사할 schema
+*/
+export const validate = (schemas: ValidationSchemas) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: ValidationIssue[] = [];
+    const locations: RequestLocation[] = ['params', 'query', 'body'];
+    const locale: Locale = res.locals.locale || DEFAULT_LOCALE;
+    const errorMap: ZodErrorMap = createErrorMap(locale);
+
+    locations.forEach((location) => {
+      const schema = schemas[location];
+
+      if (!schema) {
+        return;
+      }
+
+      const result = schema.safeParse(req[location] ?? {}, { errorMap });
+
+      if (!result.success) {
+        result.error.issues.forEach((issue) => {
+          errors.push({
+            location,
+            field: issue.path.join('.'),
+            message: isMessageKey(issue.message)
+              ? translate(locale, issue.message)
+              : issue.message,
+          });
+        });
+        return;
+      }
+
+      req[location] = result.data;
+    });
+
+    if (!!errors.length) {
+      return next(new ValidationError(errors));
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import dayjs from 'dayjs';
+import { Knex } from 'knex';
+import knex from '../db';
+import { AppError } from '../error';
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const VERIFICATION_PURPOSE = {
+  SIGNUP: 'signup',
+  PASSWORD_RESET: 'password_reset',
+  EMAIL_CHANGE: 'email_change',
+  // 비밀번호가 없는 계정의 이메일 변경, 비밀번호 설정, 탈퇴 전 본인 확인
+  REAUTHENTICATION: 'reauthentication',
+} as const;
+
+export type VerificationPurpose =
+  (typeof VERIFICATION_PURPOSE)[keyof typeof VERIFICATION_PURPOSE];
+
+export const VERIFICATION_CODE_LENGTH = 8;
+export const VERIFICATION_CODE_EXPIRES_IN_MINUTES = 5;
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+export const VERIFICATION_TICKET_EXPIRES_IN_MINUTES = 30;
+
+const CODE_CHARACTERS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const getCurrentDate = (): string => {
+  return dayjs().format('YYYY-MM-DD HH:mm:ss');
+};
+
+/*
+    crypto.randomInt로 영문 대소문자, 숫자 인증번호 생성
+    @param {number} length => 인증번호 길이
+*/
+export const createVerificationCode = (
+  length: number = VERIFICATION_CODE_LENGTH
+): string => {
+  let code = '';
+
+  for (let i: number = 0; i < length; i++) {
+    code += CODE_CHARACTERS.charAt(crypto.randomInt(CODE_CHARACTERS.length));
+  }
+
+  return code;
+};
+
+/*
+    인증번호를 이메일, 목적과 함께 HMAC-SHA256으로 해싱
+    목적이 다르면 같은 인증번호라도 다른 해시가 되어 다른 흐름에 재사용할 수 없음
+*/
+const hashVerificationCode = (
+  email: string,
+  purpose: VerificationPurpose,
+  code: string
+): string => {
+  const secret: string =
+    process.env.VERIFICATION_CODE_SECRET || process.env.jWT_SECRET || '';
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${email}:${purpose}:${code}`)
+    .digest('hex');
+};
+
+const isSameHash = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+};
+
+/*
+    인증번호를 발급하고 해시만 DB에 저장
+    같은 이메일, 목적으로 발급되어 아직 인증되지 않은 인증번호는 삭제
+    @param {string} email => 인증번호를 받을 이메일
+    @param {VerificationPurpose} purpose => 인증번호를 사용할 흐름
+    @returns Promise<string> => 메일로 보낼 평문 인증번호
+*/
+export const issueVerificationCode = async (
+  email: string,
+  purpose: VerificationPurpose
+): Promise<string> => {
+  const code: string = createVerificationCode();
+
+  await knex('auth').delete().where({ email, purpose, is_auth: 0 });
+  await knex('auth').insert({
+    email,
+    purpose,
+    code_hash: hashVerificationCode(email, purpose, code),
+    attempt_count: 0,
+    date: getCurrentDate(),
+  });
+
+  return code;
+};
+
+const hashVerificationTicket = (ticket: string): string => {
+  return crypto.createHash('sha256').update(ticket).digest('hex');
+};
+
+const isExpired = (date: string, expiresInMinutes: number): boolean => {
+  return !dayjs().isBefore(dayjs(date).add(expiresInMinutes, 'm'));
+};
+
+/*
+    인증번호를 검사하고 일치하면 인증 완료 처리 후 다음 단계에서 사용할 ticket을 발급
+    틀릴 때마다 attempt_count를 올리고 MAX_VERIFICATION_ATTEMPTS번 틀리면 인증번호를 폐기
+    @param {string} email => 인증번호를 받은 이메일
+    @param {VerificationPurpose} purpose => 인증번호를 발급한 흐름
+    @param {string} code => 사용자가 입력한 인증번호
+    @returns Promise<string> => VERIFICATION_TICKET_EXPIRES_IN_MINUTES 동안 한 번 사용할 수 있는 ticket
+*/
+export const verifyVerificationCode = async (
+  email: string,
+  purpose: VerificationPurpose,
+  code: string
+): Promise<string> => {
+  const authInfo:
+    | { id: number; codeHash: string; date: string; attemptCount: number }
+    | undefined = await knex('auth')
+    .select(
+      'id',
+      'code_hash as codeHash',
+      'date',
+      'attempt_count as attemptCount'
+    )
+    .where({ email, purpose, is_auth: 0 })
+    .where('attempt_count', '<', MAX_VERIFICATION_ATTEMPTS)
+    .orderBy('id', 'desc')
+    .first();
+
+  if (!authInfo) {
+    throw new AppError('AUTH_CODE_MISMATCH');
+  }
+
+  if (isExpired(authInfo.date, VERIFICATION_CODE_EXPIRES_IN_MINUTES)) {
+    throw new AppError('AUTH_CODE_EXPIRED');
+  }
+
+  if (
+    !isSameHash(authInfo.codeHash, hashVerificationCode(email, purpose, code))
+  ) {
+    const remainingAttempts: number =
+      MAX_VERIFICATION_ATTEMPTS - authInfo.attemptCount - 1;
+
+    if (remainingAttempts <= 0) {
+      await knex('auth').delete().where({ id: authInfo.id });
+      throw new AppError('AUTH_CODE_ATTEMPTS_EXCEEDED');
+    }
+
+    await knex('auth').increment('attempt_count', 1).where({ id: authInfo.id });
+    throw new AppError('AUTH_CODE_MISMATCH', {
+      details: { remainingAttempts },
+    });
+  }
+
+  const ticket: string = crypto.randomBytes(32).toString('base64url');
+
+  await knex('auth')
+    .delete()
+    .where({ email, purpose, is_auth: 1 })
+    .whereNot({ id: authInfo.id });
+  await knex('auth')
+    .update({
+      is_auth: 1,
+      ticket_hash: hashVerificationTicket(ticket),
+      date: getCurrentDate(),
+    })
+    .where({ id: authInfo.id });
+
+  return ticket;
+};
+
+/*
+    인증 완료 후 발급된 ticket을 확인하고 삭제 (한 번만 사용 가능)
+    가입 등 다음 단계의 쓰기와 함께 transaction 안에서 호출해야 동시에 같은 ticket을 사용할 수 없음
+    실패 시 details.prerequisite에 다시 진행해야 할 단계를 담음
+    @param {Knex.Transaction} trx => 다음 단계와 함께 사용하는 transaction
+    @param {string} email => 인증한 이메일
+    @param {VerificationPurpose} purpose => 인증번호를 발급한 흐름
+    @param {string} ticket => verifyVerificationCode에서 발급한 ticket
+*/
+export const consumeVerificationTicket = async (
+  trx: Knex.Transaction,
+  email: string,
+  purpose: VerificationPurpose,
+  ticket: string = ''
+): Promise<void> => {
+  const authInfo: { id: number; ticketHash: string; date: string } | undefined =
+    await trx('auth')
+      .select('id', 'ticket_hash as ticketHash', 'date')
+      .where({ email, purpose, is_auth: 1 })
+      .whereNotNull('ticket_hash')
+      .orderBy('id', 'desc')
+      .first();
+
+  if (!authInfo) {
+    throw new AppError('AUTH_EMAIL_NOT_VERIFIED', {
+      details: { prerequisite: 'emailVerification' },
+    });
+  }
+
+  if (!ticket) {
+    throw new AppError('AUTH_VERIFICATION_TICKET_MISSING', {
+      details: { prerequisite: 'verificationTicket' },
+    });
+  }
+
+  if (!isSameHash(authInfo.ticketHash, hashVerificationTicket(ticket))) {
+    throw new AppError('AUTH_VERIFICATION_TICKET_INVALID', {
+      details: { prerequisite: 'verificationTicket' },
+    });
+  }
+
+  if (isExpired(authInfo.date, VERIFICATION_TICKET_EXPIRES_IN_MINUTES)) {
+    throw new AppError('AUTH_VERIFICATION_TICKET_EXPIRED', {
+      details: { prerequisite: 'emailVerification' },
+    });
+  }
+
+  const deletedCount: number = await trx('auth')
+    .delete()
+    .where({ id: authInfo.id, ticket_hash: authInfo.ticketHash });
+
+  if (!deletedCount) {
+    throw new AppError('AUTH_VERIFICATION_TICKET_INVALID', {
+      details: { prerequisite: 'verificationTicket' },
+    });
+  }
+};
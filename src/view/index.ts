@@ -1,39 +1,20 @@
 import { Request, Response, NextFunction } from 'express';
 import dayjs from 'dayjs';
-import { Knex } from 'knex';
+import knex from '../db';
+import { AppError } from '../error';
 import dotenv from 'dotenv';
 dotenv.config();
 
-const knex: Knex = require('knex')({
-  client: 'mysql',
-  connection: {
-    host: process.env.DB_HOST,
-    port: 3306,
-    user: process.env.DB_USER,
-    password: process.env.DB_PASSWORD,
-    database: process.env.DB_NAME,
-    typeCast: (field: any, next: NextFunction) => {
-      if (field.type === 'TINY' && field.length === 4) {
-        let value = field.string();
-
-        return value ? value === '1' : null;
-      }
-
-      return next();
-    },
-  },
-});
-
 export const setViewCount = async (
   req: Request,
   res: Response,
   next: NextFunction,
   tableName: string
-): Promise<Response<any, Record<string, any>> | undefined> => {
+): Promise<void> => {
   const id: string = req.query.id as string;
 
   if (!id) {
-    return res.status(400).json({ message: '잘못된 요청입니다.' });
+    return next(new AppError('BAD_REQUEST'));
   }
 
   const viewToken: string[] = JSON.parse(req?.cookies?.view || '[]');
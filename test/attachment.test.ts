@@ -0,0 +1,215 @@
+import sharp from 'sharp';
+import knex from '../src/db';
+import s3Controller from '../src/s3';
+import { addAttachments } from '../src/attachment';
+import { api, findId, joinAndLogin } from './helpers';
+
+const FREE_BOARD_ID = 1;
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// test/setup.ts의 S3 mock
+const s3 = s3Controller as unknown as {
+  files: Map<string, Buffer>;
+  uploadFile: jest.Mock;
+};
+
+const getAttachmentRows = (boardContentId: string) => {
+  return knex('board_attachment')
+    .select('file_key as fileKey', 'thumbnail_key as thumbnailKey')
+    .where({ board_content_id: boardContentId });
+};
+
+const createFile = (originalname: string): Express.Multer.File => {
+  const buffer = Buffer.concat([PNG_SIGNATURE, Buffer.from(originalname)]);
+
+  return {
+    originalname,
+    mimetype: 'image/png',
+    buffer,
+    size: buffer.length,
+  } as Express.Multer.File;
+};
+
+const getUploadedKeys = (boardContentId: string): string[] => {
+  return Array.from(s3.files.keys()).filter((key) => {
+    return key.startsWith(`community/${boardContentId}/`);
+  });
+};
+
+// 썸네일 실패는 console.error로 남기므로 출력하지 않음
+const silenceConsoleError = () => {
+  return jest.spyOn(console, 'error').mockImplementation(() => undefined);
+};
+
+// transaction이 끝난 뒤 실행되는 S3 삭제를 기다림
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('addAttachments', () => {
+  let postId: string;
+
+  beforeAll(async () => {
+    const author = await joinAndLogin('uploader');
+
+    await api()
+      .post('/api/community')
+      .set('authorization', author.authorization)
+      .send({
+        categoryId: FREE_BOARD_ID,
+        title: '첨부 테스트',
+        content: '내용',
+      })
+      .expect(201);
+    postId = await findId('board_content', { title: '첨부 테스트' });
+  });
+
+  it('업로드에 실패하면 이미 업로드한 파일을 삭제한다', async () => {
+    s3.uploadFile.mockImplementationOnce(async () => {
+      throw new Error('upload failed');
+    });
+
+    await expect(
+      knex.transaction((trx) => {
+        return addAttachments(trx, postId, [
+          createFile('first.png'),
+          createFile('second.png'),
+        ]);
+      })
+    ).rejects.toMatchObject({ code: 'FILE_UPLOAD_FAILED' });
+    await flushPromises();
+
+    expect(getUploadedKeys(postId)).toEqual([]);
+  });
+
+  it('transaction이 rollback되면 업로드한 파일을 삭제한다', async () => {
+    await expect(
+      knex.transaction(async (trx) => {
+        await addAttachments(trx, postId, [createFile('image.png')]);
+        expect(getUploadedKeys(postId)).toHaveLength(2);
+
+        throw new Error('rollback');
+      })
+    ).rejects.toThrow('rollback');
+    await flushPromises();
+
+    expect(getUploadedKeys(postId)).toEqual([]);
+    expect(
+      await knex('board_attachment').where({ board_content_id: postId })
+    ).toEqual([]);
+  });
+
+  it('transaction이 commit되면 업로드한 파일을 남긴다', async () => {
+    await knex.transaction((trx) => {
+      return addAttachments(trx, postId, [createFile('image.png')]);
+    });
+    await flushPromises();
+
+    expect(getUploadedKeys(postId)).toHaveLength(2);
+  });
+
+  it('S3 key의 확장자는 파일 이름이 아닌 MIME type으로 정하고 ContentType을 넘긴다', async () => {
+    s3.uploadFile.mockClear();
+
+    await knex.transaction((trx) => {
+      return addAttachments(trx, postId, [
+        createFile('page.html'),
+        createFile('no-extension'),
+      ]);
+    });
+
+    const uploads: [Buffer, string, string][] = s3.uploadFile.mock.calls;
+    const files = uploads.filter(([, key]) => !key.includes('/thumbnail/'));
+    const thumbnails = uploads.filter(([, key]) => key.includes('/thumbnail/'));
+
+    expect(files).toHaveLength(2);
+    files.forEach(([, key, contentType]) => {
+      expect(key).toMatch(new RegExp(`^community/${postId}/[0-9a-f-]+\\.png$`));
+      expect(contentType).toBe('image/png');
+    });
+    expect(thumbnails).toHaveLength(2);
+    thumbnails.forEach(([, key, contentType]) => {
+      expect(key).toMatch(/\.jpg$/);
+      expect(contentType).toBe('image/jpeg');
+    });
+  });
+
+  describe('썸네일', () => {
+    beforeEach(async () => {
+      await knex('board_attachment')
+        .delete()
+        .where({ board_content_id: postId });
+      s3.files.clear();
+    });
+
+    it('sharp가 이미지를 읽지 못하면 썸네일 없이 첨부파일을 저장한다', async () => {
+      const consoleError = silenceConsoleError();
+      (sharp as unknown as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Input buffer contains unsupported image format');
+      });
+
+      await knex.transaction((trx) => {
+        return addAttachments(trx, postId, [createFile('broken.png')]);
+      });
+      consoleError.mockRestore();
+
+      const rows = await getAttachmentRows(postId);
+      expect(rows).toEqual([
+        { fileKey: expect.stringMatching(/\.png$/), thumbnailKey: null },
+      ]);
+      expect(getUploadedKeys(postId)).toEqual([rows[0].fileKey]);
+    });
+
+    it('썸네일 업로드에 실패하면 썸네일 없이 첨부파일을 저장한다', async () => {
+      const consoleError = silenceConsoleError();
+      const upload = s3.uploadFile.getMockImplementation();
+      s3.uploadFile.mockImplementation(
+        async (file: Buffer, fileKey: string) => {
+          if (fileKey.includes('/thumbnail/')) {
+            throw new Error('upload failed');
+          }
+
+          return upload?.(file, fileKey);
+        }
+      );
+
+      try {
+        await knex.transaction((trx) => {
+          return addAttachments(trx, postId, [createFile('image.png')]);
+        });
+      } finally {
+        s3.uploadFile.mockImplementation(upload);
+        consoleError.mockRestore();
+      }
+
+      expect(await getAttachmentRows(postId)).toEqual([
+        { fileKey: expect.stringMatching(/\.png$/), thumbnailKey: null },
+      ]);
+    });
+
+    it('파일 업로드에 실패하면 업로드한 썸네일도 삭제한다', async () => {
+      const upload = s3.uploadFile.getMockImplementation();
+      s3.uploadFile.mockImplementation(
+        async (file: Buffer, fileKey: string) => {
+          if (!fileKey.includes('/thumbnail/')) {
+            throw new Error('upload failed');
+          }
+
+          return upload?.(file, fileKey);
+        }
+      );
+
+      try {
+        await expect(
+          knex.transaction((trx) => {
+            return addAttachments(trx, postId, [createFile('image.png')]);
+          })
+        ).rejects.toMatchObject({ code: 'FILE_UPLOAD_FAILED' });
+      } finally {
+        s3.uploadFile.mockImplementation(upload);
+      }
+
+      expect(getUploadedKeys(postId)).toEqual([]);
+    });
+  });
+});
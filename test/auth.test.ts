@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import knex from '../src/db';
+import { api, bearer, getMailedCode, joinUser, login } from './helpers';
+
+// user-001 이전에 저장하던 salt 없는 sha256 해시
+const createLegacyHash = (password: string): string => {
+  return crypto.createHash('sha256').update(password).digest('base64');
+};
+
+const getStoredPassword = async (id: string): Promise<string> => {
+  const { password } = await knex('user')
+    .select('password')
+    .where({ id })
+    .first();
+
+  return password;
+};
+
+describe('auth', () => {
+  it('이메일 인증 후 회원가입하고 로그인한다', async () => {
+    const user = await joinUser('auth');
+
+    const { body } = await api()
+      .post('/api/auth/login')
+      .send({ id: user.id, password: user.password })
+      .expect(200);
+
+    expect(body.data).toMatchObject({
+      email: user.id,
+      nickname: user.nickname,
+      isAdmin: false,
+    });
+    expect(body.data.accessToken).toEqual(expect.any(String));
+    expect(body.data.refreshToken).toEqual(expect.any(String));
+  });
+
+  it('틀린 인증번호로는 인증되지 않는다', async () => {
+    const id = 'wrong-code@boogie.test';
+
+    await api().post('/api/auth/code/email').send({ id }).expect(201);
+    const code = getMailedCode(id);
+
+    const { body } = await api()
+      .post('/api/auth/email')
+      .send({ id, code: code === 'AAAAAAAA' ? 'BBBBBBBB' : 'AAAAAAAA' })
+      .expect(409);
+
+    expect(body.code).toBe('AUTH_CODE_MISMATCH');
+  });
+
+  it('이미 가입한 아이디로는 가입할 수 없다', async () => {
+    const user = await joinUser('duplicate');
+
+    await api().post('/api/auth/code/email').send({ id: user.id }).expect(201);
+    const {
+      body: { verificationTicket },
+    } = await api()
+      .post('/api/auth/email')
+      .send({ id: user.id, code: getMailedCode(user.id) })
+      .expect(200);
+
+    const { body } = await api()
+      .post('/api/auth/join')
+      .send({
+        ...user,
+        nickname: 'other',
+        verifyPassword: user.password,
+        verificationTicket,
+      })
+      .expect(409);
+
+    expect(body.code).toBe('USER_ID_DUPLICATED');
+  });
+
+  it('비밀번호가 틀리면 로그인할 수 없다', async () => {
+    const user = await joinUser('loginfail');
+
+    const { body } = await api()
+      .post('/api/auth/login')
+      .send({ id: user.id, password: `${user.password}!` })
+      .expect(400);
+
+    expect(body.code).toBe('AUTH_LOGIN_FAILED');
+  });
+
+  it('이전 sha256 해시로 로그인하면 scrypt 해시로 바꿔서 저장한다', async () => {
+    const user = await joinUser('legacy');
+    await knex('user')
+      .update({ password: createLegacyHash(user.password) })
+      .where({ id: user.id });
+
+    await login(user);
+
+    const stored: string = await getStoredPassword(user.id);
+    expect(stored).toMatch(/^scrypt\$N=16384,r=8,p=1\$/);
+
+    await login(user);
+  });
+
+  it('이전 sha256 해시도 비밀번호가 틀리면 로그인할 수 없고 해시를 바꾸지 않는다', async () => {
+    const user = await joinUser('legacyfail');
+    const legacyHash: string = createLegacyHash(user.password);
+    await knex('user').update({ password: legacyHash }).where({ id: user.id });
+
+    const { body } = await api()
+      .post('/api/auth/login')
+      .send({ id: user.id, password: `${user.password}!` })
+      .expect(400);
+
+    expect(body.code).toBe('AUTH_LOGIN_FAILED');
+    expect(await getStoredPassword(user.id)).toBe(legacyHash);
+  });
+
+  it('refresh 토큰은 한 번만 사용할 수 있고 로그아웃하면 폐기된다', async () => {
+    const user = await joinUser('refresh');
+    const { refreshToken } = await login(user);
+
+    const { body } = await api()
+      .post('/api/token/refresh-token')
+      .set('authorization', bearer(refreshToken))
+      .expect(200);
+
+    expect(body.data.accessToken).toEqual(expect.any(String));
+
+    await api()
+      .post('/api/token/refresh-token')
+      .set('authorization', bearer(refreshToken))
+      .expect(401);
+
+    const { refreshToken: newRefreshToken } = await login(user);
+
+    await api()
+      .post('/api/auth/logout')
+      .set('authorization', bearer(newRefreshToken))
+      .expect(200);
+    await api()
+      .post('/api/token/refresh-token')
+      .set('authorization', bearer(newRefreshToken))
+      .expect(401);
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  api,
+  bearer,
+  findId,
+  joinAndLogin,
+  login,
+  SUPERVISOR,
+} from './helpers';
+
+const FREE_BOARD_ID = 1;
+
+describe('community', () => {
+  let author: Awaited<ReturnType<typeof joinAndLogin>>;
+  let reader: Awaited<ReturnType<typeof joinAndLogin>>;
+  let postId: string;
+
+  beforeAll(async () => {
+    author = await joinAndLogin('writer');
+    reader = await joinAndLogin('reader');
+
+    await api()
+      .post('/api/community')
+      .set('authorization', author.authorization)
+      .send({
+        categoryId: FREE_BOARD_ID,
+        title: '첫 번째 글',
+        content: '**안녕하세요** @reader',
+      })
+      .expect(201);
+    postId = await findId('board_content', { title: '첫 번째 글' });
+  });
+
+  it('게시글을 목록과 상세로 조회한다', async () => {
+    const {
+      body: { contentList },
+    } = await api()
+      .get('/api/community/list')
+      .query({ categoryId: FREE_BOARD_ID, page: 1 })
+      .expect(200);
+
+    expect(contentList).toEqual([
+      expect.objectContaining({ id: postId, userNickname: 'writer' }),
+    ]);
+
+    const {
+      body: { content },
+    } = await api()
+      .get('/api/community')
+      .set('authorization', author.authorization)
+      .query({ id: postId })
+      .expect(200);
+
+    expect(content).toMatchObject({
+      id: postId,
+      title: '첫 번째 글',
+      hasAuthority: true,
+      attachments: [],
+    });
+    expect(content.contentHTML).toContain('<strong>안녕하세요</strong>');
+    expect(content.contentHTML).toContain('data-nickname="reader"');
+  });
+
+  it('게시글을 수정하고 좋아요를 누른다', async () => {
+    await api()
+      .patch(`/api/community/${postId}`)
+      .set('authorization', author.authorization)
+      .send({ title: '수정한 글', content: '수정한 내용' })
+      .expect(200);
+    await api()
+      .patch(`/api/community/like/${postId}`)
+      .set('authorization', reader.authorization)
+      .expect(200);
+
+    const {
+      body: { content },
+    } = await api()
+      .get('/api/community')
+      .set('authorization', reader.authorization)
+      .query({ id: postId })
+      .expect(200);
+
+    expect(content).toMatchObject({
+      title: '수정한 글',
+      likeCount: 1,
+      isLiked: true,
+      hasAuthority: false,
+    });
+  });
+
+  it('댓글과 답글을 작성하고 채택한다', async () => {
+    const {
+      body: { comments },
+    } = await api()
+      .post('/api/community/comment')
+      .set('authorization', reader.authorization)
+      .send({ id: postId, content: '댓글' })
+      .expect(201);
+    const [comment] = comments;
+
+    await api()
+      .post('/api/community/comment')
+      .set('authorization', author.authorization)
+      .send({ id: postId, content: '답글', parentId: comment.id })
+      .expect(201);
+    await api()
+      .put(`/api/community/${postId}/accepted-comment`)
+      .set('authorization', author.authorization)
+      .send({ commentId: comment.id })
+      .expect(200);
+
+    const { body } = await api()
+      .get('/api/community/comments')
+      .query({ id: postId })
+      .expect(200);
+
+    expect(body.comments).toHaveLength(1);
+    expect(body.comments[0]).toMatchObject({
+      id: comment.id,
+      content: '댓글',
+      isAccepted: true,
+      replies: [expect.objectContaining({ content: '답글' })],
+    });
+    expect(body.acceptedComment).toMatchObject({ id: comment.id });
+  });
+
+  it('게시글을 삭제하면 조회할 수 없다', async () => {
+    await api()
+      .delete(`/api/community/${postId}`)
+      .set('authorization', author.authorization)
+      .expect(200);
+
+    const { body } = await api()
+      .get('/api/community')
+      .query({ id: postId })
+      .expect(404);
+
+    expect(body.code).toBe('RESOURCE_NOT_FOUND');
+  });
+});
+
+describe('community ownership', () => {
+  let author: Awaited<ReturnType<typeof joinAndLogin>>;
+  let other: Awaited<ReturnType<typeof joinAndLogin>>;
+  let postId: string;
+  let commentId: number;
+
+  const createPost = async (title: string): Promise<string> => {
+    await api()
+      .post('/api/community')
+      .set('authorization', author.authorization)
+      .send({ categoryId: FREE_BOARD_ID, title, content: '내용' })
+      .expect(201);
+
+    return findId('board_content', { title });
+  };
+
+  const createComment = async (boardContentId: string): Promise<number> => {
+    const {
+      body: { comments },
+    } = await api()
+      .post('/api/community/comment')
+      .set('authorization', author.authorization)
+      .send({ id: boardContentId, content: '댓글' })
+      .expect(201);
+
+    return comments[0].id;
+  };
+
+  beforeAll(async () => {
+    author = await joinAndLogin('owner');
+    other = await joinAndLogin('other');
+    postId = await createPost('권한 테스트');
+    commentId = await createComment(postId);
+  });
+
+  it('작성자가 아니면 게시글을 수정, 삭제할 수 없다', async () => {
+    const responses = await Promise.all([
+      api()
+        .patch(`/api/community/${postId}`)
+        .set('authorization', other.authorization)
+        .send({ title: '수정', content: '수정' }),
+      api()
+        .delete(`/api/community/${postId}`)
+        .set('authorization', other.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(403);
+      expect(body.code).toBe('AUTH_FORBIDDEN');
+    });
+  });
+
+  it('관리자는 다른 사람의 댓글에도 권한이 있다', async () => {
+    const { accessToken } = await login(SUPERVISOR);
+    const getComments = (authorization: string) => {
+      return api()
+        .get('/api/community/comments')
+        .query({ id: postId })
+        .set('authorization', authorization)
+        .expect(200);
+    };
+
+    const [{ body: adminBody }, { body: otherBody }] = await Promise.all([
+      getComments(bearer(accessToken)),
+      getComments(other.authorization),
+    ]);
+
+    expect(adminBody.comments[0]).toMatchObject({
+      id: commentId,
+      hasAuthority: true,
+    });
+    expect(otherBody.comments[0].hasAuthority).toBeUndefined();
+  });
+
+  it('작성자가 아니면 댓글을 수정, 삭제할 수 없다', async () => {
+    const responses = await Promise.all([
+      api()
+        .patch(`/api/community/comment/${commentId}`)
+        .set('authorization', other.authorization)
+        .send({ content: '수정' }),
+      api()
+        .delete(`/api/community/comment/${commentId}`)
+        .set('authorization', other.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(403);
+      expect(body.code).toBe('AUTH_FORBIDDEN');
+    });
+  });
+
+  it('없는 게시글, 댓글은 404로 응답한다', async () => {
+    const responses = await Promise.all([
+      api()
+        .patch('/api/community/unknown')
+        .set('authorization', author.authorization)
+        .send({ title: '수정', content: '수정' }),
+      api()
+        .delete('/api/community/unknown')
+        .set('authorization', author.authorization),
+      api()
+        .patch('/api/community/comment/0')
+        .set('authorization', author.authorization)
+        .send({ content: '수정' }),
+      api()
+        .delete('/api/community/comment/0')
+        .set('authorization', author.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(404);
+      expect(body.code).toBe('RESOURCE_NOT_FOUND');
+    });
+  });
+
+  it('삭제한 게시글, 댓글은 작성자도 404로 응답한다', async () => {
+    const deletedPostId = await createPost('삭제할 글');
+    const deletedCommentId = await createComment(postId);
+
+    await api()
+      .delete(`/api/community/${deletedPostId}`)
+      .set('authorization', author.authorization)
+      .expect(200);
+    await api()
+      .delete(`/api/community/comment/${deletedCommentId}`)
+      .set('authorization', author.authorization)
+      .expect(201);
+
+    const responses = await Promise.all([
+      api()
+        .patch(`/api/community/${deletedPostId}`)
+        .set('authorization', author.authorization)
+        .send({ title: '수정', content: '수정' }),
+      api()
+        .delete(`/api/community/${deletedPostId}`)
+        .set('authorization', author.authorization),
+      api()
+        .patch(`/api/community/comment/${deletedCommentId}`)
+        .set('authorization', author.authorization)
+        .send({ content: '수정' }),
+      api()
+        .delete(`/api/community/comment/${deletedCommentId}`)
+        .set('authorization', author.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(404);
+      expect(body.code).toBe('RESOURCE_NOT_FOUND');
+    });
+  });
+});
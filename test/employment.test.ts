@@ -0,0 +1,180 @@
+import dayjs from 'dayjs';
+import knex from '../src/db';
+import {
+  api,
+  bearer,
+  findId,
+  joinAndLogin,
+  login,
+  SUPERVISOR,
+} from './helpers';
+
+const BACKEND_POSITION_ID = 2;
+
+const employmentBody = (title: string) => ({
+  companyName: '부기',
+  title,
+  content: '## 백엔드 개발자 채용',
+  address: JSON.stringify({ address: '서울 강남구 테헤란로 1' }),
+  deadline: dayjs().add(7, 'day').format('YYYYMMDD'),
+  positionId: BACKEND_POSITION_ID,
+});
+
+describe('employment', () => {
+  let company: Awaited<ReturnType<typeof joinAndLogin>>;
+  let student: Awaited<ReturnType<typeof joinAndLogin>>;
+  let jobPostingId: string;
+
+  beforeAll(async () => {
+    company = await joinAndLogin('company');
+    student = await joinAndLogin('student');
+
+    const { accessToken } = await login(SUPERVISOR);
+
+    await api()
+      .patch('/api/management/user/role')
+      .set('authorization', bearer(accessToken))
+      .send({ id: company.id, role: 'company' })
+      .expect(200);
+    await api()
+      .post('/api/profile')
+      .set('authorization', student.authorization)
+      .send({ uniId: '20230001', name: '김부기' })
+      .expect(200);
+    await api()
+      .post('/api/employment')
+      .set('authorization', company.authorization)
+      .send(employmentBody('백엔드 개발자'))
+      .expect(201);
+    jobPostingId = await findId('job_posting', { title: '백엔드 개발자' });
+  });
+
+  it('기업 회원, 관리자가 아니면 채용공고를 등록할 수 없다', async () => {
+    const { body } = await api()
+      .post('/api/employment')
+      .set('authorization', student.authorization)
+      .send(employmentBody('학생이 올린 공고'))
+      .expect(403);
+
+    expect(body.code).toBe('AUTH_FORBIDDEN');
+  });
+
+  it('프로필을 등록해도 역할은 바뀌지 않는다', async () => {
+    const { role } = await knex('user')
+      .select('role')
+      .where({ id: student.id })
+      .first();
+
+    expect(role).toBe('member');
+  });
+
+  it('채용공고를 조회한다', async () => {
+    const { body } = await api()
+      .get('/api/employment')
+      .set('authorization', company.authorization)
+      .query({ id: jobPostingId })
+      .expect(200);
+
+    expect(body).toMatchObject({
+      id: jobPostingId,
+      companyName: '부기',
+      positionId: BACKEND_POSITION_ID,
+      region: '서울 강남구',
+      hasAuthority: true,
+    });
+    expect(body.contentHTML).toContain('<h2>백엔드 개발자 채용</h2>');
+  });
+
+  it('지원하고 지원을 취소한다', async () => {
+    await api()
+      .post('/api/employment/applicant')
+      .set('authorization', student.authorization)
+      .send({ id: jobPostingId })
+      .expect(201);
+
+    const { body } = await api()
+      .get('/api/employment/applicant/list')
+      .set('authorization', company.authorization)
+      .query({ id: jobPostingId })
+      .expect(200);
+
+    expect(body).toEqual({
+      applicantCount: 1,
+      applicantList: [{ id: student.id }],
+    });
+
+    await api()
+      .delete(`/api/employment/applicant/${jobPostingId}`)
+      .set('authorization', student.authorization)
+      .expect(200);
+
+    const {
+      body: { applicantCount },
+    } = await api()
+      .get('/api/employment/applicant/list')
+      .set('authorization', student.authorization)
+      .query({ id: jobPostingId })
+      .expect(200);
+
+    expect(applicantCount).toBe(0);
+  });
+
+  it('프로필이 없거나 본인 공고면 지원할 수 없다', async () => {
+    const { body } = await api()
+      .post('/api/employment/applicant')
+      .set('authorization', company.authorization)
+      .send({ id: jobPostingId })
+      .expect(403);
+
+    expect(body.code).toBe('EMPLOYMENT_APPLY_FORBIDDEN');
+  });
+
+  it('없는 채용공고에 지원하거나 지원을 취소하면 404로 응답한다', async () => {
+    const responses = await Promise.all([
+      api()
+        .post('/api/employment/applicant')
+        .set('authorization', student.authorization)
+        .send({ id: 'unknown' }),
+      api()
+        .delete('/api/employment/applicant/unknown')
+        .set('authorization', student.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(404);
+      expect(body.code).toBe('RESOURCE_NOT_FOUND');
+    });
+  });
+
+  it('작성자만 채용공고를 수정, 삭제한다', async () => {
+    const responses = await Promise.all([
+      api()
+        .patch(`/api/employment/${jobPostingId}`)
+        .set('authorization', student.authorization)
+        .send(employmentBody('수정한 공고')),
+      api()
+        .delete(`/api/employment/${jobPostingId}`)
+        .set('authorization', student.authorization),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(403);
+      expect(body.code).toBe('AUTH_FORBIDDEN');
+    });
+
+    await api()
+      .patch(`/api/employment/${jobPostingId}`)
+      .set('authorization', company.authorization)
+      .send(employmentBody('수정한 공고'))
+      .expect(200);
+    await api()
+      .delete(`/api/employment/${jobPostingId}`)
+      .set('authorization', company.authorization)
+      .expect(200);
+    await api().get('/api/employment').query({ id: jobPostingId }).expect(404);
+    await api()
+      .delete(`/api/employment/${jobPostingId}`)
+      .set('authorization', company.authorization)
+      .expect(404);
+  });
+});
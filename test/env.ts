@@ -0,0 +1,17 @@
+// 테스트 파일마다 새 in-memory SQLite DB를 사용 (.env보다 먼저 설정되므로 .env 값은 무시됨)
+process.env.DB_CLIENT = 'sqlite';
+process.env.DB_FILENAME = '';
+process.env.jWT_SECRET = 'test-jwt-secret';
+process.env.SEED_SUPERVISOR_ID = 'supervisor@boogie.dev';
+process.env.SEED_SUPERVISOR_PASSWORD = 'Boogie-Test-1234';
+process.env.OAUTH_PROVIDERS = 'naver,mock';
+process.env.OAUTH_NAVER_CLIENT_ID = 'test-client-id';
+process.env.OAUTH_NAVER_CLIENT_SECRET = 'test-client-secret';
+process.env.OAUTH_NAVER_REDIRECT_URI = 'http://localhost:3000/oauth/naver';
+// oauth.test.ts에서 axios를 mock해서 이 issuer의 discovery, jwks, token endpoint를 흉내냄
+process.env.OAUTH_MOCK_ISSUER = 'https://oidc.boogie.test';
+process.env.OAUTH_MOCK_CLIENT_ID = 'mock-client-id';
+process.env.OAUTH_MOCK_CLIENT_SECRET = 'mock-client-secret';
+process.env.OAUTH_MOCK_REDIRECT_URI = 'http://localhost:3000/oauth/mock';
+
+export {};
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import app from '../src/app';
+import knex from '../src/db';
+import sendMail from '../src/mail';
+
+export const api = () => request(app);
+
+export const SUPERVISOR = {
+  id: process.env.SEED_SUPERVISOR_ID as string,
+  password: process.env.SEED_SUPERVISOR_PASSWORD as string,
+};
+
+export const DEFAULT_PASSWORD = 'Boogie-Pass-1234';
+
+export interface TestUser {
+  id: string;
+  nickname: string;
+  password: string;
+}
+
+/*
+    authorization header 값 (`${jWT_SECRET} ${token}` 형식)
+    @param {string} token => access, refresh, two-factor 토큰
+*/
+export const bearer = (token: string): string => {
+  return `${process.env.jWT_SECRET} ${token}`;
+};
+
+/*
+    가장 최근에 해당 이메일로 보낸 메일에서 인증번호를 꺼냄
+    @param {string} email => 메일을 받은 이메일
+*/
+export const getMailedCode = (email: string): string => {
+  const calls = (sendMail as jest.Mock).mock.calls.filter(
+    ([{ toEmail }]) => toEmail === email
+  );
+  const { content } = calls[calls.length - 1][0];
+
+  return content.match(/(?<![A-Za-z0-9])([A-Za-z0-9]{8})(?![A-Za-z0-9])/)[1];
+};
+
+/*
+    이메일 인증부터 회원가입까지 진행
+    @param {string} nickname => 닉네임 (2~10자), 이메일은 닉네임으로 만듦
+*/
+export const joinUser = async (
+  nickname: string,
+  password: string = DEFAULT_PASSWORD
+): Promise<TestUser> => {
+  const id = `${nickname}@boogie.test`;
+
+  await api().post('/api/auth/code/email').send({ id }).expect(201);
+
+  const {
+    body: { verificationTicket },
+  } = await api()
+    .post('/api/auth/email')
+    .send({ id, code: getMailedCode(id) })
+    .expect(200);
+
+  await api()
+    .post('/api/auth/join')
+    .send({
+      id,
+      nickname,
+      password,
+      verifyPassword: password,
+      verificationTicket,
+    })
+    .expect(201);
+
+  return { id, nickname, password };
+};
+
+/*
+    로그인 후 access, refresh 토큰을 리턴
+*/
+export const login = async ({
+  id,
+  password,
+}: Pick<TestUser, 'id' | 'password'>): Promise<{
+  accessToken: string;
+  refreshToken: string;
+}> => {
+  const {
+    body: { data },
+  } = await api().post('/api/auth/login').send({ id, password }).expect(200);
+
+  return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+};
+
+/*
+    회원가입 후 로그인해서 access 토큰의 authorization header 값을 리턴
+*/
+export const joinAndLogin = async (nickname: string) => {
+  const user: TestUser = await joinUser(nickname);
+  const { accessToken } = await login(user);
+
+  return { ...user, authorization: bearer(accessToken) };
+};
+
+/*
+    등록 API가 id를 응답하지 않으므로 등록한 값으로 id를 조회
+    @param {string} table => 조회할 테이블
+    @param {object} where => 등록할 때 사용한 값 (제목 등)
+*/
+export const findId = async (
+  table: string,
+  where: { [column: string]: string }
+): Promise<string> => {
+  const { id } = await knex(table).select('id').where(where).first();
+
+  return id;
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/*
+    인증 앱처럼 base32 secret으로 현재 시간의 TOTP 코드를 만듦 (RFC 6238, SHA-1, 6자리, 30초)
+    @param {string} secret => /auth/two-factor/setup에서 받은 secret
+*/
+export const createTotp = (secret: string): string => {
+  const bits = [...secret.replace(/=+$/, '')]
+    .map((character) => {
+      return BASE32_ALPHABET.indexOf(character).toString(2).padStart(5, '0');
+    })
+    .join('');
+  const key = Buffer.from(
+    (bits.match(/.{8}/g) || []).map((byte) => parseInt(byte, 2))
+  );
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 1000 / 30)));
+
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1000000).padStart(
+    6,
+    '0'
+  );
+};
+
+/*
+    2단계 인증을 등록하고 복구 코드를 리턴
+*/
+export const enableTwoFactor = async (
+  authorization: string
+): Promise<string[]> => {
+  const {
+    body: { secret },
+  } = await api()
+    .post('/api/auth/two-factor/setup')
+    .set('authorization', authorization)
+    .expect(201);
+  const {
+    body: { recoveryCodes },
+  } = await api()
+    .post('/api/auth/two-factor/enable')
+    .set('authorization', authorization)
+    .send({ code: createTotp(secret) })
+    .expect(200);
+
+  return recoveryCodes;
+};
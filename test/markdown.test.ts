@@ -0,0 +1,100 @@
+import { renderMarkdown, sanitizeHTML } from '../src/markdown';
+
+describe('sanitizeHTML', () => {
+  it('script 태그는 내용과 함께 제거한다', () => {
+    expect(sanitizeHTML('<script>alert(1)</script><p>안녕</p>')).toBe(
+      '<p>안녕</p>'
+    );
+  });
+
+  it('img의 이벤트 속성은 제거하고 허용한 속성만 남긴다', () => {
+    expect(
+      sanitizeHTML(
+        '<img src="https://boogie.dev/a.png" onerror="alert(1)" alt="사진">'
+      )
+    ).toBe('<img src="https://boogie.dev/a.png" alt="사진" />');
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JaVaScRiPt:alert(1)',
+    ' javascript:alert(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+  ])('링크의 %s 주소는 제거한다', (href) => {
+    const html = sanitizeHTML(`<a href="${href}">링크</a>`);
+
+    expect(html).not.toMatch(/href/);
+    expect(html).toMatch(/>링크<\/a>$/);
+  });
+
+  it('img의 data: 주소는 제거한다', () => {
+    expect(sanitizeHTML('<img src="data:image/png;base64,AAAA">')).toBe(
+      '<img />'
+    );
+  });
+
+  it('링크는 rel과 target을 덮어써서 새 창에서 열도록 한다', () => {
+    expect(
+      sanitizeHTML(
+        '<a href="https://boogie.dev" rel="opener" target="_self" onclick="steal()">부기</a>'
+      )
+    ).toBe(
+      '<a href="https://boogie.dev" rel="nofollow noopener noreferrer" target="_blank">부기</a>'
+    );
+  });
+
+  it('span은 mention class와 data-nickname만 남긴다', () => {
+    expect(
+      sanitizeHTML(
+        '<span class="mention admin" data-nickname="부기" onclick="steal()" style="color:red">@부기</span>'
+      )
+    ).toBe('<span class="mention" data-nickname="부기">@부기</span>');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('Markdown 안의 HTML은 escape한다', () => {
+    expect(renderMarkdown('<script>alert(1)</script>')).toBe(
+      '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>\n'
+    );
+  });
+
+  it('javascript:, data: 링크는 링크로 만들지 않는다', () => {
+    expect(renderMarkdown('[링크](javascript:alert(1))')).not.toMatch(/<a/);
+    expect(
+      renderMarkdown('[링크](data:text/html;base64,PHNjcmlwdD4=)')
+    ).not.toMatch(/<a/);
+  });
+
+  it('자동 링크에도 rel과 target을 붙인다', () => {
+    expect(renderMarkdown('https://boogie.dev')).toBe(
+      '<p><a href="https://boogie.dev" rel="nofollow noopener noreferrer" target="_blank">https://boogie.dev</a></p>\n'
+    );
+  });
+
+  it('@닉네임을 mention으로 바꾼다', () => {
+    expect(renderMarkdown('@부기 안녕')).toBe(
+      '<p><span class="mention" data-nickname="부기">@부기</span> 안녕</p>\n'
+    );
+  });
+
+  it.each([
+    ['@부기"onmouseover="alert(1)', '"onmouseover="alert(1)'],
+    ["@부기' onmouseover='alert(1)", "' onmouseover='alert(1)"],
+    [
+      '@부기><img src=x onerror=alert(1)>',
+      '&gt;&lt;img src=x onerror=alert(1)&gt;',
+    ],
+  ])('mention으로 속성이나 태그를 넣을 수 없다 (%s)', (source, text) => {
+    // 닉네임에 쓸 수 없는 문자에서 mention이 끝나고 나머지는 text로 남음
+    expect(renderMarkdown(source)).toBe(
+      `<p><span class="mention" data-nickname="부기">@부기</span>${text}</p>\n`
+    );
+  });
+
+  it('링크 안의 @닉네임은 mention으로 바꾸지 않는다', () => {
+    expect(renderMarkdown('[@부기](https://boogie.dev)')).not.toMatch(
+      /mention/
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import knex from '../src/db';
+import {
+  up,
+  down,
+} from '../src/db/migrations/20230117000016_replace_user_is_admin_with_role';
+
+describe('replace user.is_admin with role', () => {
+  const supervisorId = process.env.SUPERVISOR_ID;
+
+  // role 컬럼 이전의 user 테이블로 되돌림
+  beforeAll(async () => {
+    await knex.schema.alterTable('user', (table) => {
+      table.dropColumn('role');
+    });
+    await knex.schema.alterTable('user', (table) => {
+      table.tinyint('is_admin', 4).notNullable().defaultTo(0);
+    });
+    await knex('user').insert([
+      {
+        id: 'old-supervisor@boogie.test',
+        password: '',
+        nickname: 'oldsuper',
+        is_admin: 1,
+      },
+      {
+        id: 'old-admin@boogie.test',
+        password: '',
+        nickname: 'oldadmin',
+        is_admin: 1,
+      },
+      {
+        id: 'old-member@boogie.test',
+        password: '',
+        nickname: 'oldmember',
+        is_admin: 0,
+      },
+    ]);
+  });
+
+  afterAll(() => {
+    if (supervisorId === undefined) {
+      delete process.env.SUPERVISOR_ID;
+    } else {
+      process.env.SUPERVISOR_ID = supervisorId;
+    }
+  });
+
+  const getRoles = async () => {
+    const users: { id: string; role: string }[] = await knex('user')
+      .select('id', 'role')
+      .whereLike('id', 'old-%')
+      .orderBy('id');
+
+    return Object.fromEntries(users.map(({ id, role }) => [id, role]));
+  };
+
+  it('is_admin을 role로 옮기고 SUPERVISOR_ID의 사용자를 supervisor로 지정한다', async () => {
+    process.env.SUPERVISOR_ID = 'old-supervisor@boogie.test';
+
+    await up(knex);
+
+    expect(await getRoles()).toEqual({
+      'old-admin@boogie.test': 'admin',
+      'old-member@boogie.test': 'member',
+      'old-supervisor@boogie.test': 'supervisor',
+    });
+    expect(await knex.schema.hasColumn('user', 'is_admin')).toBe(false);
+  });
+
+  it('is_admin이 없는 DB에서는 아무것도 하지 않는다', async () => {
+    await up(knex);
+
+    expect((await getRoles())['old-admin@boogie.test']).toBe('admin');
+  });
+
+  it('rollback하면 관리자 역할을 is_admin으로 되돌린다', async () => {
+    await down(knex);
+
+    const users: { id: string; isAdmin: number | boolean }[] = await knex(
+      'user'
+    )
+      .select('id', 'is_admin as isAdmin')
+      .whereLike('id', 'old-%')
+      .orderBy('id');
+
+    expect(users.map(({ id, isAdmin }) => [id, !!isAdmin])).toEqual([
+      ['old-admin@boogie.test', true],
+      ['old-member@boogie.test', false],
+      ['old-supervisor@boogie.test', true],
+    ]);
+  });
+});
@@ -0,0 +1,401 @@
+import crypto from 'crypto';
+import axios, { AxiosRequestConfig } from 'axios';
+import jwt from 'jsonwebtoken';
+import knex from '../src/db';
+import { api, bearer, joinAndLogin } from './helpers';
+
+// 외부 provider 대신 axios 호출을 mock issuer로 보냄
+jest.mock('axios', () => {
+  const { isAxiosError } = jest.requireActual('axios');
+
+  return {
+    __esModule: true,
+    default: Object.assign(jest.fn(), { isAxiosError }),
+  };
+});
+
+const ISSUER = process.env.OAUTH_MOCK_ISSUER as string;
+const CLIENT_ID = process.env.OAUTH_MOCK_CLIENT_ID as string;
+const KEY_ID = 'mock-key';
+
+interface MockClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+/*
+    discovery, jwks, token, userinfo endpoint를 흉내내는 OIDC provider
+    authorize로 발급한 code를 token endpoint에 보내면 RS256으로 서명한 id_token을 돌려줌
+*/
+const mockIssuer = (() => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const codes = new Map<string, { claims: MockClaims; nonce: string }>();
+  const failingEndpoints = new Set<string>();
+
+  const response = (data: any) => ({ status: 200, data });
+  const reject = (status?: number) => {
+    return Promise.reject(
+      Object.assign(new Error(`Request failed: ${status || 'network'}`), {
+        isAxiosError: true,
+        ...(!!status && { response: { status, data: {} } }),
+      })
+    );
+  };
+
+  const handle = async ({ url = '', data }: AxiosRequestConfig) => {
+    const endpoint = url.replace(ISSUER, '');
+
+    if (failingEndpoints.has(endpoint)) {
+      return reject();
+    }
+
+    switch (endpoint) {
+      case '/.well-known/openid-configuration':
+        return response({
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          jwks_uri: `${ISSUER}/jwks`,
+        });
+      case '/jwks':
+        return response({
+          keys: [
+            {
+              ...publicKey.export({ format: 'jwk' }),
+              kid: KEY_ID,
+              use: 'sig',
+              alg: 'RS256',
+            },
+          ],
+        });
+      case '/token': {
+        const code = new URLSearchParams(data).get('code') || '';
+        const issued = codes.get(code);
+
+        if (!issued) {
+          return reject(400);
+        }
+
+        codes.delete(code);
+
+        return response({
+          access_token: crypto.randomBytes(16).toString('hex'),
+          id_token: jwt.sign(
+            { ...issued.claims, nonce: issued.nonce },
+            privateKey.export({ format: 'pem', type: 'pkcs8' }),
+            {
+              algorithm: 'RS256',
+              keyid: KEY_ID,
+              issuer: ISSUER,
+              audience: CLIENT_ID,
+              expiresIn: '5m',
+            }
+          ),
+        });
+      }
+      default:
+        return reject(404);
+    }
+  };
+
+  return {
+    handle,
+    /*
+        사용자가 provider에서 로그인을 마친 것처럼 code를 발급
+        @param {string} authorizationURL => 서버가 만든 인가 페이지 주소
+        @param {MockClaims} claims => id_token에 담을 claim
+        @param {string} nonce => 주지 않으면 인가 요청의 nonce를 그대로 사용
+    */
+    authorize: (
+      authorizationURL: string,
+      claims: MockClaims,
+      nonce?: string
+    ): { code: string; state: string } => {
+      const { searchParams } = new URL(authorizationURL);
+      const code = crypto.randomBytes(16).toString('hex');
+
+      codes.set(code, {
+        claims,
+        nonce: nonce ?? (searchParams.get('nonce') as string),
+      });
+
+      return { code, state: searchParams.get('state') as string };
+    },
+    fail: (endpoint: string) => failingEndpoints.add(endpoint),
+    recover: () => failingEndpoints.clear(),
+  };
+})();
+
+beforeAll(() => {
+  (axios as unknown as jest.Mock).mockImplementation(mockIssuer.handle);
+});
+
+afterEach(() => {
+  mockIssuer.recover();
+});
+
+/*
+    로그인용 인가 페이지 주소를 받음
+*/
+const startLogin = async (provider: string = 'mock'): Promise<string> => {
+  const res = await api().get(`/api/auth/oauth/${provider}/authorize`);
+
+  expect(res.status).toBe(200);
+  return res.body.authorizationURL;
+};
+
+/*
+    계정 연결용 인가 페이지 주소를 받음
+    @param {string} authorization => 연결할 사용자의 authorization header 값
+*/
+const startLink = async (
+  authorization: string,
+  provider: string = 'mock'
+): Promise<string> => {
+  const res = await api()
+    .post(`/api/auth/oauth/${provider}/link`)
+    .set('authorization', authorization);
+
+  expect(res.status).toBe(200);
+  return res.body.authorizationURL;
+};
+
+const getState = (authorizationURL: string): string => {
+  return new URL(authorizationURL).searchParams.get('state') as string;
+};
+
+const callback = (
+  { code, state }: { code: string; state: string },
+  authorization?: string
+) => {
+  const req = api().post('/api/auth/oauth/mock/callback');
+
+  if (!!authorization) {
+    req.set('authorization', authorization);
+  }
+
+  return req.send({ code, state });
+};
+
+describe('oauth login', () => {
+  it('처음 로그인하면 인증된 이메일로 가입하고 외부 계정을 연결한다', async () => {
+    const authorizationURL = await startLogin();
+    const res = await callback(
+      mockIssuer.authorize(authorizationURL, {
+        sub: 'new-user-subject',
+        email: 'OAuthNew@boogie.test',
+        email_verified: true,
+        name: '소셜가입',
+      })
+    );
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.isNewUser).toBe(true);
+    expect(res.body.data.accessToken).toBeDefined();
+
+    const user = await knex('user')
+      .select('nickname', 'has_password as hasPassword')
+      .where({ id: 'oauthnew@boogie.test' })
+      .first();
+    expect(user.nickname).toBe('소셜가입');
+    expect(Number(user.hasPassword)).toBe(0);
+
+    const identities = await api()
+      .get('/api/auth/oauth/identities')
+      .set('authorization', bearer(res.body.data.accessToken));
+    expect(identities.body.identities).toEqual([
+      expect.objectContaining({
+        provider: 'mock',
+        email: 'oauthnew@boogie.test',
+      }),
+    ]);
+  });
+
+  it('이미 연결된 외부 계정으로 로그인하면 연결된 사용자로 로그인한다', async () => {
+    const claims = {
+      sub: 'returning-subject',
+      email: 'oauthreturn@boogie.test',
+      email_verified: true,
+    };
+
+    await callback(mockIssuer.authorize(await startLogin(), claims)).expect(
+      201
+    );
+
+    // provider의 이메일이 바뀌어도 subject로 찾음
+    const res = await callback(
+      mockIssuer.authorize(await startLogin(), {
+        ...claims,
+        email: 'changed@boogie.test',
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.isNewUser).toBeUndefined();
+
+    expect(jwt.decode(res.body.data.accessToken)).toEqual(
+      expect.objectContaining({ email: 'oauthreturn@boogie.test' })
+    );
+  });
+
+  it('같은 이메일의 사용자가 있으면 자동으로 연결하지 않고 OAUTH_ACCOUNT_EXISTS', async () => {
+    const owner = await joinAndLogin('oauthexist');
+
+    const res = await callback(
+      mockIssuer.authorize(await startLogin(), {
+        sub: 'existing-email-subject',
+        email: owner.id,
+        email_verified: true,
+      })
+    );
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('OAUTH_ACCOUNT_EXISTS');
+
+    const identity = await knex('user_identity')
+      .select('user_id')
+      .where({ provider: 'mock', subject: 'existing-email-subject' })
+      .first();
+    expect(identity).toBeUndefined();
+  });
+
+  it('id_token의 nonce가 인가 요청과 다르면 OAUTH_ID_TOKEN_INVALID', async () => {
+    const res = await callback(
+      mockIssuer.authorize(
+        await startLogin(),
+        {
+          sub: 'nonce-subject',
+          email: 'oauthnonce@boogie.test',
+          email_verified: true,
+        },
+        'another-nonce'
+      )
+    );
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('OAUTH_ID_TOKEN_INVALID');
+    expect(
+      await knex('user').where({ id: 'oauthnonce@boogie.test' }).first()
+    ).toBeUndefined();
+  });
+
+  it('provider가 code를 거절하면 OAUTH_CODE_INVALID', async () => {
+    const { state } = mockIssuer.authorize(await startLogin(), {
+      sub: 'rejected-subject',
+    });
+
+    const res = await callback({ code: 'unknown-code', state });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('OAUTH_CODE_INVALID');
+  });
+
+  it('provider가 응답하지 않으면 OAUTH_PROVIDER_UNAVAILABLE', async () => {
+    const authorization = mockIssuer.authorize(await startLogin(), {
+      sub: 'outage-subject',
+    });
+    mockIssuer.fail('/token');
+    // 5xx 에러는 errorHandler가 console.error로 남김
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+
+    const res = await callback(authorization);
+    consoleError.mockRestore();
+
+    expect(res.status).toBe(502);
+    expect(res.body.code).toBe('OAUTH_PROVIDER_UNAVAILABLE');
+  });
+});
+
+describe('oauth link', () => {
+  it('로그인한 사용자가 외부 계정을 연결하고 해제한다', async () => {
+    const owner = await joinAndLogin('oauthlink');
+
+    const linked = await callback(
+      mockIssuer.authorize(await startLink(owner.authorization), {
+        sub: 'link-subject',
+        email: 'other-address@boogie.test',
+        email_verified: true,
+      }),
+      owner.authorization
+    );
+
+    expect(linked.status).toBe(200);
+    expect(linked.body.isLinked).toBe(true);
+    expect(linked.body.identities).toEqual([
+      expect.objectContaining({ provider: 'mock' }),
+    ]);
+
+    // 연결한 외부 계정으로 로그인
+    const login = await callback(
+      mockIssuer.authorize(await startLogin(), { sub: 'link-subject' })
+    );
+    expect(login.status).toBe(200);
+
+    const unlinked = await api()
+      .delete('/api/auth/oauth/mock')
+      .set('authorization', owner.authorization);
+
+    expect(unlinked.status).toBe(200);
+    expect(unlinked.body.identities).toEqual([]);
+
+    // 해제한 뒤에는 같은 이메일이 없으므로 새 사용자로 가입하려다 이메일이 없어서 실패
+    const relogin = await callback(
+      mockIssuer.authorize(await startLogin(), { sub: 'link-subject' })
+    );
+    expect(relogin.status).toBe(400);
+    expect(relogin.body.code).toBe('OAUTH_EMAIL_REQUIRED');
+  });
+
+  it('다른 사용자에게 연결된 외부 계정은 연결할 수 없다', async () => {
+    await callback(
+      mockIssuer.authorize(await startLogin(), {
+        sub: 'taken-subject',
+        email: 'oauthtaken@boogie.test',
+        email_verified: true,
+      })
+    ).expect(201);
+    const other = await joinAndLogin('oauthtake');
+
+    const res = await callback(
+      mockIssuer.authorize(await startLink(other.authorization), {
+        sub: 'taken-subject',
+      }),
+      other.authorization
+    );
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('OAUTH_IDENTITY_ALREADY_LINKED');
+  });
+
+  it('access token 없이 연결 callback을 보내면 401', async () => {
+    const owner = await joinAndLogin('linkowner');
+    const state = getState(await startLink(owner.authorization, 'naver'));
+
+    const res = await api()
+      .post('/api/auth/oauth/naver/callback')
+      .send({ code: 'external-code', state });
+
+    expect(res.status).toBe(401);
+  });
+
+  it('다른 사용자의 access token으로 연결 callback을 보내면 AUTH_FORBIDDEN', async () => {
+    const owner = await joinAndLogin('linkvictim');
+    const attacker = await joinAndLogin('linkother');
+    const state = getState(await startLink(owner.authorization, 'naver'));
+
+    const res = await api()
+      .post('/api/auth/oauth/naver/callback')
+      .set('authorization', attacker.authorization)
+      .send({ code: 'external-code', state });
+
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('AUTH_FORBIDDEN');
+  });
+});
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkPasswordPolicy } from '../src/password/policy';
+import { loadCommonPasswords } from '../src/password/common-passwords';
+
+describe('common password blocklist', () => {
+  it('자주 쓰는 비밀번호 목록(top 10000)에 있는 비밀번호는 사용할 수 없다', () => {
+    const violations = checkPasswordPolicy('Football1');
+
+    expect(violations).toEqual([{ key: 'VALIDATION_PASSWORD_COMMON' }]);
+    expect(checkPasswordPolicy('Boogie-Pass-1234')).toEqual([]);
+  });
+
+  it('주석과 빈 줄을 제외하고 소문자로 읽는다', () => {
+    const file = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'blocklist-')),
+      'passwords.txt'
+    );
+    fs.writeFileSync(file, '# 주석\nBoogie-Pass-1234\r\n\n  other  \n');
+
+    expect(Array.from(loadCommonPasswords(file))).toEqual([
+      'boogie-pass-1234',
+      'other',
+    ]);
+  });
+});
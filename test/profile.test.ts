@@ -0,0 +1,288 @@
+import knex from '../src/db';
+import { deleteUser, ACCOUNT_DELETION_POLICY } from '../src/account';
+import {
+  api,
+  enableTwoFactor,
+  findId,
+  getMailedCode,
+  joinAndLogin,
+} from './helpers';
+
+describe('profile email change', () => {
+  /*
+      새 이메일로 인증번호를 받은 뒤 이메일 변경 요청
+  */
+  const changeEmail = async (
+    authorization: string,
+    newEmail: string,
+    body: object
+  ) => {
+    await api()
+      .post('/api/profile/email/code')
+      .set('authorization', authorization)
+      .send({ newEmail })
+      .expect(201);
+
+    return api()
+      .patch('/api/profile/email')
+      .set('authorization', authorization)
+      .send({ newEmail, code: getMailedCode(newEmail), ...body });
+  };
+
+  it('현재 비밀번호가 없거나 틀리면 이메일을 변경할 수 없다', async () => {
+    const user = await joinAndLogin('mover');
+
+    const { status: missingStatus, body: missing } = await changeEmail(
+      user.authorization,
+      'moved@boogie.test',
+      {}
+    );
+    const { status: mismatchStatus, body: mismatch } = await changeEmail(
+      user.authorization,
+      'moved@boogie.test',
+      { currentPassword: `${user.password}!` }
+    );
+
+    expect(missingStatus).toBe(400);
+    expect(missing.code).toBe('PASSWORD_MISMATCH');
+    expect(mismatchStatus).toBe(400);
+    expect(mismatch.code).toBe('PASSWORD_MISMATCH');
+  });
+
+  it('현재 비밀번호를 확인한 뒤 이메일을 변경한다', async () => {
+    const user = await joinAndLogin('changer');
+
+    const { status, body } = await changeEmail(
+      user.authorization,
+      'changed@boogie.test',
+      { currentPassword: user.password }
+    );
+
+    expect(status).toBe(200);
+    expect(body.data.email).toBe('changed@boogie.test');
+    await api()
+      .post('/api/auth/login')
+      .send({ id: 'changed@boogie.test', password: user.password })
+      .expect(200);
+  });
+
+  it('2단계 인증이 켜져 있으면 인증 코드도 확인한다', async () => {
+    const user = await joinAndLogin('guarded');
+    const [recoveryCode] = await enableTwoFactor(user.authorization);
+
+    const { status: missingStatus, body: missing } = await changeEmail(
+      user.authorization,
+      'guarded2@boogie.test',
+      { currentPassword: user.password }
+    );
+    const { status } = await changeEmail(
+      user.authorization,
+      'guarded2@boogie.test',
+      { currentPassword: user.password, recoveryCode }
+    );
+
+    expect(missingStatus).toBe(401);
+    expect(missing.code).toBe('TWO_FACTOR_CODE_INVALID');
+    expect(status).toBe(200);
+  });
+});
+
+describe('passwordless account', () => {
+  // 소셜 로그인으로 가입한 계정처럼 비밀번호가 없는 상태로 만듦
+  const joinPasswordless = async (nickname: string) => {
+    const user = await joinAndLogin(nickname);
+
+    await knex('user').update({ has_password: 0 }).where({ id: user.id });
+
+    return user;
+  };
+
+  // 현재 이메일로 본인 확인 인증번호를 받음
+  const getReauthenticationCode = async (user: {
+    id: string;
+    authorization: string;
+  }): Promise<string> => {
+    await api()
+      .post('/api/profile/reauthentication/code')
+      .set('authorization', user.authorization)
+      .expect(201);
+
+    return getMailedCode(user.id);
+  };
+
+  it('이메일 인증번호 없이는 비밀번호를 설정하거나 탈퇴할 수 없다', async () => {
+    const user = await joinPasswordless('stolen');
+
+    const responses = await Promise.all([
+      api()
+        .patch('/api/profile/password')
+        .set('authorization', user.authorization)
+        .send({ password: 'New-Pass-5678', verifyPassword: 'New-Pass-5678' }),
+      api()
+        .delete('/api/profile')
+        .set('authorization', user.authorization)
+        .send({}),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(403);
+      expect(body.code).toBe('REAUTHENTICATION_REQUIRED');
+    });
+    await api()
+      .delete('/api/profile')
+      .set('authorization', user.authorization)
+      .send({ reauthenticationCode: 'AAAAAAAA' })
+      .expect(409);
+  });
+
+  it('비밀번호를 설정하면 비밀번호로 로그인할 수 있다', async () => {
+    const user = await joinPasswordless('social');
+
+    await api()
+      .patch('/api/profile/password')
+      .set('authorization', user.authorization)
+      .send({
+        password: 'New-Pass-5678',
+        verifyPassword: 'New-Pass-5678',
+        reauthenticationCode: await getReauthenticationCode(user),
+      })
+      .expect(200);
+
+    const { hasPassword } = await knex('user')
+      .select('has_password as hasPassword')
+      .where({ id: user.id })
+      .first();
+
+    expect(!!hasPassword).toBe(true);
+    await api()
+      .post('/api/auth/login')
+      .send({ id: user.id, password: 'New-Pass-5678' })
+      .expect(200);
+  });
+
+  it('이메일 인증번호로 본인 확인한 뒤 탈퇴할 수 있다', async () => {
+    const user = await joinPasswordless('leaver');
+
+    await api()
+      .delete('/api/profile')
+      .set('authorization', user.authorization)
+      .send({ reauthenticationCode: await getReauthenticationCode(user) })
+      .expect(200);
+  });
+
+  it('2단계 인증이 켜져 있으면 인증 코드로 본인 확인한다', async () => {
+    const user = await joinPasswordless('social2fa');
+    const [recoveryCode] = await enableTwoFactor(user.authorization);
+
+    const reauthenticationCode: string = await getReauthenticationCode(user);
+
+    const { body } = await api()
+      .delete('/api/profile')
+      .set('authorization', user.authorization)
+      .send({ reauthenticationCode })
+      .expect(401);
+
+    expect(body.code).toBe('TWO_FACTOR_CODE_INVALID');
+    await api()
+      .delete('/api/profile')
+      .set('authorization', user.authorization)
+      .send({ reauthenticationCode, recoveryCode })
+      .expect(200);
+  });
+
+  it('이메일 인증번호로 본인 확인해야 이메일을 변경할 수 있다', async () => {
+    const user = await joinPasswordless('socialmv');
+    const changeEmail = async (body: object) => {
+      await api()
+        .post('/api/profile/email/code')
+        .set('authorization', user.authorization)
+        .send({ newEmail: 'takeover@boogie.test' })
+        .expect(201);
+
+      return api()
+        .patch('/api/profile/email')
+        .set('authorization', user.authorization)
+        .send({
+          newEmail: 'takeover@boogie.test',
+          code: getMailedCode('takeover@boogie.test'),
+          ...body,
+        });
+    };
+
+    const { status, body } = await changeEmail({});
+
+    expect(status).toBe(403);
+    expect(body.code).toBe('REAUTHENTICATION_REQUIRED');
+
+    const reauthenticationCode: string = await getReauthenticationCode(user);
+    const { status: changedStatus, body: changed } = await changeEmail({
+      reauthenticationCode,
+    });
+
+    expect(changedStatus).toBe(200);
+    expect(changed.data.email).toBe('takeover@boogie.test');
+  });
+
+  it('비밀번호가 있는 계정은 현재 비밀번호가 필요하다', async () => {
+    const user = await joinAndLogin('haspass');
+
+    const responses = await Promise.all([
+      api()
+        .patch('/api/profile/password')
+        .set('authorization', user.authorization)
+        .send({ password: 'New-Pass-5678', verifyPassword: 'New-Pass-5678' }),
+      api()
+        .delete('/api/profile')
+        .set('authorization', user.authorization)
+        .send({}),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(400);
+      expect(body.code).toBe('PASSWORD_MISMATCH');
+    });
+  });
+});
+
+describe('account deletion policy', () => {
+  it('DELETE 정책은 작성한 게시글, 댓글의 제목과 내용을 지운다', async () => {
+    const user = await joinAndLogin('eraser');
+
+    await api()
+      .post('/api/community')
+      .set('authorization', user.authorization)
+      .send({ categoryId: 1, title: '지울 글', content: '지울 내용' })
+      .expect(201);
+    const postId: string = await findId('board_content', { title: '지울 글' });
+    await api()
+      .post('/api/community/comment')
+      .set('authorization', user.authorization)
+      .send({ id: postId, content: '지울 댓글' })
+      .expect(201);
+
+    await knex.transaction((trx) => {
+      return deleteUser(trx, user.id, ACCOUNT_DELETION_POLICY.DELETE);
+    });
+
+    const post = await knex('board_content')
+      .select(
+        'user_id as userId',
+        'title',
+        'content',
+        'is_deleted as isDeleted'
+      )
+      .where({ id: postId })
+      .first();
+    const comments = await knex('board_comment')
+      .select('content')
+      .where({ board_content_id: postId });
+
+    expect(post).toMatchObject({
+      userId: 'deleted-user',
+      title: '',
+      content: '',
+    });
+    expect(!!post.isDeleted).toBe(true);
+    expect(comments).toEqual([{ content: '' }]);
+  });
+});
@@ -0,0 +1,217 @@
+import dayjs from 'dayjs';
+import knex from '../src/db';
+import { createSnippet, splitKeyword } from '../src/search';
+import { api, SUPERVISOR } from './helpers';
+
+const FREE_BOARD_ID = 1;
+const BACKEND_POSITION_ID = 2;
+const A_CLASS_ID = 1;
+
+/*
+    검색 결과를 원하는 점수로 만들기 위해 API 대신 DB에 바로 저장
+*/
+const insertPost = (id: string, title: string, content: string) => {
+  return knex('board_content').insert({
+    id,
+    user_id: SUPERVISOR.id,
+    category_id: FREE_BOARD_ID,
+    title,
+    content,
+    uploaded_at: dayjs().format('YYYY-MM-DD HH:mm:ss'),
+  });
+};
+
+const insertJobPosting = (
+  id: string,
+  { companyName = '부기', title = '개발자 채용', content = '', deadline = 7 }
+) => {
+  return knex('job_posting').insert({
+    id,
+    user_id: SUPERVISOR.id,
+    company_name: companyName,
+    title,
+    content,
+    deadline: dayjs().add(deadline, 'day').format('YYYYMMDD'),
+    image: '',
+    field: BACKEND_POSITION_ID,
+    address_information: '{}',
+  });
+};
+
+const insertSenierProject = async (
+  id: string,
+  groupName: string,
+  members: { uniId: string; name: string; introduction: string }[]
+) => {
+  await knex('senier_project').insert({
+    id,
+    year: '2023',
+    class_id: A_CLASS_ID,
+    group_name: groupName,
+    plattform: '[]',
+    technology: '[]',
+  });
+  await knex('team_member').insert(
+    members.map(({ uniId, name, introduction }) => ({
+      id,
+      uni_id: uniId,
+      name,
+      introduction,
+    }))
+  );
+};
+
+const search = (keyword: string, type?: string) => {
+  return api()
+    .get('/api/search')
+    .query({ keyword, ...(!!type && { type }) });
+};
+
+const ids = (list: { id: string }[]): string[] => list.map(({ id }) => id);
+
+describe('search', () => {
+  beforeAll(async () => {
+    await insertPost('post-title', '리액트 훅 정리', 'useEffect 사용법');
+    await insertPost('post-content', '자유 질문', '리액트 공부 중입니다');
+    await insertPost('post-both', '리액트 vs 뷰', '리액트를 배워요');
+    await insertPost('post-deleted', '리액트 삭제된 글', '리액트');
+    await knex('board_content')
+      .update({ is_deleted: 1 })
+      .where({ id: 'post-deleted' });
+    await insertPost('post-percent', '할인 안내', '전 품목 50% 할인');
+    await insertPost('post-underscore', '코드 안내', '쿠폰 코드는 50_OFF');
+    await insertPost('post-number', '500원 안내', '500원 할인');
+
+    await insertJobPosting('job-company', {
+      companyName: '리액트랩',
+      title: '프론트엔드 개발자',
+      content: '경력 무관',
+    });
+    await insertJobPosting('job-both', {
+      title: '리액트 개발자',
+      content: '리액트 경험자 우대',
+    });
+    await insertJobPosting('job-expired', {
+      title: '리액트 개발자',
+      content: '리액트',
+      deadline: -1,
+    });
+
+    await insertSenierProject('project-group', '리액트조', [
+      { uniId: '20230101', name: '김부기', introduction: '리액트 담당' },
+    ]);
+    await insertSenierProject('project-member', '2조', [
+      { uniId: '20230201', name: '이부기', introduction: '백엔드 담당' },
+      { uniId: '20230202', name: '박부기', introduction: '리액트 담당' },
+    ]);
+  });
+
+  it('게시글, 채용공고, 졸업작품을 가중치를 합산한 점수 순으로 검색한다', async () => {
+    const { body } = await search('리액트').expect(200);
+
+    expect(ids(body.post.list)).toEqual([
+      'post-both',
+      'post-title',
+      'post-content',
+    ]);
+    expect(body.post.list.map(({ score }: any) => score)).toEqual([3, 2, 1]);
+    expect(body.post.page).toBe(-1);
+
+    // 마감된 공고는 제외하고 회사명(2)보다 제목과 본문(3)이 일치한 공고가 먼저
+    expect(ids(body.jobPosting.list)).toEqual(['job-both', 'job-company']);
+    expect(body.jobPosting.list[1].snippet).toBe('<mark>리액트</mark>랩');
+
+    // 조 이름(3)과 팀원 소개(1)가 모두 일치한 작품이 먼저
+    expect(ids(body.senierProject.list)).toEqual([
+      'project-group',
+      'project-member',
+    ]);
+    expect(body.senierProject.list[0].score).toBe(4);
+    expect(body.senierProject.list[1]).toEqual(
+      expect.objectContaining({
+        groupName: 'A반 2조',
+        teamMember: '이부기, 박부기',
+        snippet: '<mark>리액트</mark> 담당',
+      })
+    );
+  });
+
+  it('type을 주면 해당 종류만 검색한다', async () => {
+    const { body } = await search('리액트', 'jobPosting').expect(200);
+
+    expect(Object.keys(body).sort()).toEqual(['jobPosting', 'keyword']);
+  });
+
+  it('한글 검색어를 공백으로 나눠 각각 일치한 점수를 더한다', async () => {
+    const { body } = await search('리액트 훅', 'post').expect(200);
+
+    expect(ids(body.post.list)[0]).toBe('post-title');
+    expect(body.post.list[0]).toEqual(
+      expect.objectContaining({
+        score: 4,
+        highlightedTitle: '<mark>리액트</mark> <mark>훅</mark> 정리',
+      })
+    );
+  });
+
+  it('자모 단위(NFD)로 입력한 한글 검색어도 찾는다', async () => {
+    const { body } = await search('리액트'.normalize('NFD'), 'post').expect(
+      200
+    );
+
+    expect(ids(body.post.list)).toEqual([
+      'post-both',
+      'post-title',
+      'post-content',
+    ]);
+  });
+
+  it('검색어의 %와 _는 LIKE 와일드카드가 아닌 문자 그대로 찾는다', async () => {
+    const percent = await search('50%', 'post').expect(200);
+    const underscore = await search('50_', 'post').expect(200);
+
+    expect(ids(percent.body.post.list)).toEqual(['post-percent']);
+    expect(ids(underscore.body.post.list)).toEqual(['post-underscore']);
+  });
+
+  it('한 글자 검색어는 400', async () => {
+    const { body } = await search('리').expect(400);
+
+    expect(body.code).toBe('VALIDATION_FAILED');
+  });
+});
+
+describe('createSnippet', () => {
+  it('검색어를 <mark>로 감싸고 나머지 HTML은 escape한다', () => {
+    expect(
+      createSnippet(
+        '<script>alert("리액트")</script> & <b>리액트</b>',
+        splitKeyword('리액트')
+      )
+    ).toBe(
+      '&lt;script&gt;alert(&quot;<mark>리액트</mark>&quot;)&lt;/script&gt; &amp; &lt;b&gt;<mark>리액트</mark>&lt;/b&gt;'
+    );
+  });
+
+  it('검색어 자체의 HTML 문자도 escape한다', () => {
+    expect(createSnippet('a <b> c', splitKeyword('<b>'))).toBe(
+      'a <mark>&lt;b&gt;</mark> c'
+    );
+  });
+
+  it('대소문자를 구분하지 않고 원문 표기를 유지한다', () => {
+    expect(createSnippet('React와 react', splitKeyword('REACT'))).toBe(
+      '<mark>React</mark>와 <mark>react</mark>'
+    );
+  });
+
+  it('검색어가 뒤쪽에 있으면 앞부분을 잘라내고 말줄임표를 붙인다', () => {
+    const text = `${'가'.repeat(100)}리액트${'나'.repeat(200)}`;
+    const snippet = createSnippet(text, splitKeyword('리액트'));
+
+    expect(snippet.startsWith(`…${'가'.repeat(30)}<mark>리액트</mark>`)).toBe(
+      true
+    );
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+});
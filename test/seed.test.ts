@@ -0,0 +1,22 @@
+import knex from '../src/db';
+import { seed } from '../src/db/seeds/02_user';
+
+describe('supervisor seed', () => {
+  const password = process.env.SEED_SUPERVISOR_PASSWORD;
+
+  afterEach(() => {
+    process.env.SEED_SUPERVISOR_PASSWORD = password;
+  });
+
+  it('SEED_SUPERVISOR_PASSWORD가 없으면 실패한다', async () => {
+    delete process.env.SEED_SUPERVISOR_PASSWORD;
+
+    await expect(seed(knex)).rejects.toThrow('SEED_SUPERVISOR_PASSWORD');
+  });
+
+  it('비밀번호 정책에 어긋나면 실패한다', async () => {
+    process.env.SEED_SUPERVISOR_PASSWORD = 'supervisor1234!';
+
+    await expect(seed(knex)).rejects.toThrow('SEED_SUPERVISOR_PASSWORD');
+  });
+});
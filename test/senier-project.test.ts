@@ -0,0 +1,120 @@
+import {
+  api,
+  bearer,
+  findId,
+  joinAndLogin,
+  login,
+  SUPERVISOR,
+} from './helpers';
+
+const A_CLASS_ID = 1;
+
+const senierProjectBody = {
+  groupName: '1조',
+  classId: A_CLASS_ID,
+  year: '2023',
+  teamMember: JSON.stringify([
+    { name: '김부기', uniId: '20230001', introduction: '**백엔드** 담당' },
+    { name: '이부기', uniId: '20230002', introduction: '프론트엔드 담당' },
+  ]),
+  link: JSON.stringify(['https://github.com/boogie']),
+  plattform: JSON.stringify([2, 1]),
+  technology: JSON.stringify([5, 2]),
+};
+
+/*
+    등록 API는 multipart/form-data만 받으므로 body를 field로 보냄
+*/
+const postSenierProject = (
+  authorization: string,
+  body: typeof senierProjectBody
+) => {
+  return Object.entries(body).reduce(
+    (request, [name, value]) => request.field(name, value),
+    api().post('/api/senier-project').set('authorization', authorization)
+  );
+};
+
+describe('senier-project', () => {
+  let supervisorAuthorization: string;
+  let projectId: string;
+
+  beforeAll(async () => {
+    const { accessToken } = await login(SUPERVISOR);
+    supervisorAuthorization = bearer(accessToken);
+
+    await postSenierProject(supervisorAuthorization, senierProjectBody).expect(
+      201
+    );
+    projectId = await findId('senier_project', { group_name: '1조' });
+  });
+
+  it('관리자가 아니면 졸업작품을 등록할 수 없다', async () => {
+    const member = await joinAndLogin('member');
+
+    const { body } = await postSenierProject(member.authorization, {
+      ...senierProjectBody,
+      groupName: '2조',
+    }).expect(403);
+
+    expect(body.code).toBe('AUTH_FORBIDDEN');
+  });
+
+  it('같은 조 이름으로는 등록할 수 없다', async () => {
+    const { body } = await postSenierProject(
+      supervisorAuthorization,
+      senierProjectBody
+    ).expect(400);
+
+    expect(body.code).toBe('SENIER_PROJECT_GROUP_DUPLICATED');
+  });
+
+  it('졸업작품 목록을 플랫폼, 기술로 필터링한다', async () => {
+    const {
+      body: { senierProjectList },
+    } = await api()
+      .get('/api/senier-project/list')
+      .query({ year: '2023', plattform: [1], technology: [2, 5] })
+      .expect(200);
+
+    expect(senierProjectList).toEqual([
+      expect.objectContaining({ id: projectId }),
+    ]);
+
+    const { body } = await api()
+      .get('/api/senier-project/list')
+      .query({ year: '2023', technology: [3] })
+      .expect(200);
+
+    expect(body.senierProjectList).toEqual([]);
+  });
+
+  it('팀원 소개를 HTML로 함께 조회한다', async () => {
+    const {
+      body: { senierProjectMemberList },
+    } = await api()
+      .get('/api/senier-project/detail/members')
+      .query({ id: projectId })
+      .expect(200);
+
+    expect(senierProjectMemberList).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          name: '김부기',
+          introductionHTML: '<p><strong>백엔드</strong> 담당</p>\n',
+        }),
+      ])
+    );
+  });
+
+  it('졸업작품을 삭제한다', async () => {
+    await api()
+      .delete(`/api/senier-project/${projectId}`)
+      .set('authorization', supervisorAuthorization)
+      .expect(200);
+    await api()
+      .delete(`/api/senier-project/${projectId}`)
+      .set('authorization', supervisorAuthorization)
+      .expect(404);
+  });
+});
@@ -0,0 +1,51 @@
+import knex from '../src/db';
+
+// sharp는 native 바이너리가 필요하므로 받은 이미지를 그대로 돌려주는 mock으로 대체
+// 읽지 못하는 이미지를 흉내낼 수 있도록 jest.fn으로 감쌈
+jest.mock('sharp', () => {
+  const sharp = (image: Buffer = Buffer.from('image')): any => ({
+    resize: () => sharp(image),
+    jpeg: () => sharp(image),
+    toBuffer: async () => image,
+  });
+
+  return jest.fn(sharp);
+});
+
+// S3 대신 메모리에 파일을 저장
+jest.mock('../src/s3', () => {
+  const files = new Map<string, Buffer>();
+
+  return {
+    __esModule: true,
+    default: {
+      files,
+      uploadFile: jest.fn(async (file: Buffer, fileKey: string) => {
+        files.set(fileKey, file);
+        return { Key: fileKey, key: fileKey };
+      }),
+      isExists: jest.fn(async (fileKey: string) => {
+        return files.has(fileKey) ? {} : null;
+      }),
+      getObjectURL: jest.fn(async (fileKey: string) => {
+        return files.has(fileKey) ? `https://s3.test/${fileKey}?signed` : false;
+      }),
+      deleteObject: jest.fn(async (fileKey: string) => files.delete(fileKey)),
+    },
+  };
+});
+
+// 메일은 보내지 않고 호출 내용만 기록 (인증번호는 helpers의 getMailedCode로 확인)
+jest.mock('../src/mail', () => ({
+  __esModule: true,
+  default: jest.fn(async () => ({})),
+}));
+
+beforeAll(async () => {
+  await knex.migrate.latest();
+  await knex.seed.run();
+});
+
+afterAll(async () => {
+  await knex.destroy();
+});
@@ -0,0 +1,179 @@
+import jwt from 'jsonwebtoken';
+import knex from '../src/db';
+import {
+  generatedJwtToken,
+  JWT_AUDIENCE,
+  JWT_ISSUER,
+  TWO_FACTOR_TOKEN_EXPIRES_IN,
+} from '../src/token';
+import { api, bearer, joinUser, login, TestUser } from './helpers';
+
+const ACCESS_ROUTE = '/api/auth/sessions';
+const REFRESH_ROUTE = '/api/token/refresh-token';
+const TWO_FACTOR_ROUTE = '/api/auth/login/two-factor';
+
+const signToken = (
+  payload: object,
+  options: jwt.SignOptions = {},
+  secret: string = process.env.jWT_SECRET as string
+): string => {
+  return jwt.sign(payload, secret, {
+    expiresIn: '5m',
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+    ...options,
+  });
+};
+
+describe('verifyToken', () => {
+  let user: TestUser;
+  let accessToken: string;
+  let refreshToken: string;
+  let twoFactorToken: string;
+
+  beforeAll(async () => {
+    user = await joinUser('token');
+    ({ accessToken, refreshToken } = await login(user));
+    twoFactorToken = generatedJwtToken({
+      email: user.id,
+      sub: 'two-factor',
+      expiresIn: TWO_FACTOR_TOKEN_EXPIRES_IN,
+    }) as string;
+  });
+
+  it('access 토큰은 access 라우터에서만 통과한다', async () => {
+    await api()
+      .get(ACCESS_ROUTE)
+      .set('authorization', bearer(accessToken))
+      .expect(200);
+
+    for (const route of [REFRESH_ROUTE, TWO_FACTOR_ROUTE]) {
+      const { body } = await api()
+        .post(route)
+        .set('authorization', bearer(accessToken))
+        .expect(401);
+
+      expect(body.code).toBe('AUTH_TOKEN_WRONG_TYPE');
+    }
+  });
+
+  it('refresh 토큰은 access 라우터에서 거부된다', async () => {
+    const { body } = await api()
+      .get(ACCESS_ROUTE)
+      .set('authorization', bearer(refreshToken))
+      .expect(401);
+
+    expect(body.code).toBe('AUTH_TOKEN_WRONG_TYPE');
+  });
+
+  it('2단계 인증 토큰은 access, refresh 라우터에서 모두 거부된다', async () => {
+    const responses = await Promise.all([
+      api().get(ACCESS_ROUTE).set('authorization', bearer(twoFactorToken)),
+      api().post(REFRESH_ROUTE).set('authorization', bearer(twoFactorToken)),
+    ]);
+
+    responses.forEach(({ status, body }) => {
+      expect(status).toBe(401);
+      expect(body.code).toBe('AUTH_TOKEN_WRONG_TYPE');
+    });
+  });
+
+  it.each([
+    ['issuer가 다른 토큰', { issuer: 'other-server' }],
+    ['audience가 다른 토큰', { audience: 'other-client' }],
+  ])('%s은 AUTH_TOKEN_INVALID로 거부된다', async (name, options) => {
+    const token = signToken({ sub: 'access', email: user.id }, options);
+
+    const { body } = await api()
+      .get(ACCESS_ROUTE)
+      .set('authorization', bearer(token))
+      .expect(401);
+
+    expect(body.code).toBe('AUTH_TOKEN_INVALID');
+  });
+
+  it('다른 secret으로 서명한 토큰은 AUTH_TOKEN_INVALID로 거부된다', async () => {
+    const token = signToken({ sub: 'access', email: user.id }, {}, 'other');
+
+    const { body } = await api()
+      .get(ACCESS_ROUTE)
+      .set('authorization', bearer(token))
+      .expect(401);
+
+    expect(body.code).toBe('AUTH_TOKEN_INVALID');
+  });
+
+  it('만료된 토큰은 AUTH_TOKEN_EXPIRED, 토큰이 없으면 AUTH_TOKEN_MISSING', async () => {
+    const token = signToken(
+      { sub: 'access', email: user.id },
+      { expiresIn: -60 }
+    );
+
+    const { body: expired } = await api()
+      .get(ACCESS_ROUTE)
+      .set('authorization', bearer(token))
+      .expect(419);
+    const { body: missing } = await api().get(ACCESS_ROUTE).expect(401);
+
+    expect(expired.code).toBe('AUTH_TOKEN_EXPIRED');
+    expect(missing.code).toBe('AUTH_TOKEN_MISSING');
+  });
+});
+
+describe('rotateRefreshToken', () => {
+  const getTokenId = (token: string): string => {
+    return (jwt.decode(token) as jwt.JwtPayload).jti as string;
+  };
+
+  const getFamily = async (token: string) => {
+    const { familyId } = await knex('refresh_token')
+      .select('family_id as familyId')
+      .where({ id: getTokenId(token) })
+      .first();
+
+    return knex('refresh_token')
+      .select('is_used as isUsed', 'is_revoked as isRevoked')
+      .where({ family_id: familyId });
+  };
+
+  const refresh = (token: string) => {
+    return api().post(REFRESH_ROUTE).set('authorization', bearer(token));
+  };
+
+  it('만료된 refresh 토큰은 AUTH_TOKEN_EXPIRED이고 family를 폐기하지 않는다', async () => {
+    const user = await joinUser('expired');
+    const { refreshToken } = await login(user);
+    const {
+      body: { data },
+    } = await refresh(refreshToken).expect(200);
+
+    await knex('refresh_token')
+      .update({ expires_at: '2000-01-01 00:00:00' })
+      .where({ id: getTokenId(data.refreshToken) });
+
+    const { body } = await refresh(data.refreshToken).expect(419);
+
+    expect(body.code).toBe('AUTH_TOKEN_EXPIRED');
+    (await getFamily(refreshToken)).forEach(({ isRevoked }) => {
+      expect(!!isRevoked).toBe(false);
+    });
+  });
+
+  it('이미 사용한 refresh 토큰을 다시 쓰면 family 전체를 폐기한다', async () => {
+    const user = await joinUser('reused');
+    const { refreshToken } = await login(user);
+    const {
+      body: { data },
+    } = await refresh(refreshToken).expect(200);
+
+    const { body } = await refresh(refreshToken).expect(401);
+
+    expect(body.code).toBe('AUTH_REFRESH_TOKEN_REUSED');
+    (await getFamily(refreshToken)).forEach(({ isRevoked }) => {
+      expect(!!isRevoked).toBe(true);
+    });
+
+    const { body: revoked } = await refresh(data.refreshToken).expect(401);
+    expect(revoked.code).toBe('AUTH_SESSION_REVOKED');
+  });
+});
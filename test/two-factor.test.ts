@@ -0,0 +1,156 @@
+import knex from '../src/db';
+import {
+  api,
+  bearer,
+  createTotp,
+  DEFAULT_PASSWORD,
+  joinAndLogin,
+  login,
+  SUPERVISOR,
+} from './helpers';
+
+const LOGIN_TWO_FACTOR_ROUTE = '/api/auth/login/two-factor';
+
+/*
+    2단계 인증을 등록하고 secret과 복구 코드를 리턴
+    등록할 때 현재 step을 사용했으므로 로그인에서 같은 코드를 쓸 수 있게 last_used_step을 비움
+*/
+const setUpTwoFactor = async (id: string, authorization: string) => {
+  const {
+    body: { secret },
+  } = await api()
+    .post('/api/auth/two-factor/setup')
+    .set('authorization', authorization)
+    .expect(201);
+  const {
+    body: { recoveryCodes },
+  } = await api()
+    .post('/api/auth/two-factor/enable')
+    .set('authorization', authorization)
+    .send({ code: createTotp(secret) })
+    .expect(200);
+
+  await knex('user_two_factor')
+    .update({ last_used_step: null })
+    .where({ user_id: id });
+
+  return { secret, recoveryCodes: recoveryCodes as string[] };
+};
+
+const requestTwoFactorToken = async (id: string, password: string) => {
+  const {
+    body: { data },
+  } = await api().post('/api/auth/login').send({ id, password }).expect(200);
+
+  expect(data).toEqual({
+    twoFactorRequired: true,
+    twoFactorToken: expect.any(String),
+  });
+  return bearer(data.twoFactorToken);
+};
+
+describe('two-factor login', () => {
+  it('2단계 인증을 켜면 로그인할 때 인증 코드가 필요하다', async () => {
+    const user = await joinAndLogin('otplogin');
+    const { secret } = await setUpTwoFactor(user.id, user.authorization);
+    const twoFactorToken = await requestTwoFactorToken(user.id, user.password);
+
+    const { body } = await api()
+      .post(LOGIN_TWO_FACTOR_ROUTE)
+      .set('authorization', twoFactorToken)
+      .send({ code: createTotp(secret) })
+      .expect(200);
+
+    expect(body.data.accessToken).toEqual(expect.any(String));
+  });
+
+  it('이미 사용한 step의 인증 코드는 다시 사용할 수 없다', async () => {
+    const user = await joinAndLogin('otpreplay');
+    const { secret } = await setUpTwoFactor(user.id, user.authorization);
+    const code: string = createTotp(secret);
+
+    await api()
+      .post(LOGIN_TWO_FACTOR_ROUTE)
+      .set('authorization', await requestTwoFactorToken(user.id, user.password))
+      .send({ code })
+      .expect(200);
+    const { body } = await api()
+      .post(LOGIN_TWO_FACTOR_ROUTE)
+      .set('authorization', await requestTwoFactorToken(user.id, user.password))
+      .send({ code })
+      .expect(401);
+
+    expect(body.code).toBe('TWO_FACTOR_CODE_INVALID');
+  });
+
+  it('복구 코드는 한 번만 사용할 수 있다', async () => {
+    const user = await joinAndLogin('otprecover');
+    const {
+      recoveryCodes: [recoveryCode],
+    } = await setUpTwoFactor(user.id, user.authorization);
+
+    await api()
+      .post(LOGIN_TWO_FACTOR_ROUTE)
+      .set('authorization', await requestTwoFactorToken(user.id, user.password))
+      .send({ recoveryCode })
+      .expect(200);
+    const { body } = await api()
+      .post(LOGIN_TWO_FACTOR_ROUTE)
+      .set('authorization', await requestTwoFactorToken(user.id, user.password))
+      .send({ recoveryCode })
+      .expect(401);
+
+    expect(body.code).toBe('TWO_FACTOR_CODE_INVALID');
+  });
+});
+
+describe('admin two-factor requirement', () => {
+  const admin = { id: 'otpadmin@boogie.test', password: DEFAULT_PASSWORD };
+  let supervisorAuthorization: string;
+
+  beforeAll(async () => {
+    const { accessToken } = await login(SUPERVISOR);
+    supervisorAuthorization = bearer(accessToken);
+
+    await api()
+      .post('/api/management/admin')
+      .set('authorization', supervisorAuthorization)
+      .send(admin)
+      .expect(201);
+    await api()
+      .put('/api/management/two-factor')
+      .set('authorization', supervisorAuthorization)
+      .send({ isRequired: true })
+      .expect(200);
+  });
+
+  afterAll(async () => {
+    await api()
+      .put('/api/management/two-factor')
+      .set('authorization', supervisorAuthorization)
+      .send({ isRequired: false })
+      .expect(200);
+  });
+
+  it('2단계 인증을 등록하지 않은 관리자는 관리자 기능을 사용할 수 없다', async () => {
+    const {
+      body: { data },
+    } = await api().post('/api/auth/login').send(admin).expect(200);
+    const authorization: string = bearer(data.accessToken);
+
+    expect(data.twoFactorSetupRequired).toBe(true);
+
+    const { body } = await api()
+      .get('/api/management/admin/list')
+      .set('authorization', authorization)
+      .expect(403);
+
+    expect(body.code).toBe('TWO_FACTOR_SETUP_REQUIRED');
+
+    await setUpTwoFactor(admin.id, authorization);
+    await api()
+      .get('/api/management/admin/list')
+      .set('authorization', authorization)
+      .expect(200);
+  });
+});